@@ -0,0 +1,4 @@
+export * from '../dist/index.js';
+import * as library from '../dist/index.js';
+
+export default library;
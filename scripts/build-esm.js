@@ -0,0 +1,21 @@
+// writes esm/index.mjs, the ES module entry - the CommonJS build of src/index.ts re-exported by name, so both module
+// systems share one copy of the registries (FileValidator.formats); run after tsc, the names are read from dist
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const names = Object.keys(require(path.join(root, 'dist/index.js'))).sort();
+
+const source = [
+  '// generated by scripts/build-esm.js from the exports of dist/index.js - do not edit',
+  "import library from '../dist/index.js';",
+  '',
+  'export const {',
+  names.map(name => `  ${name}`).join(',\n'),
+  '} = library;',
+  '',
+  'export default library;',
+  ''
+].join('\n');
+
+fs.writeFileSync(path.join(root, 'esm/index.mjs'), source, 'utf8');
@@ -1,27 +1,288 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
+import * as path from 'path';
 import CSVProcessor from '../processors/csvProcessor';
+import ColumnTypeInferrer, { ColumnSchema, ColumnType, COLUMN_TYPES } from '../utils/columnTypes';
 import ExcelProcessor from '../processors/excelProcessor';
-import XmlProcessor from '../processors/xmlProcessor';
+import XmlProcessor, { XmlValidationResult } from '../processors/xmlProcessor';
+import NDJSONProcessor, { NDJSONValidationResult } from '../processors/ndjsonProcessor';
+import { FileProcessor } from '../processors/fileProcessor';
 import FileValidator, { FileType } from '../utils/fileValidator';
+import CSVDialectSniffer from '../utils/csvDialectSniffer';
+import EncodingDetector from '../utils/encodingDetector';
+import { FileProcessorError, ParseError, SheetNotFoundError } from '../utils/errors';
+import JSONSchemaGenerator from '../utils/jsonSchemaGenerator';
+import SchemaValidator from '../utils/schemaValidator';
+import { XmlColumnMapping } from '../utils/xmlFlattener';
+import { XmlSecurityError } from '../utils/xmlSecurity';
+import RecordExtractor, { RecordProcessors } from '../utils/recordExtractor';
+import WriterRegistry, { OutputDataset, OutputFormat, OutputOptions } from '../writers/writerRegistry';
 
 const program = new Command();
 
+interface CSVCommandOptions {
+  encoding?: string;
+  delimiter?: string;
+  quote?: string;
+  header?: boolean;
+  inferTypes?: boolean;
+  typeSample?: string;
+  columnType?: string[];
+}
+
+// readable names for separators that would otherwise print as whitespace
+const describeCharacter = (value: string): string => {
+  const names: Record<string, string> = { '\t': 'tab', '\n': 'LF', '\r\n': 'CRLF', '\r': 'CR' };
+  return names[value] || `'${value}'`;
+};
+
+// accept "tab" and "\t" for tab separated input on the command line
+const parseDelimiter = (value: string): string => {
+  return value === 'tab' || value === '\\t' ? '\t' : value;
+};
+
+// collect repeatable options (--column-type, --column, --explode, --ns)
+const collectOption = (value: string, previous: string[]): string[] => [...previous, value];
+
+// turn name=type pairs into column type overrides
+const parseColumnTypes = (pairs: string[]): Record<string, ColumnType> => {
+  const columnTypes: Record<string, ColumnType> = {};
+  for (const pair of pairs) {
+    const separator = pair.lastIndexOf('=');
+    const name = pair.slice(0, separator).trim();
+    const type = pair.slice(separator + 1).trim().toLowerCase();
+    if (separator <= 0 || !ColumnTypeInferrer.isColumnType(type)) {
+      throw new Error(`Invalid column type '${pair}', expected name=type with type one of: ${COLUMN_TYPES.join(', ')}`);
+    }
+    columnTypes[name] = type;
+  }
+  return columnTypes;
+};
+
+// turn name=path pairs into XML column mappings - columns named by --explode get one row per repeated value
+const parseColumnMappings = (pairs: string[], explode: string[] = []): XmlColumnMapping[] => {
+  const columns = pairs.map(pair => {
+    const separator = pair.indexOf('=');
+    const name = pair.slice(0, separator).trim();
+    const columnPath = pair.slice(separator + 1).trim();
+    if (separator <= 0 || !columnPath) {
+      throw new Error(`Invalid column '${pair}', expected name=path like nct_id=id_info.nct_id or enrollment_type=enrollment@type`);
+    }
+    return { name, path: columnPath, ...(explode.includes(name) ? { explode: true } : {}) };
+  });
+
+  const unknown = explode.find(name => !columns.some(column => column.name === name));
+  if (unknown !== undefined) {
+    throw new Error(`Cannot explode '${unknown}', it is not one of the --column names`);
+  }
+  return columns;
+};
+
+// turn prefix=uri pairs into namespace bindings for XPath queries
+const parseNamespaces = (pairs: string[]): Record<string, string> => {
+  const namespaces: Record<string, string> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0 || separator === pair.length - 1) {
+      throw new Error(`Invalid namespace binding '${pair}', expected prefix=uri like atom=http://www.w3.org/2005/Atom`);
+    }
+    namespaces[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+  return namespaces;
+};
+
+const printSchema = (schema: ColumnSchema[]): void => {
+  console.log('\nColumn types:');
+  schema.forEach(column => console.log(`- ${column.name}: ${column.type}${column.nullable ? ' (nullable)' : ''}`));
+};
+
+// validation errors of an XML file, syntax errors with the offending line and a caret under the column
+const printXmlValidationErrors = (validation: XmlValidationResult): void => {
+  console.error('Validation errors:');
+  validation.errors.forEach(error => console.error(`- ${error}`));
+  validation.issues.forEach(issue => {
+    console.error(`\n  line ${issue.line}, column ${issue.column}: ${issue.message}`);
+    console.error(`    ${issue.snippet}`);
+    console.error(`    ${issue.caret}`);
+  });
+};
+
+// what to try next for a typed error - null when there is nothing to suggest
+const describeRemedy = (error: FileProcessorError): string | null => {
+  switch (error.code) {
+    case 'FILE_NOT_FOUND':
+      return 'Check the path - relative paths are resolved from the current directory';
+    case 'EMPTY_FILE':
+      return 'The file has no content - check it was written out completely';
+    case 'PARSE_ERROR':
+      return error instanceof ParseError && error.format === 'csv' ?
+        'Run "detect" on the file to see the sniffed dialect, or set it with --delimiter and --quote' :
+        'Run "detect" on the file to check its type and encoding, or set the encoding with --encoding';
+    case 'SHEET_NOT_FOUND':
+      return error instanceof SheetNotFoundError ?
+        `Available sheets: ${error.sheets.join(', ') || 'none'} - choose one with --sheet` :
+        'Choose an existing sheet with --sheet';
+    case 'UNSUPPORTED_FORMAT':
+      return `Supported types: ${FileValidator.formats.getNames().join(', ')} - load a format for other files with --plugin`;
+    case 'UNSUPPORTED_ENCODING':
+      return 'Name an encoding iconv-lite knows with --encoding (utf8, latin1, windows-1252, shift_jis, ...), or "auto" to detect it';
+    case 'XML_SECURITY':
+      return error instanceof XmlSecurityError && error.limit === 'doctype' ?
+        'Use --allow-doctype to accept internal entity declarations, or --no-secure-xml for trusted files' :
+        'Use --no-secure-xml to process trusted files without the secure parsing profile';
+    default:
+      return null;
+  }
+};
+
+// print the error of a command - typed errors add where a parse stopped and a hint on what to do about it
+const printError = (error: unknown): void => {
+  if (error instanceof XmlSecurityError) {
+    console.error(`XML security limit hit (${error.limit}): ${error.message}`);
+  } else {
+    console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+  }
+  if (!(error instanceof FileProcessorError)) {
+    return;
+  }
+
+  if (error instanceof ParseError && (error.line !== undefined || error.record !== undefined)) {
+    const location = [
+      ...(error.line !== undefined ? [`line ${error.line}`] : []),
+      ...(error.column !== undefined ? [`column ${error.column}`] : []),
+      ...(error.record !== undefined ? [`record ${error.record}`] : [])
+    ];
+    console.error(`Location: ${location.join(', ')}${error.filePath ? ` of ${error.filePath}` : ''}`);
+  }
+  const remedy = describeRemedy(error);
+  if (remedy) {
+    console.error(`Hint: ${remedy}`);
+  }
+};
+
+// create a CSV processor for the file - sniffs the dialect, command line options take precedence
+const createCSVProcessor = (file: string, overrides: CSVCommandOptions): CSVProcessor => {
+  const dialect = CSVDialectSniffer.sniffFile(file, overrides.encoding);
+  console.log(`Detected CSV dialect: delimiter ${describeCharacter(dialect.delimiter)}, quote ${describeCharacter(dialect.quote)}, ` +
+    `escape ${describeCharacter(dialect.escape)}, header ${dialect.hasHeader ? 'yes' : 'no'}, ` +
+    `line endings ${describeCharacter(dialect.lineTerminator)} (confidence ${(dialect.confidence * 100).toFixed(1)}%)`);
+
+  return new CSVProcessor({
+    ...(overrides.encoding !== undefined ? { encoding: overrides.encoding } : {}),
+    delimiter: overrides.delimiter !== undefined ? parseDelimiter(overrides.delimiter) : dialect.delimiter,
+    quote: overrides.quote !== undefined ? overrides.quote : dialect.quote,
+    escape: overrides.quote !== undefined ? overrides.quote : dialect.escape,
+    headers: overrides.header !== undefined ? overrides.header : dialect.hasHeader,
+    ...(dialect.lineTerminator === '\r' ? { newline: '\r' } : {}),
+    ...(overrides.inferTypes ? { inferTypes: true } : {}),
+    ...(overrides.typeSample !== undefined ? { typeSampleSize: parseInt(overrides.typeSample) } : {}),
+    ...(overrides.columnType && overrides.columnType.length > 0 ? { columnTypes: parseColumnTypes(overrides.columnType) } : {})
+  });
+};
+
+// options of the commands that read records from any supported file
+interface RecordCommandOptions extends CSVCommandOptions {
+  sheet?: string;
+  record?: string;
+  column?: string[];
+  explode?: string[];
+  joinSeparator?: string;
+}
+
+// processors for reading records of any supported file - CSV input goes through the sniffed dialect, XML is streamed
+// record by record when a record element is named, and flattened into rows when columns are mapped
+const createRecordProcessors = (file: string, options: RecordCommandOptions): RecordProcessors => {
+  const fileType = FileValidator.validateFile(file).fileType;
+  const columns = options.column && options.column.length > 0 ? parseColumnMappings(options.column, options.explode) : undefined;
+  if (columns && (fileType !== FileType.XML || !options.record)) {
+    throw new Error('Column mappings (--column) flatten XML records, they need XML input and the record element (--record)');
+  }
+
+  return {
+    ...(fileType === FileType.CSV ? { csv: createCSVProcessor(file, options) } : {}),
+    ...(options.sheet ? { excel: new ExcelProcessor({ sheetName: options.sheet }) } : {}),
+    xml: new XmlProcessor({
+      encoding: options.encoding || 'auto',
+      mergeAttrs: true,
+      ...(options.record ? { recordPath: options.record } : {}),
+      ...(columns ? { columns, ...(options.joinSeparator !== undefined ? { joinSeparator: options.joinSeparator } : {}) } : {})
+    }),
+    ndjson: new NDJSONProcessor({ encoding: options.encoding || 'auto' })
+  };
+};
+
+const outputFormats = WriterRegistry.createDefault();
+
+// the output format from --to, otherwise from the extension of the output path
+const resolveOutputFormat = (to: string | undefined, output: string | undefined): OutputFormat => {
+  if (to) {
+    const format = outputFormats.get(to);
+    if (!format) {
+      throw new Error(`Unsupported output format: ${to}. Supported formats: ${outputFormats.getNames().join(', ')}`);
+    }
+    return format;
+  }
+
+  const format = output ? outputFormats.fromPath(output) : undefined;
+  if (!format) {
+    throw new Error(`Cannot infer the output format${output ? ` from '${output}'` : ''}, use --to with one of: ${outputFormats.getNames().join(', ')}`);
+  }
+  return format;
+};
+
+// read one input for the output format - XML and JSON inputs keep their whole document for the formats that use it,
+// so attributes, namespaces and element order survive (sibling order, mixed content and comments too for XML output); everything else, and XML read by record element, is read as records
+const readOutputDataset = async (input: string, format: OutputFormat, options: RecordCommandOptions & { encoding: string }): Promise<OutputDataset> => {
+  const name = path.basename(input, path.extname(input));
+  const fileType = FileValidator.validateFile(input).fileType;
+
+  if (format.usesDocument && fileType === FileType.XML && !options.record && !(options.column && options.column.length > 0)) {
+    const processor = new XmlProcessor({ encoding: options.encoding, ...(format.preservesOrder ? { preserveOrder: true } : {}) });
+    return { name, records: [], document: (await processor.processFile(input)).data };
+  }
+  if (format.usesDocument && fileType === FileType.JSON) {
+    return { name, records: [], document: RecordExtractor.readJSON(input) };
+  }
+
+  const { records } = await RecordExtractor.extract(input, createRecordProcessors(input, options));
+  return { name, records: records.map(record => record.data) };
+};
+
+// register the input formats of --plugin modules, and the writers they bring with the output formats
+const loadPlugins = (modules: string[]): void => {
+  for (const modulePath of modules) {
+    FileValidator.formats.load(modulePath).forEach(format => {
+      if (format.writer) {
+        outputFormats.register(format.writer);
+      }
+    });
+  }
+};
+
 program
   .name('file-processor')
   .description('CLI tool for processing CSV, Excel, and XML files')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--plugin <module>', 'Load input formats from a module exporting them, repeatable', collectOption, [])
+  .hook('preAction', () => {
+    try {
+      loadPlugins(program.opts().plugin);
+    } catch (error) {
+      program.error(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
 
 program
   .command('test-csv')
   .description('Test CSV processing with sample file')
   .argument('[file]', 'CSV file to test', './data/samples/csv/fish-monetary-stock-account-1996-2019.csv')
-  .action(async (file) => {
+  .option('-e, --encoding <name>', 'Input encoding, e.g. utf-8, windows-1252, shift_jis (default: auto-detect)', 'auto')
+  .action(async (file, options) => {
     try {
       console.log(`Testing CSV file: ${file}`);
       
-      const processor = new CSVProcessor();
+      const processor = new CSVProcessor({ encoding: options.encoding });
       
       // get stats
       const stats = await processor.getStatistics(file);
@@ -45,7 +306,7 @@ program
       console.log(`Total rows processed: ${result.rowCount}`);
       
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      printError(error);
     }
   });
 
@@ -55,11 +316,19 @@ program
   .argument('<input>', 'Input CSV file path')
   .option('-o, --output <path>', 'Output JSON file path (optional)')
   .option('-p, --preview <rows>', 'Show preview of first N rows', '5')
+  .option('-e, --encoding <name>', 'Input encoding, e.g. utf-8, windows-1252, shift_jis (default: auto-detect)', 'auto')
+  .option('--delimiter <char>', 'Field delimiter (default: auto-detect, use "tab" for tabs)')
+  .option('--quote <char>', 'Quote character (default: auto-detect)')
+  .option('--header', 'First row is a header (default: auto-detect)')
+  .option('--no-header', 'First row is data, not a header')
+  .option('--infer-types', 'Convert values to inferred column types (integer, decimal, boolean, date, datetime)')
+  .option('--type-sample <rows>', 'Rows scanned to infer column types, 0 scans all rows', '1000')
+  .option('--column-type <name=type>', 'Force the type of a column, repeatable', collectOption, [])
   .action(async (input, options) => {
     try {
       console.log(`Converting CSV to JSON: ${input}`);
       
-      const processor = new CSVProcessor();
+      const processor = createCSVProcessor(input, options);
       
       // validate file first
       const validation = processor.validateCSV(input);
@@ -79,6 +348,10 @@ program
       console.log(`\nPreview (first ${previewRows} rows):`);
       const preview = await processor.getPreview(input, previewRows);
       console.log(JSON.stringify(preview.data, null, 2));
+
+      if (options.inferTypes) {
+        printSchema(await processor.inferSchema(input));
+      }
       
       // convert to JSON
       console.log('\nConverting to JSON...');
@@ -105,7 +378,7 @@ program
       console.log(`- File size: ${(stats.fileSize / 1024).toFixed(2)} KB`);
       
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      printError(error);
     }
   });
 
@@ -156,7 +429,7 @@ program
       console.log(`Total rows processed: ${result.data.length}`);
       
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      printError(error);
     }
   });
 
@@ -250,7 +523,7 @@ program
       console.log(`- File size: ${(stats.fileSize / 1024).toFixed(2)} KB`);
       
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      printError(error);
     }
   });
 
@@ -259,17 +532,17 @@ program
   .description('Test XML processing with sample file')
   .argument('[file]', 'XML file to test', './data/samples/xml/covid-19-CLinical-trials-studies/NCT04320017.xml')
   .option('-d, --depth <number>', 'Maximum depth for preview', '3')
+  .option('-e, --encoding <name>', 'Input encoding, e.g. utf-8, windows-1252, shift_jis (default: auto-detect)', 'auto')
   .action(async (file, options) => {
     try {
       console.log(`Testing XML file: ${file}`);
       
-      const processor = new XmlProcessor();
+      const processor = new XmlProcessor({ encoding: options.encoding });
       
       // validate file first
-      const validation = processor.validateXml(file);
+      const validation = await processor.validateXml(file);
       if (!validation.isValid) {
-        console.error('Validation errors:');
-        validation.errors.forEach(error => console.error(`- ${error}`));
+        printXmlValidationErrors(validation);
         return;
       }
       
@@ -288,6 +561,7 @@ program
       console.log(`- Unique elements: ${stats.uniqueElements}`);
       console.log(`- Unique attributes: ${stats.uniqueAttributes}`);
       console.log(`- Has namespaces: ${stats.hasNamespaces ? 'Yes' : 'No'}`);
+      Object.entries(stats.namespaces).forEach(([prefix, uri]) => console.log(`  ${prefix || '(default)'}: ${uri}`));
       console.log(`- File size: ${(stats.fileSize / 1024).toFixed(2)} KB`);
       
       // get preview
@@ -314,7 +588,7 @@ program
       console.log(`Structure analyzed: ${result.structure.totalElements} elements, ${result.structure.maxDepth} max depth`);
       
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      printError(error);
     }
   });
 
@@ -324,17 +598,32 @@ program
   .argument('<input>', 'Input XML file path')
   .option('-o, --output <path>', 'Output JSON file path (optional)')
   .option('-d, --depth <number>', 'Maximum depth for preview', '3')
+  .option('-e, --encoding <name>', 'Input encoding, e.g. utf-8, windows-1252, shift_jis (default: auto-detect)', 'auto')
+  .option('--record <path>', 'Stream the repeating record element, by name or path (e.g. clinical_study, feed/entry), into a JSON array')
   .action(async (input, options) => {
     try {
       console.log(`Converting XML to JSON: ${input}`);
       
-      const processor = new XmlProcessor();
+      const processor = new XmlProcessor({ encoding: options.encoding, ...(options.record ? { recordPath: options.record } : {}) });
+
+      // record mode streams the file, so the whole-document validation, preview and statistics are skipped
+      if (options.record) {
+        const startTime = Date.now();
+        const result = await processor.convertToJSON(input, options.output);
+        if (options.output) {
+          console.log(`JSON saved to: ${result}`);
+        } else {
+          console.log('\nJSON output:');
+          console.log(result);
+        }
+        console.log(`\nConversion completed in ${Date.now() - startTime}ms`);
+        return;
+      }
       
       // validate file first
-      const validation = processor.validateXml(input);
+      const validation = await processor.validateXml(input);
       if (!validation.isValid) {
-        console.error('Validation errors:');
-        validation.errors.forEach(error => console.error(`- ${error}`));
+        printXmlValidationErrors(validation);
         return;
       }
       
@@ -375,7 +664,85 @@ program
       console.log(`- File size: ${(stats.fileSize / 1024).toFixed(2)} KB`);
       
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      printError(error);
+    }
+  });
+
+program
+  .command('query-xml')
+  .description('Select nodes of an XML file with an XPath 1.0 expression')
+  .argument('<file>', 'XML file path')
+  .requiredOption('-x, --xpath <expression>', 'XPath 1.0 expression, e.g. //location/facility/name or count(//condition); names may be written as {uri}localName')
+  .option('-n, --ns <prefix=uri>', 'Bind a namespace prefix used in the expression, repeatable (prefixes declared in the file are bound already)', collectOption, [])
+  .option('-o, --output <path>', 'Output JSON file path (optional)')
+  .option('-e, --encoding <name>', 'Input encoding, e.g. utf-8, windows-1252, shift_jis (default: auto-detect)', 'auto')
+  .action(async (file, options) => {
+    try {
+      console.log(`Querying XML file: ${file}`);
+
+      const processor = new XmlProcessor({ encoding: options.encoding });
+      const result = await processor.query(file, options.xpath, parseNamespaces(options.ns));
+      // scalar results (count(), string(), comparisons) are printed as they are, node sets as a list of matches
+      const json = JSON.stringify(result.value !== undefined ? result.value : result.nodes, null, 2);
+
+      if (result.value !== undefined) {
+        console.log(`\nResult (${typeof result.value}): ${result.value}`);
+      } else {
+        console.log(`\nMatched ${result.nodes.length} node${result.nodes.length === 1 ? '' : 's'}`);
+      }
+
+      if (options.output) {
+        const fs = await import('fs');
+        fs.writeFileSync(options.output, json, 'utf8');
+        console.log(`JSON saved to: ${options.output}`);
+      } else if (result.value === undefined) {
+        console.log(json);
+      }
+
+      console.log(`\nQuery completed in ${result.processingTime}ms`);
+
+    } catch (error) {
+      printError(error);
+    }
+  });
+
+program
+  .command('validate-xml')
+  .description('Validate an XML file against an XML Schema (XSD)')
+  .argument('<file>', 'XML file path')
+  .requiredOption('--xsd <path>', 'XML Schema file, xs:include and xs:import locations are read relative to it')
+  .option('-e, --encoding <name>', 'Input encoding, e.g. utf-8, windows-1252, shift_jis (default: auto-detect)', 'auto')
+  .option('--max-errors <count>', 'Most violations to list', '50')
+  .action(async (file, options) => {
+    try {
+      console.log(`Validating ${file} against XSD: ${options.xsd}`);
+
+      const processor = new XmlProcessor({ encoding: options.encoding });
+      const result = await processor.validateXsd(file, options.xsd);
+
+      const maxErrors = parseInt(options.maxErrors);
+      if (result.violations.length > 0) {
+        console.log('\nViolations:');
+        result.violations.slice(0, maxErrors).forEach(violation => {
+          console.log(`- line ${violation.line}, column ${violation.column} (${violation.path}): ${violation.message} (${violation.rule})`);
+        });
+        if (result.violations.length > maxErrors) {
+          console.log(`- ... ${result.violations.length - maxErrors} more violations not listed`);
+        }
+      }
+
+      console.log(`\nSummary:`);
+      console.log(`- Elements: ${result.elements}`);
+      console.log(`- Violations: ${result.violations.length}`);
+      console.log(result.isValid ? '\nThe document matches the schema' : '\nValidation failed');
+
+      if (!result.isValid) {
+        process.exitCode = 1;
+      }
+
+    } catch (error) {
+      printError(error);
+      process.exitCode = 1;
     }
   });
 
@@ -398,9 +765,20 @@ program
       
       console.log(`\nDetection Results:`);
       console.log(`- Detected Type: ${detection.detectedType || 'Unknown'}`);
+      if (detection.signature) {
+        console.log(`- Content: ${detection.signature.description}`);
+      }
       console.log(`- Confidence: ${(detection.confidence * 100).toFixed(1)}%`);
       console.log(`- Reasons: ${detection.reasons.join(', ')}`);
       
+      if (validation.fileInfo.size > 0 && detection.detectedType !== FileType.EXCEL && !(detection.signature && detection.signature.binary)) {
+        const encoding = EncodingDetector.detectFile(file);
+        console.log(`\nEncoding:`);
+        console.log(`- Detected Encoding: ${encoding.encoding}${encoding.hasBOM ? ' (with BOM)' : ''}`);
+        console.log(`- Confidence: ${(encoding.confidence * 100).toFixed(1)}%`);
+        console.log(`- Reasons: ${encoding.reasons.join(', ')}`);
+      }
+      
       if (validation.errors.length > 0) {
         console.log(`\nValidation Errors:`);
         validation.errors.forEach(error => console.log(`- ${error}`));
@@ -430,17 +808,190 @@ program
             console.log(`- Test Command: npm run test-xml "${file}"`);
             console.log(`- Convert Command: npm run convert-xml "${file}" -- -o "output.json"`);
             break;
+          case FileType.JSON:
+            console.log(`- Convert Command: npm run convert "${file}" -- -o "output.csv"`);
+            break;
+          case FileType.NDJSON:
+            console.log(`- Convert Command: npm run convert "${file}" -- -o "output.json"`);
+            break;
+          default: {
+            const plugins = (program.opts().plugin as string[]).map(modulePath => ` --plugin "${modulePath}"`).join('');
+            console.log(`- Process Command: npm run process "${file}" --${plugins} -o "output.json"`);
+          }
         }
         
         console.log(`\nSupported Extensions:`);
-        const extensions = FileValidator.getSupportedExtensions();
-        console.log(`- CSV: ${extensions.csv.join(', ')}`);
-        console.log(`- Excel: ${extensions.excel.join(', ')}`);
-        console.log(`- XML: ${extensions.xml.join(', ')}`);
+        FileValidator.formats.getFormats().forEach(format => console.log(`- ${format.label}: ${format.extensions.join(', ')}`));
       }
       
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      printError(error);
+    }
+  });
+
+program
+  .command('convert')
+  .description('Convert CSV, Excel, XML or JSON files to another format - the input type is detected automatically')
+  .argument('<inputs...>', 'Input file paths - XLSX and HTML output take several (one sheet or table each)')
+  .option('--to <format>', `Output format: ${outputFormats.getNames().join(', ')} (default: from the output file extension)`)
+  .option('-o, --output <path>', 'Output file path (default: print to the console, required for xlsx)')
+  .option('-s, --sheet <name>', 'Sheet name for Excel input (default: first sheet)')
+  .option('-e, --encoding <name>', 'Input encoding for CSV/XML files (default: auto-detect)', 'auto')
+  .option('--record <path>', 'XML input: stream the repeating record element, by name or path (e.g. entry, feed/entry)')
+  .option('--column <name=path>', 'XML input with --record: flatten records into rows with this column, read by dotted path ' +
+    'with an optional @attribute (e.g. nct_id=id_info.nct_id, enrollment_type=enrollment@type), repeatable', collectOption, [])
+  .option('--explode <name>', 'Give each repeated value of this --column its own row instead of joining them, repeatable', collectOption, [])
+  .option('--join-separator <text>', 'Separator for the repeated values of a --column', '; ')
+  .option('--delimiter <char>', 'CSV output field delimiter (use "tab" for tabs)', ',')
+  .option('--line-ending <type>', 'CSV and TSV output line ending: lf or crlf', 'lf')
+  .option('--group-by <field>', 'XLSX output: one sheet per distinct value of a field')
+  .option('--root-element <name>', 'XML output: root element for record lists', 'records')
+  .option('--record-element <name>', 'XML output: element for each record', 'record')
+  .option('--title <text>', 'HTML output: page title (default: the input names)')
+  .action(async (inputs: string[], options) => {
+    try {
+      const format = resolveOutputFormat(options.to, options.output);
+      const label = format.name.toUpperCase();
+      if (!format.multipleInputs && inputs.length > 1) {
+        throw new Error(`${label} output takes a single input file`);
+      }
+      if (format.binary && !options.output) {
+        throw new Error(`${label} output needs an output file path (-o)`);
+      }
+      if (options.lineEnding !== 'lf' && options.lineEnding !== 'crlf') {
+        throw new Error(`Unsupported line ending: ${options.lineEnding}. Use lf or crlf`);
+      }
+
+      console.log(`Converting ${inputs.join(', ')} to ${label}`);
+
+      // record-per-line output goes straight from the input to the file without holding the records
+      if (format.writeStream && options.output && inputs.length === 1) {
+        const processors = createRecordProcessors(inputs[0], options);
+        let count = 0;
+        const records = async function* () {
+          for await (const record of RecordExtractor.stream(inputs[0], processors)) {
+            count++;
+            yield record.data;
+          }
+        };
+
+        await format.writeStream(records(), {}, options.output);
+        console.log(`${label} saved to: ${options.output}`);
+        console.log(`\nConverted:\n- ${path.basename(inputs[0], path.extname(inputs[0]))}: ${count} record${count === 1 ? '' : 's'}`);
+        return;
+      }
+
+      const datasets: OutputDataset[] = [];
+      for (const input of inputs) {
+        datasets.push(await readOutputDataset(input, format, options));
+      }
+
+      const outputOptions: OutputOptions = {
+        delimiter: parseDelimiter(options.delimiter),
+        lineEnding: options.lineEnding === 'crlf' ? '\r\n' : '\n',
+        rootElement: options.rootElement,
+        recordElement: options.recordElement,
+        ...(options.groupBy ? { groupBy: options.groupBy } : {}),
+        ...(options.title ? { title: options.title } : {})
+      };
+
+      if (options.output) {
+        await outputFormats.writeFile(format, datasets, outputOptions, options.output);
+        console.log(`${label} saved to: ${options.output}`);
+      } else {
+        console.log(`\n${label} output:`);
+        process.stdout.write(format.render(datasets, outputOptions));
+      }
+
+      console.log('\nConverted:');
+      datasets.forEach(dataset => console.log(dataset.document !== undefined
+        ? `- ${dataset.name}: whole document`
+        : `- ${dataset.name}: ${dataset.records.length} record${dataset.records.length === 1 ? '' : 's'}`));
+
+    } catch (error) {
+      printError(error);
+    }
+  });
+
+program
+  .command('schema')
+  .description('Infer a JSON Schema (draft 2020-12) describing the records of a CSV, Excel or XML file')
+  .argument('<file>', 'File to inspect')
+  .option('-o, --output <path>', 'Output schema file path (optional)')
+  .option('-s, --sheet <name>', 'Sheet name for Excel files (default: first sheet)')
+  .option('-e, --encoding <name>', 'Input encoding for CSV/XML files (default: auto-detect)', 'auto')
+  .option('--record <path>', 'XML input: stream the repeating record element, by name or path (e.g. entry, feed/entry)')
+  .option('--delimiter <char>', 'CSV field delimiter (default: auto-detect, use "tab" for tabs)')
+  .option('--quote <char>', 'CSV quote character (default: auto-detect)')
+  .option('--header', 'CSV first row is a header (default: auto-detect)')
+  .option('--no-header', 'CSV first row is data, not a header')
+  .option('--enum-threshold <count>', 'Most distinct values listed as an enum, 0 disables enums', '10')
+  .action(async (file, options) => {
+    try {
+      console.log(`Inferring JSON Schema: ${file}`);
+
+      const schema = await JSONSchemaGenerator.fromFile(file, { enumThreshold: parseInt(options.enumThreshold) }, createRecordProcessors(file, options));
+      const jsonString = JSON.stringify(schema, null, 2);
+
+      if (options.output) {
+        const fs = await import('fs');
+        fs.writeFileSync(options.output, jsonString, 'utf8');
+        console.log(`Schema saved to: ${options.output}`);
+      } else {
+        console.log('\nJSON Schema:');
+        console.log(jsonString);
+      }
+
+    } catch (error) {
+      printError(error);
+    }
+  });
+
+program
+  .command('validate')
+  .description('Validate every record of a CSV, Excel or XML file against a JSON Schema')
+  .argument('<file>', 'File to validate')
+  .requiredOption('--schema <path>', 'JSON Schema file (a record schema, or an array schema from the schema command)')
+  .option('-s, --sheet <name>', 'Sheet name for Excel files (default: first sheet)')
+  .option('-e, --encoding <name>', 'Input encoding for CSV/XML files (default: auto-detect)', 'auto')
+  .option('--record <path>', 'XML input: stream the repeating record element, by name or path (e.g. entry, feed/entry)')
+  .option('--delimiter <char>', 'CSV field delimiter (default: auto-detect, use "tab" for tabs)')
+  .option('--quote <char>', 'CSV quote character (default: auto-detect)')
+  .option('--header', 'CSV first row is a header (default: auto-detect)')
+  .option('--no-header', 'CSV first row is data, not a header')
+  .option('--max-errors <count>', 'Most violations to list', '50')
+  .action(async (file, options) => {
+    try {
+      console.log(`Validating ${file} against schema: ${options.schema}`);
+
+      const validator = SchemaValidator.fromFile(options.schema);
+      const result = await validator.validateFile(file, createRecordProcessors(file, options));
+
+      const maxErrors = parseInt(options.maxErrors);
+      if (result.violations.length > 0) {
+        console.log('\nViolations:');
+        result.violations.slice(0, maxErrors).forEach(violation => {
+          console.log(`- ${violation.location}, field '${violation.field}': ${violation.message} (${violation.rule})`);
+        });
+        if (result.violations.length > maxErrors) {
+          console.log(`- ... ${result.violations.length - maxErrors} more violations not listed`);
+        }
+      }
+
+      console.log(`\nSummary:`);
+      console.log(`- Records: ${result.totalRecords}`);
+      console.log(`- Valid: ${result.validRecords}`);
+      console.log(`- Invalid: ${result.invalidRecords}`);
+      console.log(`- Violations: ${result.violations.length}`);
+      console.log(result.isValid ? '\nAll records match the schema' : '\nValidation failed');
+
+      if (!result.isValid) {
+        process.exitCode = 1;
+      }
+
+    } catch (error) {
+      printError(error);
+      process.exitCode = 1;
     }
   });
 
@@ -453,6 +1004,17 @@ program
   .option('-d, --depth <number>', 'Preview depth for XML', '3')
   .option('-s, --sheet <name>', 'Sheet name for Excel files')
   .option('--all-sheets', 'Process all sheets for Excel files')
+  .option('-e, --encoding <name>', 'Input encoding for CSV/XML files (default: auto-detect)', 'auto')
+  .option('--record <path>', 'XML input: stream the repeating record element, by name or path (e.g. entry, feed/entry)')
+  .option('--delimiter <char>', 'CSV field delimiter (default: auto-detect, use "tab" for tabs)')
+  .option('--quote <char>', 'CSV quote character (default: auto-detect)')
+  .option('--header', 'CSV first row is a header (default: auto-detect)')
+  .option('--no-header', 'CSV first row is data, not a header')
+  .option('--infer-types', 'Convert CSV values to inferred column types (integer, decimal, boolean, date, datetime)')
+  .option('--type-sample <rows>', 'CSV rows scanned to infer column types, 0 scans all rows', '1000')
+  .option('--column-type <name=type>', 'Force the type of a CSV column, repeatable', collectOption, [])
+  .option('--allow-doctype', 'XML input: accept a DOCTYPE with internal entity declarations')
+  .option('--no-secure-xml', 'XML input: skip the secure parsing profile (DOCTYPE, entity, depth, attribute and size limits)')
   .action(async (file, options) => {
     try {
       console.log(`Auto-processing file: ${file}`);
@@ -474,95 +1036,67 @@ program
       const fileType = validation.fileType;
       console.log(`Detected file type: ${fileType?.toUpperCase()}`);
       
-      // Process based on detected type
+      const format = fileType ? FileValidator.formats.get(fileType) : undefined;
+      if (!format) {
+        console.error(`Unsupported file type: ${fileType}`);
+        return;
+      }
+
       const startTime = Date.now();
-      
-      switch (fileType) {
-        case FileType.CSV: {
-          const processor = new CSVProcessor();
-          
-          // Validate
-          const csvValidation = processor.validateCSV(file);
-          if (!csvValidation.isValid) {
-            console.error('CSV validation failed:');
-            csvValidation.errors.forEach(error => console.error(`- ${error}`));
-            return;
-          }
-          
-          // Get statistics
-          const stats = await processor.getStatistics(file);
-          console.log(`\nCSV Statistics:`);
-          console.log(`- Rows: ${stats.totalRows}, Columns: ${stats.totalColumns}`);
-          
-          // Convert
-          const result = options.output ? 
-            await processor.convertToJSON(file, options.output) :
-            await processor.convertToJSON(file);
-            
-          if (options.output) {
-            console.log(`CSV converted and saved to: ${result}`);
-          }
-          break;
+
+      // CSV goes through the sniffed dialect, every other format through the processor its format creates
+      const processor: FileProcessor = fileType === FileType.CSV ? createCSVProcessor(file, options) : format.createProcessor(options);
+
+      // Validate
+      const processorValidation = await processor.validate(file);
+      if (!processorValidation.isValid) {
+        console.error(`${format.label} validation failed:`);
+        if (processor instanceof XmlProcessor) {
+          printXmlValidationErrors(processorValidation as XmlValidationResult);
+        } else {
+          processorValidation.errors.forEach(error => console.error(`- ${error}`));
+          // NDJSON lists the lines that are not JSON
+          ((processorValidation as NDJSONValidationResult).issues || []).slice(0, 10).forEach(issue => console.error(`  line ${issue.line}: ${issue.message}`));
         }
-        
-        case FileType.EXCEL: {
-          const processor = new ExcelProcessor();
-          
-          // Get statistics
-          const stats = await processor.getStatistics(file);
-          console.log(`\nExcel Statistics:`);
-          console.log(`- Sheets: ${stats.totalSheets}, Rows: ${stats.totalRows}`);
-          
-          // Process based on options
-          if (options.allSheets) {
-            const allResults = await processor.getAllSheets(file);
-            if (options.output) {
-              const jsonString = JSON.stringify(allResults, null, 2);
-              const fs = await import('fs');
-              fs.writeFileSync(options.output, jsonString, 'utf8');
-              console.log(`All Excel sheets converted and saved to: ${options.output}`);
-            }
-          } else {
-            const result = options.output ?
-              await processor.convertToJSON(file, options.output) :
-              await processor.convertToJSON(file);
-              
-            if (options.output) {
-              console.log(`Excel converted and saved to: ${result}`);
-            }
-          }
-          break;
+        return;
+      }
+
+      // Get statistics
+      const stats = await processor.statistics(file);
+      console.log(`\n${format.label} Statistics:`);
+      console.log(`- ${Object.entries(stats.summary).map(([name, value]) => `${name}: ${value}`).join(', ')}`);
+
+      if (options.inferTypes && processor instanceof CSVProcessor) {
+        printSchema(await processor.inferSchema(file));
+      }
+
+      // Convert
+      if (options.allSheets && processor instanceof ExcelProcessor) {
+        if (options.output) {
+          const allResults = await processor.getAllSheets(file);
+          const fs = await import('fs');
+          fs.writeFileSync(options.output, JSON.stringify(allResults, null, 2), 'utf8');
+          console.log(`All Excel sheets converted and saved to: ${options.output}`);
         }
-        
-        case FileType.XML: {
-          const processor = new XmlProcessor();
-          
-          // Get statistics
-          const stats = await processor.getStatistics(file);
-          console.log(`\nXML Statistics:`);
-          console.log(`- Elements: ${stats.totalElements}, Max Depth: ${stats.maxDepth}`);
-          
-          // Convert
-          const result = options.output ?
-            await processor.convertToJSON(file, options.output) :
-            await processor.convertToJSON(file);
-            
-          if (options.output) {
-            console.log(`XML converted and saved to: ${result}`);
-          }
-          break;
+      } else if (options.output) {
+        const result = await processor.convertToJSON(file, options.output);
+        console.log(`${format.label} converted and saved to: ${result}`);
+      } else {
+        const dataset = await processor.process(file);
+        if (dataset.warnings.length > 0) {
+          console.log(`\nDataset warnings:`);
+          dataset.warnings.forEach(warning => console.log(`- ${warning}`));
         }
-        
-        default:
-          console.error(`Unsupported file type: ${fileType}`);
-          return;
       }
       
       const totalTime = Date.now() - startTime;
       console.log(`\nProcessing completed in ${totalTime}ms`);
       
     } catch (error) {
-      console.error('Error:', error instanceof Error ? error.message : 'Unknown error');
+      printError(error);
+      if (error instanceof XmlSecurityError) {
+        process.exitCode = 1;
+      }
     }
   });
 
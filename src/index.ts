@@ -0,0 +1,78 @@
+// library entry - the processors, detection, record extraction and writers the CLI is built on; nothing here reads
+// the command line, the CLI binary is cli/index.ts
+import { CSVProcessorOptions } from './processors/csvProcessor';
+import { Dataset, FileProcessor } from './processors/fileProcessor';
+import CSVDialectSniffer from './utils/csvDialectSniffer';
+import { UnsupportedFormatError } from './utils/errors';
+import FileValidator from './utils/fileValidator';
+import { FileType, FormatProcessorOptions } from './utils/formatRegistry';
+
+export * from './processors/fileProcessor';
+export * from './processors/csvProcessor';
+export * from './processors/excelProcessor';
+export * from './processors/jsonProcessor';
+export * from './processors/ndjsonProcessor';
+export * from './processors/xmlProcessor';
+
+export * from './utils/columnTypes';
+export * from './utils/csvDialectSniffer';
+export * from './utils/csvScanner';
+export * from './utils/encodingDetector';
+export * from './utils/errors';
+export * from './utils/fileValidator';
+export * from './utils/formatRegistry';
+export * from './utils/jsonSchemaGenerator';
+export * from './utils/magicByteDetector';
+export * from './utils/recordExtractor';
+export * from './utils/schemaValidator';
+export * from './utils/xmlFlattener';
+export * from './utils/xmlSecurity';
+export * from './utils/xsdValidator';
+
+export * from './writers/writerRegistry';
+export * from './writers/csvWriter';
+export * from './writers/htmlWriter';
+export * from './writers/jsonWriter';
+export * from './writers/markdownWriter';
+export * from './writers/ndjsonWriter';
+export * from './writers/xlsxWriter';
+export * from './writers/xmlWriter';
+export * from './writers/yamlWriter';
+
+// format skips detection (a registered format name, e.g. 'xml'); encoding, sheet, record and the XML security
+// settings are read by the formats that use them, like the options of the process command; csv overrides the dialect
+// sniffed from the file; plugin formats registered with FileValidator.formats read their own options
+export interface ProcessFileOptions extends FormatProcessorOptions {
+  format?: string;
+  encoding?: string;
+  sheet?: string;
+  record?: string;
+  secureXml?: boolean;
+  allowDoctype?: boolean;
+  csv?: CSVProcessorOptions;
+}
+
+// the processor for a file - its format is detected unless options.format names one
+export const createProcessor = (filePath: string, options: ProcessFileOptions = {}): FileProcessor => {
+  const formatName = options.format || FileValidator.requireFileType(filePath);
+  const format = FileValidator.formats.get(formatName);
+  if (!format) {
+    throw new UnsupportedFormatError(`Unsupported file type: ${formatName}. Supported types: ${FileValidator.formats.getNames().join(', ')}`, {
+      filePath,
+      format: formatName
+    });
+  }
+
+  if (format.name === FileType.CSV) {
+    return CSVDialectSniffer.createProcessor(filePath, {
+      ...(options.encoding ? { encoding: options.encoding } : {}),
+      ...options.csv
+    });
+  }
+  return format.createProcessor(options);
+};
+
+// read any supported file into a dataset - the format is detected from the file, CSV through its sniffed dialect
+export const processFile = async (filePath: string, options: ProcessFileOptions = {}): Promise<Dataset> => {
+  return createProcessor(filePath, options).process(filePath);
+};
@@ -1,13 +1,26 @@
 import csv from 'csv-parser';
 import * as fs from 'fs';
-import { Readable } from 'stream';
+import { Readable, Transform, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import ColumnTypeInferrer, { ColumnSchema, ColumnType } from '../utils/columnTypes';
+import CSVScanner, { CSVScanIssue } from '../utils/csvScanner';
+import EncodingDetector from '../utils/encodingDetector';
+import { EmptyFileError, FileNotFoundError, ParseError } from '../utils/errors';
+import { Dataset, DatasetBuilder, DatasetSource, DatasetStatistics, FileProcessor } from './fileProcessor';
 
-// options for CSV processing setting
+// options for CSV processing setting - encoding takes any iconv-lite label or 'auto', a BOM always wins;
+// inferTypes converts values to the inferred column types, typeSampleSize 0 scans the whole file
 export interface CSVProcessorOptions {
   delimiter?: string;
+  quote?: string;
+  escape?: string;
+  newline?: string;
   headers?: boolean;
   skipEmptyLines?: boolean;
-  encoding?: BufferEncoding;
+  encoding?: string;
+  inferTypes?: boolean;
+  typeSampleSize?: number;
+  columnTypes?: Record<string, ColumnType>;
 }
 
 // result object returned after CSV processing
@@ -17,16 +30,33 @@ export interface CSVProcessorResult {
   headers: string[];
   processingTime: number;
   fileName?: string | undefined;
+  schema?: ColumnSchema[];
 }
 
-// validation result for CSV file checking
+// single row yielded by the streaming iterator - lineNumber is the physical line the row starts on
+export interface CSVRow {
+  data: Record<string, any>;
+  lineNumber: number;
+  headers: string[];
+}
+
+// problem found while validating a CSV file - line and column (field index) are 1-based
+export type CSVValidationIssue = CSVScanIssue;
+
+// validation result for CSV file checking - errors/warnings hold readable messages, issues the line-level detail
 export interface CSVValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  issues: CSVValidationIssue[];
 }
 
-export class CSVProcessor {
+export class CSVProcessor implements FileProcessor {
+  private static readonly MAX_REPORTED_ISSUES = 100;
+  private static readonly DEFAULT_TYPE_SAMPLE_SIZE = 1000;
+
+  public readonly fileType = 'csv';
+
   private options: CSVProcessorOptions;
 
   // constructor - setup CSV processor with option
@@ -43,47 +73,46 @@ export class CSVProcessor {
   // process a CSV file from disk - reads file, parses headers, converts to objects, measures time, handles large file
   public async processFile(filePath: string): Promise<CSVProcessorResult> {
     const startTime = Date.now();
-    
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
+    const results: Record<string, any>[] = [];
+    let headers: string[] = [];
+    const schema = await this.resolveSchema(filePath);
+
+    for await (const row of this.readRows(filePath, schema)) {
+      headers = row.headers;
+      results.push(row.data);
     }
 
-    const stats = fs.statSync(filePath);
-    if (stats.size === 0) {
-      throw new Error(`File is empty: ${filePath}`);
-    }
-
-    return new Promise((resolve, reject) => {
-      const results: Record<string, any>[] = [];
-      let headers: string[] = [];
-      let isFirstRow = true;
-
-      fs.createReadStream(filePath, { encoding: this.options.encoding })
-        .pipe(csv({
-          separator: this.options.delimiter || ','
-        }))
-        .on('data', (data: Record<string, any>) => {
-          if (isFirstRow && this.options.headers !== false) {
-            headers = Object.keys(data);
-            isFirstRow = false;
-          }
-          results.push(data);
-        })
-        .on('end', () => {
-          const processingTime = Date.now() - startTime;
-          const fileName = filePath.split('/').pop() || filePath.split('\\').pop();
-          resolve({
-            data: results,
-            rowCount: results.length,
-            headers,
-            processingTime,
-            fileName
-          });
-        })
-        .on('error', (error) => {
-          reject(new Error(`CSV processing error: ${error.message}`));
-        });
-    });
+    return {
+      data: results,
+      rowCount: results.length,
+      headers,
+      processingTime: Date.now() - startTime,
+      fileName: this.getFileName(filePath),
+      ...(schema ? { schema } : {})
+    };
+  }
+
+  // stream rows from a CSV file one at a time - reading pauses while the consumer is busy, so memory stays flat for huge files
+  public async *rows(filePath: string): AsyncGenerator<CSVRow> {
+    yield* this.readRows(filePath, await this.resolveSchema(filePath));
+  }
+
+  // infer column types from the first typeSampleSize rows (all rows when 0) - columnTypes overrides win
+  public async inferSchema(filePath: string): Promise<ColumnSchema[]> {
+    const inferrer = new ColumnTypeInferrer();
+    const sampleSize = this.options.typeSampleSize ?? CSVProcessor.DEFAULT_TYPE_SAMPLE_SIZE;
+    let headers: string[] = [];
+    let count = 0;
+
+    for await (const row of this.readRows(filePath, null)) {
+      headers = row.headers;
+      inferrer.observe(row.data);
+      if (sampleSize > 0 && ++count >= sampleSize) {
+        break;
+      }
+    }
+
+    return inferrer.getSchema(this.options.columnTypes, headers);
   }
 
   // process CSV data from a string - useful for API responses, memory efficient for large string
@@ -94,47 +123,32 @@ export class CSVProcessor {
       throw new Error('CSV string is empty');
     }
 
-    return new Promise((resolve, reject) => {
-      const results: Record<string, any>[] = [];
-      let headers: string[] = [];
-      let isFirstRow = true;
-
-      const readable = new Readable();
-      readable.push(csvString);
-      readable.push(null);
-
-      readable
-        .pipe(csv({
-          separator: this.options.delimiter || ','
-        }))
-        .on('data', (data: Record<string, any>) => {
-          if (isFirstRow && this.options.headers !== false) {
-            headers = Object.keys(data);
-            isFirstRow = false;
-          }
-          results.push(data);
-        })
-        .on('end', () => {
-          const processingTime = Date.now() - startTime;
-          resolve({
-            data: results,
-            rowCount: results.length,
-            headers,
-            processingTime
-          });
-        })
-        .on('error', (error) => {
-          reject(new Error(`CSV processing error: ${error.message}`));
-        });
-    });
+    const results: Record<string, any>[] = [];
+    let headers: string[] = [];
+
+    for await (const row of this.parseRows(Readable.from([csvString]))) {
+      headers = row.headers;
+      results.push(row.data);
+    }
+
+    const schema = this.buildSchema(results, headers);
+
+    return {
+      data: schema ? results.map(data => ColumnTypeInferrer.convertRecord(data, schema)) : results,
+      rowCount: results.length,
+      headers,
+      processingTime: Date.now() - startTime,
+      ...(schema ? { schema } : {})
+    };
   }
 
-  // validate CSV file before processing - checks file exists, size, extension, column counts, provides errors/warning
+  // validate CSV file before processing - checks file exists, size, extension, then scans records with RFC 4180 quoting rules
   public validateCSV(filePath: string): CSVValidationResult {
     const result: CSVValidationResult = {
       isValid: true,
       errors: [],
-      warnings: []
+      warnings: [],
+      issues: []
     };
 
     try {
@@ -160,27 +174,66 @@ export class CSVProcessor {
         result.warnings.push(`File extension is '${fileExtension}', expected 'csv'`);
       }
 
-      const content = fs.readFileSync(filePath, { encoding: this.options.encoding, flag: 'r' }) as string;
-      const lines = content.split('\n').filter((line: string) => line.trim());
-      
-      if (lines.length === 0) {
+      const encoding = EncodingDetector.resolveFileEncoding(filePath, this.options.encoding || 'utf8');
+      const content = EncodingDetector.decode(fs.readFileSync(filePath), encoding);
+      const scanner = new CSVScanner({
+        delimiter: this.options.delimiter || ',',
+        quote: this.options.quote || '"',
+        escape: this.options.escape || this.options.quote || '"'
+      });
+      let expectedColumns: number | null = null;
+      let recordCount = 0;
+      let unreportedIssues = 0;
+
+      const report = (issue: CSVValidationIssue) => {
+        if (issue.severity === 'error') {
+          result.isValid = false;
+        }
+        if (result.issues.length >= CSVProcessor.MAX_REPORTED_ISSUES) {
+          unreportedIssues++;
+          return;
+        }
+        result.issues.push(issue);
+        const message = `Line ${issue.line}, column ${issue.column}: ${issue.message}`;
+        if (issue.severity === 'error') {
+          result.errors.push(message);
+        } else {
+          result.warnings.push(message);
+        }
+      };
+
+      for (const record of scanner.records(content)) {
+        recordCount++;
+        record.issues.forEach(report);
+
+        if (expectedColumns === null) {
+          expectedColumns = record.fields.length;
+          continue;
+        }
+
+        if (record.fields.length !== expectedColumns) {
+          report({
+            line: record.line,
+            column: Math.min(record.fields.length, expectedColumns) + 1,
+            raw: record.raw,
+            severity: 'warning',
+            message: `Inconsistent column count: expected ${expectedColumns}, found ${record.fields.length}`
+          });
+        }
+      }
+
+      if (recordCount === 0) {
         result.errors.push('No content lines found');
         result.isValid = false;
         return result;
       }
 
-      if (lines.length === 1 && this.options.headers) {
+      if (recordCount === 1 && this.options.headers) {
         result.warnings.push('Only header row found, no data rows');
       }
 
-      const firstLineColumns = lines[0].split(this.options.delimiter || ',').length;
-      const inconsistentRows = lines.slice(1).filter((line: string) => {
-        const columns = line.split(this.options.delimiter || ',').length;
-        return columns !== firstLineColumns;
-      });
-
-      if (inconsistentRows.length > 0) {
-        result.warnings.push(`${inconsistentRows.length} rows have inconsistent column counts`);
+      if (unreportedIssues > 0) {
+        result.warnings.push(`${unreportedIssues} more issues not listed`);
       }
 
     } catch (error) {
@@ -191,27 +244,43 @@ export class CSVProcessor {
     return result;
   }
 
-  // convert CSV file to JSON format - convert data to JSON string, optionally saves to file, print output
+  // convert CSV file to JSON format - streams rows into the output file, or builds the JSON string when no output path given
   public async convertToJSON(filePath: string, outputPath?: string): Promise<string> {
-    const result = await this.processFile(filePath);
-    const jsonString = JSON.stringify(result.data, null, 2);
-    
     if (outputPath) {
-      fs.writeFileSync(outputPath, jsonString, { encoding: 'utf8' });
+      await this.writeJSONArray(this.rows(filePath), outputPath);
       return outputPath;
     }
-    
-    return jsonString;
+
+    const items: string[] = [];
+    for await (const row of this.rows(filePath)) {
+      items.push(this.formatArrayItem(row.data));
+    }
+
+    return items.length > 0 ? `[\n${items.join(',\n')}\n]` : '[]';
   }
 
-  // get preview of CSV file (first N rows) - shows first N rows without processing entire file, memory efficient for large files
+  // get preview of CSV file (first N rows) - stops reading as soon as N rows are collected
   public async getPreview(filePath: string, rows: number = 5): Promise<CSVProcessorResult> {
-    const fullResult = await this.processFile(filePath);
-    
+    const startTime = Date.now();
+    const data: Record<string, any>[] = [];
+    let headers: string[] = [];
+
+    if (rows > 0) {
+      for await (const row of this.rows(filePath)) {
+        headers = row.headers;
+        data.push(row.data);
+        if (data.length >= rows) {
+          break;
+        }
+      }
+    }
+
     return {
-      ...fullResult,
-      data: fullResult.data.slice(0, rows),
-      rowCount: Math.min(rows, fullResult.rowCount)
+      data,
+      rowCount: data.length,
+      headers,
+      processingTime: Date.now() - startTime,
+      fileName: this.getFileName(filePath)
     };
   }
 
@@ -223,15 +292,22 @@ export class CSVProcessor {
     fileSize: number;
     encoding: string;
   }> {
-    const result = await this.processFile(filePath);
+    let totalRows = 0;
+    let headers: string[] = [];
+
+    for await (const row of this.readRows(filePath, null)) {
+      headers = row.headers;
+      totalRows++;
+    }
+
     const stats = fs.statSync(filePath);
     
     return {
-      totalRows: result.rowCount,
-      totalColumns: result.headers.length,
-      headers: result.headers,
+      totalRows,
+      totalColumns: headers.length,
+      headers,
       fileSize: stats.size,
-      encoding: this.options.encoding || 'utf8'
+      encoding: EncodingDetector.resolveFileEncoding(filePath, this.options.encoding || 'utf8')
     };
   }
 
@@ -244,5 +320,181 @@ export class CSVProcessor {
   public getOptions(): CSVProcessorOptions {
     return { ...this.options };
   }
+
+  // read the file as a dataset - columns follow the header, typed by the inferred schema when inferTypes is set
+  public async process(filePath: string): Promise<Dataset> {
+    const startTime = Date.now();
+    const result = await this.processFile(filePath);
+
+    return DatasetBuilder.build(result.data, this.describeSource(filePath), startTime, {
+      columnOrder: result.headers,
+      ...(result.schema && this.options.inferTypes ? { columns: result.schema } : {})
+    });
+  }
+
+  public async validate(filePath: string): Promise<CSVValidationResult> {
+    return this.validateCSV(filePath);
+  }
+
+  public async preview(filePath: string, records: number = 5): Promise<Dataset> {
+    const startTime = Date.now();
+    const result = await this.getPreview(filePath, records);
+    return DatasetBuilder.build(result.data, this.describeSource(filePath), startTime, { columnOrder: result.headers });
+  }
+
+  public async statistics(filePath: string): Promise<DatasetStatistics> {
+    const stats = await this.getStatistics(filePath);
+    return {
+      totalRecords: stats.totalRows,
+      totalColumns: stats.totalColumns,
+      fileSize: stats.fileSize,
+      summary: { Rows: stats.totalRows, Columns: stats.totalColumns },
+      details: stats
+    };
+  }
+
+  public async *stream(filePath: string): AsyncGenerator<Record<string, any>> {
+    for await (const row of this.rows(filePath)) {
+      yield row.data;
+    }
+  }
+
+  // read rows from disk, converting values when a schema is given
+  private async *readRows(filePath: string, schema: ColumnSchema[] | null): AsyncGenerator<CSVRow> {
+    this.assertFileReadable(filePath);
+    const encoding = EncodingDetector.resolveFileEncoding(filePath, this.options.encoding || 'utf8');
+
+    for await (const row of this.parseRows(fs.createReadStream(filePath), EncodingDetector.createDecodeStream(encoding), filePath)) {
+      yield schema ? { ...row, data: ColumnTypeInferrer.convertRecord(row.data, schema) } : row;
+    }
+  }
+
+  // schema used to convert values - inferred when inferTypes is set, otherwise only the columnTypes overrides apply
+  private async resolveSchema(filePath: string): Promise<ColumnSchema[] | null> {
+    if (this.options.inferTypes) {
+      return this.inferSchema(filePath);
+    }
+    return this.getOverrideSchema();
+  }
+
+  // same as resolveSchema for rows already held in memory
+  private buildSchema(rows: Record<string, any>[], headers: string[]): ColumnSchema[] | null {
+    if (!this.options.inferTypes) {
+      return this.getOverrideSchema();
+    }
+
+    const inferrer = new ColumnTypeInferrer();
+    const sampleSize = this.options.typeSampleSize ?? CSVProcessor.DEFAULT_TYPE_SAMPLE_SIZE;
+    (sampleSize > 0 ? rows.slice(0, sampleSize) : rows).forEach(row => inferrer.observe(row));
+    return inferrer.getSchema(this.options.columnTypes, headers);
+  }
+
+  private getOverrideSchema(): ColumnSchema[] | null {
+    const overrides = Object.entries(this.options.columnTypes || {});
+    if (overrides.length === 0) {
+      return null;
+    }
+    return overrides.map(([name, type]) => ({ name, type, nullable: true }));
+  }
+
+  // parse a readable source into rows - tracks the physical line each row starts on, including quoted fields spanning
+  // lines, which a parse error reports as its location
+  private async *parseRows(source: Readable, decoder?: Transform, filePath?: string): AsyncGenerator<CSVRow> {
+    let headers: string[] = [];
+    let nextLine = 1;
+
+    const parser = csv(this.getParserOptions());
+
+    parser.on('headers', (parsedHeaders: string[]) => {
+      if (this.options.headers !== false) {
+        headers = parsedHeaders;
+      }
+      nextLine += 1 + countLineBreaks(parsedHeaders);
+    });
+
+    // errors from any stream destroy the parser and surface through the iterator below
+    pipeline(decoder ? [source, decoder, parser] : [source, parser], () => undefined);
+
+    try {
+      for await (const data of parser) {
+        const lineNumber = nextLine;
+        nextLine += 1 + countLineBreaks(Object.values(data));
+        yield { data, lineNumber, headers };
+      }
+    } catch (error) {
+      throw new ParseError('csv', `CSV processing error: ${error instanceof Error ? error.message : 'Unknown error'}`, { line: nextLine }, {
+        ...(filePath !== undefined ? { filePath } : {}),
+        cause: error
+      });
+    } finally {
+      parser.destroy();
+    }
+  }
+
+  // map processor options onto csv-parser options - quote, escape and newline keep csv-parser defaults unless set
+  private getParserOptions(): csv.Options {
+    return {
+      separator: this.options.delimiter || ',',
+      ...(this.options.quote ? { quote: this.options.quote } : {}),
+      ...(this.options.escape ? { escape: this.options.escape } : {}),
+      ...(this.options.newline ? { newline: this.options.newline } : {}),
+      ...(this.options.headers === false ? { headers: false } : {})
+    };
+  }
+
+  // write rows as a pretty-printed JSON array - the pipeline waits for the file stream to drain so large inputs never
+  // pile up in memory, and an output error (a missing directory) stops reading the rows
+  private async writeJSONArray(rows: AsyncIterable<CSVRow>, outputPath: string): Promise<void> {
+    await pipelineAsync(Readable.from(this.jsonArrayChunks(rows)), fs.createWriteStream(outputPath, { encoding: 'utf8' }));
+  }
+
+  private async *jsonArrayChunks(rows: AsyncIterable<CSVRow>): AsyncGenerator<string> {
+    let count = 0;
+    for await (const row of rows) {
+      yield `${count === 0 ? '[\n' : ',\n'}${this.formatArrayItem(row.data)}`;
+      count++;
+    }
+    yield count > 0 ? '\n]' : '[]';
+  }
+
+  // format a single row the way JSON.stringify(array, null, 2) lays out array items
+  private formatArrayItem(data: Record<string, any>): string {
+    return JSON.stringify(data, null, 2).replace(/^/gm, '  ');
+  }
+
+  private assertFileReadable(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      throw new FileNotFoundError(filePath);
+    }
+
+    const stats = fs.statSync(filePath);
+    if (stats.size === 0) {
+      throw new EmptyFileError(filePath);
+    }
+  }
+
+  private getFileName(filePath: string): string | undefined {
+    return filePath.split('/').pop() || filePath.split('\\').pop();
+  }
+
+  private describeSource(filePath: string): DatasetSource {
+    return DatasetBuilder.describeSource(filePath, this.fileType, {
+      encoding: EncodingDetector.resolveFileEncoding(filePath, this.options.encoding || 'utf8')
+    });
+  }
+}
+
+// count line breaks inside parsed values - quoted fields may span several physical lines
+function countLineBreaks(values: any[]): number {
+  let count = 0;
+  for (const value of values) {
+    if (typeof value === 'string') {
+      for (let i = value.indexOf('\n'); i !== -1; i = value.indexOf('\n', i + 1)) {
+        count++;
+      }
+    }
+  }
+  return count;
 }
+
 export default CSVProcessor;
\ No newline at end of file
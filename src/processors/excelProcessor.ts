@@ -1,5 +1,7 @@
 import * as fs from 'fs';
 import * as XLSX from 'xlsx';
+import { EmptyFileError, FileNotFoundError, FileProcessorError, ParseError, SheetNotFoundError } from '../utils/errors';
+import { Dataset, DatasetBuilder, DatasetStatistics, FileProcessor } from './fileProcessor';
 
 export interface ExcelProcessorOptions {
   encoding?: BufferEncoding;
@@ -42,7 +44,9 @@ export interface ExcelStatistics {
   sheets: ExcelSheetInfo[];
 }
 
-export class ExcelProcessor {
+export class ExcelProcessor implements FileProcessor {
+  public readonly fileType = 'excel';
+
   private options: ExcelProcessorOptions;
 
   constructor(options: ExcelProcessorOptions = {}) {
@@ -55,64 +59,7 @@ export class ExcelProcessor {
   }
 
   public async processFile(filePath: string): Promise<ExcelProcessorResult> {
-    const startTime = Date.now();
-    
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
-    }
-
-    const stats = fs.statSync(filePath);
-    if (stats.size === 0) {
-      throw new Error(`File is empty: ${filePath}`);
-    }
-
-    try {
-      const workbook = XLSX.readFile(filePath);
-      const allSheets = this.getAllSheetsInfo(workbook);
-      
-      let targetSheet: string;
-      if (this.options.sheetName) {
-        targetSheet = this.options.sheetName;
-        if (!workbook.SheetNames.includes(targetSheet)) {
-          throw new Error(`Sheet "${targetSheet}" not found`);
-        }
-      } else {
-        const sheetIndex = this.options.sheetIndex || 0;
-        targetSheet = workbook.SheetNames[sheetIndex];
-        if (!targetSheet) {
-          throw new Error(`Sheet index ${sheetIndex} not found`);
-        }
-      }
-
-      const worksheet = workbook.Sheets[targetSheet];
-      const sheetOptions: any = {
-        defval: null
-      };
-      
-      if (this.options.header !== undefined) {
-        sheetOptions.header = this.options.header;
-      }
-      
-      if (this.options.range) {
-        sheetOptions.range = this.options.range;
-      }
-
-      const data = XLSX.utils.sheet_to_json(worksheet, sheetOptions) as Record<string, any>[];
-
-      const sheetInfo = this.getSheetInfo(worksheet, targetSheet);
-      const processingTime = Date.now() - startTime;
-      const fileName = filePath.split('/').pop() || filePath.split('\\').pop() || '';
-
-      return {
-        data,
-        sheetInfo,
-        allSheets,
-        processingTime,
-        fileName
-      };
-    } catch (error) {
-      throw new Error(`Excel processing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return this.processWorkbook(filePath);
   }
 
   public async processSheet(filePath: string, sheetName: string): Promise<ExcelProcessorResult> {
@@ -133,7 +80,7 @@ export class ExcelProcessor {
 
   public async getAllSheets(filePath: string): Promise<Record<string, ExcelProcessorResult>> {
     if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
+      throw new FileNotFoundError(filePath);
     }
 
     const workbook = XLSX.readFile(filePath);
@@ -228,7 +175,7 @@ export class ExcelProcessor {
 
   public async getStatistics(filePath: string): Promise<ExcelStatistics> {
     if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
+      throw new FileNotFoundError(filePath);
     }
 
     const stats = fs.statSync(filePath);
@@ -257,11 +204,13 @@ export class ExcelProcessor {
     }
     
     try {
-      const fullResult = await this.processFile(filePath);
+      // parse only the header row plus N data rows unless a custom range makes the row count unknowable
+      const readOptions: XLSX.ParsingOptions = this.options.range ? {} : { sheetRows: rows + 1 };
+      const previewResult = await this.processWorkbook(filePath, readOptions);
       
       return {
-        ...fullResult,
-        data: fullResult.data.slice(0, rows)
+        ...previewResult,
+        data: previewResult.data.slice(0, rows)
       };
     } finally {
       // restore original options
@@ -279,6 +228,71 @@ export class ExcelProcessor {
     }
   }
 
+  // read the workbook and extract the target sheet - readOptions lets previews stop parsing after the first rows
+  private async processWorkbook(filePath: string, readOptions: XLSX.ParsingOptions = {}): Promise<ExcelProcessorResult> {
+    const startTime = Date.now();
+    
+    if (!fs.existsSync(filePath)) {
+      throw new FileNotFoundError(filePath);
+    }
+
+    const stats = fs.statSync(filePath);
+    if (stats.size === 0) {
+      throw new EmptyFileError(filePath);
+    }
+
+    try {
+      const workbook = XLSX.readFile(filePath, readOptions);
+      const allSheets = this.getAllSheetsInfo(workbook);
+      
+      let targetSheet: string;
+      if (this.options.sheetName) {
+        targetSheet = this.options.sheetName;
+        if (!workbook.SheetNames.includes(targetSheet)) {
+          throw new SheetNotFoundError(targetSheet, workbook.SheetNames, { filePath });
+        }
+      } else {
+        const sheetIndex = this.options.sheetIndex || 0;
+        targetSheet = workbook.SheetNames[sheetIndex];
+        if (!targetSheet) {
+          throw new SheetNotFoundError(sheetIndex, workbook.SheetNames, { filePath });
+        }
+      }
+
+      const worksheet = workbook.Sheets[targetSheet];
+      const sheetOptions: any = {
+        defval: null
+      };
+      
+      if (this.options.header !== undefined) {
+        sheetOptions.header = this.options.header;
+      }
+      
+      if (this.options.range) {
+        sheetOptions.range = this.options.range;
+      }
+
+      const data = XLSX.utils.sheet_to_json(worksheet, sheetOptions) as Record<string, any>[];
+
+      const sheetInfo = this.getSheetInfo(worksheet, targetSheet);
+      const processingTime = Date.now() - startTime;
+      const fileName = filePath.split('/').pop() || filePath.split('\\').pop() || '';
+
+      return {
+        data,
+        sheetInfo,
+        allSheets,
+        processingTime,
+        fileName
+      };
+    } catch (error) {
+      if (error instanceof FileProcessorError) {
+        throw error;
+      }
+      throw new ParseError('excel', `Excel processing error: ${error instanceof Error ? error.message : 'Unknown error'}`, {}, { filePath, cause: error });
+    }
+  }
+
   private getAllSheetsInfo(workbook: XLSX.WorkBook): ExcelSheetInfo[] {
     return workbook.SheetNames.map(sheetName => {
       const worksheet = workbook.Sheets[sheetName];
@@ -287,7 +301,9 @@ export class ExcelProcessor {
   }
 
   private getSheetInfo(worksheet: XLSX.WorkSheet, sheetName: string): ExcelSheetInfo {
-    const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1:A1');
+    // sheets read with sheetRows keep their real dimensions in !fullref
+    const ref = worksheet['!fullref'] || worksheet['!ref'] || 'A1:A1';
+    const range = XLSX.utils.decode_range(ref);
     const rowCount = range.e.r + 1;
     const columnCount = range.e.c + 1;
 
@@ -295,7 +311,7 @@ export class ExcelProcessor {
       name: sheetName,
       rowCount,
       columnCount,
-      range: worksheet['!ref'] || 'A1:A1'
+      range: ref
     };
   }
 
@@ -307,9 +323,48 @@ export class ExcelProcessor {
     return { ...this.options };
   }
 
+  // read the target sheet as a dataset - the first sheet unless sheetName or sheetIndex say otherwise
+  public async process(filePath: string): Promise<Dataset> {
+    const startTime = Date.now();
+    const result = await this.processFile(filePath);
+    return DatasetBuilder.build(result.data, DatasetBuilder.describeSource(filePath, this.fileType, { sheet: result.sheetInfo.name }), startTime);
+  }
+
+  public async validate(filePath: string): Promise<ExcelValidationResult> {
+    return this.validateExcel(filePath);
+  }
+
+  public async preview(filePath: string, records: number = 5): Promise<Dataset> {
+    const startTime = Date.now();
+    const result = await this.getPreview(filePath, records);
+    return DatasetBuilder.build(result.data, DatasetBuilder.describeSource(filePath, this.fileType, { sheet: result.sheetInfo.name }), startTime);
+  }
+
+  // records and columns of the target sheet - its first row is the header unless a header option is set
+  public async statistics(filePath: string): Promise<DatasetStatistics> {
+    const stats = await this.getStatistics(filePath);
+    const sheet = this.options.sheetName ?
+      stats.sheets.find(info => info.name === this.options.sheetName) :
+      stats.sheets[this.options.sheetIndex || 0];
+    const headerRows = this.options.header === undefined ? 1 : 0;
+
+    return {
+      totalRecords: sheet ? Math.max(sheet.rowCount - headerRows, 0) : 0,
+      totalColumns: sheet ? sheet.columnCount : 0,
+      fileSize: stats.fileSize,
+      summary: { Sheets: stats.totalSheets, Rows: stats.totalRows },
+      details: stats
+    };
+  }
+
+  // a workbook is read whole, the rows are handed out one at a time
+  public async *stream(filePath: string): AsyncGenerator<Record<string, any>> {
+    yield* (await this.processFile(filePath)).data;
+  }
+
   public getSheetNames(filePath: string): string[] {
     if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
+      throw new FileNotFoundError(filePath);
     }
 
     const workbook = XLSX.readFile(filePath);
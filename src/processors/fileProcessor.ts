@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ColumnTypeInferrer, { ColumnSchema } from '../utils/columnTypes';
+
+// where a dataset was read from - fileType is a FileType or the name of a plugin format; encoding is given for text
+// formats, sheet for Excel and recordPath for XML read by record element
+export interface DatasetSource {
+  path: string;
+  fileName: string;
+  fileType: string;
+  size: number;
+  encoding?: string;
+  sheet?: string;
+  recordPath?: string;
+}
+
+// startedAt is an ISO timestamp, processingTime in milliseconds
+export interface DatasetTimings {
+  startedAt: string;
+  processingTime: number;
+}
+
+// the records of any file in one shape - columns are every field in first-seen order, typed from their values (or
+// from the schema a processor converted them with); warnings are about the data, not the file
+export interface Dataset {
+  records: Record<string, any>[];
+  columns: ColumnSchema[];
+  source: DatasetSource;
+  timings: DatasetTimings;
+  warnings: string[];
+}
+
+// processors return their own validation results, which carry more (issues with positions, file info)
+export interface DatasetValidation {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+// totalRecords and totalColumns count what process() would read; summary holds the counts that matter for the format
+// by label ("Rows", "Sheets", "Max Depth") in the order to print them, details the processor's own statistics
+export interface DatasetStatistics {
+  totalRecords: number;
+  totalColumns: number;
+  fileSize: number;
+  summary: Record<string, number>;
+  details: object;
+}
+
+// what every processor offers, whatever it reads - stream yields the records process() returns one at a time (formats
+// that cannot be streamed are read whole first), preview reads the first records only
+export interface FileProcessor {
+  readonly fileType: string;
+  process(filePath: string): Promise<Dataset>;
+  validate(filePath: string): Promise<DatasetValidation>;
+  preview(filePath: string, records?: number): Promise<Dataset>;
+  statistics(filePath: string): Promise<DatasetStatistics>;
+  stream(filePath: string): AsyncGenerator<Record<string, any>>;
+  convertToJSON(filePath: string, outputPath?: string): Promise<string>;
+}
+
+export class DatasetBuilder {
+  // the file a dataset comes from - extras add what the processor knows (encoding, sheet, record path)
+  public static describeSource(filePath: string, fileType: string, extras: Partial<DatasetSource> = {}): DatasetSource {
+    return {
+      path: filePath,
+      fileName: path.basename(filePath),
+      fileType,
+      size: fs.existsSync(filePath) ? fs.statSync(filePath).size : 0,
+      ...extras
+    };
+  }
+
+  // columns are inferred from the records unless given - columnOrder puts known names (a header) first
+  public static build(
+    records: Record<string, any>[],
+    source: DatasetSource,
+    startTime: number,
+    options: { columns?: ColumnSchema[]; columnOrder?: string[]; warnings?: string[] } = {}
+  ): Dataset {
+    const warnings = [...(options.warnings || [])];
+    if (records.length === 0) {
+      warnings.push('No records found');
+    }
+
+    return {
+      records,
+      columns: options.columns || this.inferColumns(records, options.columnOrder),
+      source,
+      timings: { startedAt: new Date(startTime).toISOString(), processingTime: Date.now() - startTime },
+      warnings
+    };
+  }
+
+  // a column missing from some of the records is nullable
+  public static inferColumns(records: Record<string, any>[], columnOrder: string[] = []): ColumnSchema[] {
+    const inferrer = new ColumnTypeInferrer();
+    const counts = new Map<string, number>();
+    records.forEach(record => {
+      inferrer.observe(record);
+      Object.keys(record).forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+    });
+    return inferrer.getSchema({}, columnOrder).map(column =>
+      (counts.get(column.name) || 0) < records.length ? { ...column, nullable: true } : column);
+  }
+}
+
+// a processor built on stream() alone - formats read whole (JSON) and plugin formats extend it and get the rest
+export abstract class BaseFileProcessor implements FileProcessor {
+  public abstract readonly fileType: string;
+
+  public abstract stream(filePath: string): AsyncGenerator<Record<string, any>>;
+
+  public async process(filePath: string): Promise<Dataset> {
+    const startTime = Date.now();
+    const records: Record<string, any>[] = [];
+    for await (const record of this.stream(filePath)) {
+      records.push(record);
+    }
+    return DatasetBuilder.build(records, this.describeSource(filePath), startTime);
+  }
+
+  // stops reading as soon as the records are collected
+  public async preview(filePath: string, records: number = 5): Promise<Dataset> {
+    const startTime = Date.now();
+    const data: Record<string, any>[] = [];
+    if (records > 0) {
+      for await (const record of this.stream(filePath)) {
+        data.push(record);
+        if (data.length >= records) {
+          break;
+        }
+      }
+    }
+    return DatasetBuilder.build(data, this.describeSource(filePath), startTime);
+  }
+
+  // the file is read through once, counting records - the first error it fails with is reported
+  public async validate(filePath: string): Promise<DatasetValidation> {
+    const result: DatasetValidation = { isValid: true, errors: [], warnings: [] };
+
+    if (!fs.existsSync(filePath)) {
+      result.errors.push(`File not found: ${filePath}`);
+      result.isValid = false;
+      return result;
+    }
+    if (fs.statSync(filePath).size === 0) {
+      result.errors.push('File is empty');
+      result.isValid = false;
+      return result;
+    }
+
+    try {
+      if ((await this.statistics(filePath)).totalRecords === 0) {
+        result.warnings.push('File contains no records');
+      }
+    } catch (error) {
+      result.errors.push(`Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      result.isValid = false;
+    }
+
+    return result;
+  }
+
+  public async statistics(filePath: string): Promise<DatasetStatistics> {
+    const keys = new Set<string>();
+    let totalRecords = 0;
+    for await (const record of this.stream(filePath)) {
+      Object.keys(record).forEach(key => keys.add(key));
+      totalRecords++;
+    }
+
+    return {
+      totalRecords,
+      totalColumns: keys.size,
+      fileSize: fs.statSync(filePath).size,
+      summary: { Records: totalRecords, Columns: keys.size },
+      details: { keys: Array.from(keys) }
+    };
+  }
+
+  // a JSON array of the records
+  public async convertToJSON(filePath: string, outputPath?: string): Promise<string> {
+    const jsonString = JSON.stringify((await this.process(filePath)).records, null, 2);
+
+    if (outputPath) {
+      fs.writeFileSync(outputPath, jsonString, { encoding: 'utf8' });
+      return outputPath;
+    }
+
+    return jsonString;
+  }
+
+  protected describeSource(filePath: string): DatasetSource {
+    return DatasetBuilder.describeSource(filePath, this.fileType);
+  }
+}
+
+export default BaseFileProcessor;
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import EncodingDetector from '../utils/encodingDetector';
+import { FileNotFoundError, ParseError, ParseErrorLocation } from '../utils/errors';
+import { BaseFileProcessor, DatasetBuilder, DatasetSource } from './fileProcessor';
+
+// encoding takes any iconv-lite label or 'auto' - a BOM takes precedence
+export interface JSONProcessorOptions {
+  encoding?: string;
+}
+
+// one record of a JSON document - path is its JSON pointer like /items/3
+export interface JSONRecord {
+  data: Record<string, any>;
+  path: string;
+}
+
+export class JSONProcessor extends BaseFileProcessor {
+  public readonly fileType = 'json';
+
+  private options: JSONProcessorOptions;
+
+  constructor(options: JSONProcessorOptions = {}) {
+    super();
+    this.options = {
+      encoding: 'auto',
+      ...options
+    };
+  }
+
+  // parse a JSON file in whatever encoding it was saved with
+  public readDocument(filePath: string): any {
+    if (!fs.existsSync(filePath)) {
+      throw new FileNotFoundError(filePath);
+    }
+    const content = EncodingDetector.decode(fs.readFileSync(filePath), this.resolveEncoding(filePath));
+
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new ParseError('json', `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`, this.locate(content, error), {
+        filePath,
+        cause: error
+      });
+    }
+  }
+
+  // a top-level array is the record list - an object contributes its largest array property, or is one record itself;
+  // values that are not objects become a record with a single "value" field
+  public records(filePath: string): JSONRecord[] {
+    const data = this.readDocument(filePath);
+
+    if (Array.isArray(data)) {
+      return this.toRecords(data, '');
+    }
+
+    if (this.isObject(data)) {
+      const largest = Object.entries(data)
+        .filter(([, value]) => Array.isArray(value))
+        .sort(([, a], [, b]) => (b as any[]).length - (a as any[]).length)[0];
+      if (largest) {
+        return this.toRecords(largest[1] as any[], `/${largest[0].replace(/~/g, '~0').replace(/\//g, '~1')}`);
+      }
+    }
+
+    return [{ data: this.toRecord(data), path: '/' }];
+  }
+
+  // the document is parsed whole before the first record is handed out
+  public async *stream(filePath: string): AsyncGenerator<Record<string, any>> {
+    for (const record of this.records(filePath)) {
+      yield record.data;
+    }
+  }
+
+  public getOptions(): JSONProcessorOptions {
+    return { ...this.options };
+  }
+
+  protected describeSource(filePath: string): DatasetSource {
+    return DatasetBuilder.describeSource(filePath, this.fileType, { encoding: this.resolveEncoding(filePath) });
+  }
+
+  // line and column of the character position JSON.parse reports - newer engines name them themselves, some errors
+  // (an unexpected token) have no position at all
+  private locate(content: string, error: unknown): ParseErrorLocation {
+    const message = error instanceof Error ? error.message : '';
+    const lineColumn = /\(line (\d+) column (\d+)\)/.exec(message);
+    if (lineColumn) {
+      return { line: Number(lineColumn[1]), column: Number(lineColumn[2]) };
+    }
+    const position = /at position (\d+)/.exec(message);
+    if (!position) {
+      return {};
+    }
+    const lines = content.slice(0, Number(position[1])).split(/\r\n|\r|\n/);
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  }
+
+  private toRecords(items: any[], basePath: string): JSONRecord[] {
+    return items.map((item, index) => ({ data: this.toRecord(item), path: `${basePath}/${index}` }));
+  }
+
+  private toRecord(item: any): Record<string, any> {
+    return this.isObject(item) ? item : { value: item };
+  }
+
+  private isObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private resolveEncoding(filePath: string): string {
+    return EncodingDetector.resolveFileEncoding(filePath, this.options.encoding || 'auto');
+  }
+}
+
+export default JSONProcessor;
@@ -0,0 +1,363 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { Readable, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import EncodingDetector from '../utils/encodingDetector';
+import { EmptyFileError, FileNotFoundError, FileProcessorError, ParseError } from '../utils/errors';
+import { Dataset, DatasetBuilder, DatasetSource, DatasetStatistics, FileProcessor } from './fileProcessor';
+
+// encoding takes any iconv-lite label or 'auto' - skipInvalidLines drops lines that are not JSON instead of failing
+export interface NDJSONProcessorOptions {
+  encoding?: string;
+  skipInvalidLines?: boolean;
+}
+
+// result object returned after NDJSON processing - keys is the union of record keys in first-seen order
+export interface NDJSONProcessorResult {
+  data: Record<string, any>[];
+  rowCount: number;
+  keys: string[];
+  skippedLines: number;
+  processingTime: number;
+  fileName?: string | undefined;
+}
+
+// single record yielded by the streaming iterator - lineNumber is the 1-based line it was read from
+export interface NDJSONRow {
+  data: Record<string, any>;
+  lineNumber: number;
+}
+
+// line that is not valid JSON
+export interface NDJSONValidationIssue {
+  line: number;
+  message: string;
+}
+
+export interface NDJSONValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  issues: NDJSONValidationIssue[];
+}
+
+// one non-blank line - data for a record, error when the line is not JSON
+interface ParsedLine {
+  data?: Record<string, any>;
+  wrapped?: boolean;
+  error?: string;
+  lineNumber: number;
+}
+
+export class NDJSONProcessor implements FileProcessor {
+  private static readonly MAX_REPORTED_ISSUES = 100;
+
+  public readonly fileType = 'ndjson';
+
+  private options: NDJSONProcessorOptions;
+
+  constructor(options: NDJSONProcessorOptions = {}) {
+    this.options = {
+      encoding: 'auto',
+      skipInvalidLines: false,
+      ...options
+    };
+  }
+
+  // read every record of a file into memory
+  public async processFile(filePath: string): Promise<NDJSONProcessorResult> {
+    return this.collect(this.readLines(filePath), Date.now(), this.getFileName(filePath));
+  }
+
+  // parse NDJSON held in a string
+  public async processString(content: string): Promise<NDJSONProcessorResult> {
+    if (!content.trim()) {
+      throw new Error('NDJSON string is empty');
+    }
+    return this.collect(this.parseLines(Readable.from([content])), Date.now());
+  }
+
+  // stream records one line at a time - reading pauses while the consumer is busy, so memory stays flat for huge files
+  public async *rows(filePath: string): AsyncGenerator<NDJSONRow> {
+    for await (const row of this.readLines(filePath)) {
+      if (row.data) {
+        yield { data: row.data, lineNumber: row.lineNumber };
+      }
+    }
+  }
+
+  // check every line parses - blank lines are allowed, lines holding scalars are reported as warnings
+  public async validateNDJSON(filePath: string): Promise<NDJSONValidationResult> {
+    const result: NDJSONValidationResult = { isValid: true, errors: [], warnings: [], issues: [] };
+
+    try {
+      this.assertFileReadable(filePath);
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      result.isValid = false;
+      return result;
+    }
+
+    let invalidLines = 0;
+    let scalarLines = 0;
+    let records = 0;
+
+    for await (const row of this.readLines(filePath, true)) {
+      if (row.error) {
+        invalidLines++;
+        if (result.issues.length < NDJSONProcessor.MAX_REPORTED_ISSUES) {
+          result.issues.push({ line: row.lineNumber, message: row.error });
+        }
+      } else if (row.data) {
+        records++;
+        if (row.wrapped) {
+          scalarLines++;
+        }
+      }
+    }
+
+    if (invalidLines > 0) {
+      result.errors.push(`${invalidLines} line${invalidLines === 1 ? ' is' : 's are'} not valid JSON (first at line ${result.issues[0].line})`);
+      result.isValid = false;
+    }
+    if (records === 0 && invalidLines === 0) {
+      result.errors.push('File contains no records');
+      result.isValid = false;
+    }
+    if (scalarLines > 0) {
+      result.warnings.push(`${scalarLines} line${scalarLines === 1 ? ' holds' : 's hold'} a value other than an object, read as { "value": ... }`);
+    }
+
+    return result;
+  }
+
+  // convert to a JSON array - streams records into the output file (an output error stops reading them), or builds the
+  // JSON string when no output path given
+  public async convertToJSON(filePath: string, outputPath?: string): Promise<string> {
+    if (!outputPath) {
+      const items: string[] = [];
+      for await (const row of this.rows(filePath)) {
+        items.push(this.formatArrayItem(row.data));
+      }
+      return items.length > 0 ? `[\n${items.join(',\n')}\n]` : '[]';
+    }
+
+    await pipelineAsync(Readable.from(this.jsonArrayChunks(filePath)), fs.createWriteStream(outputPath, { encoding: 'utf8' }));
+    return outputPath;
+  }
+
+  // first N records - stops reading as soon as they are collected
+  public async getPreview(filePath: string, rows: number = 5): Promise<NDJSONProcessorResult> {
+    const startTime = Date.now();
+    const data: Record<string, any>[] = [];
+
+    if (rows > 0) {
+      for await (const row of this.rows(filePath)) {
+        data.push(row.data);
+        if (data.length >= rows) {
+          break;
+        }
+      }
+    }
+
+    return {
+      data,
+      rowCount: data.length,
+      keys: this.collectKeys(data),
+      skippedLines: 0,
+      processingTime: Date.now() - startTime,
+      fileName: this.getFileName(filePath)
+    };
+  }
+
+  public async getStatistics(filePath: string): Promise<{
+    totalRows: number;
+    totalKeys: number;
+    keys: string[];
+    fileSize: number;
+    encoding: string;
+  }> {
+    const keys = new Set<string>();
+    let totalRows = 0;
+
+    for await (const row of this.rows(filePath)) {
+      Object.keys(row.data).forEach(key => keys.add(key));
+      totalRows++;
+    }
+
+    return {
+      totalRows,
+      totalKeys: keys.size,
+      keys: Array.from(keys),
+      fileSize: fs.statSync(filePath).size,
+      encoding: this.resolveEncoding(filePath)
+    };
+  }
+
+  public setOptions(options: Partial<NDJSONProcessorOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  public getOptions(): NDJSONProcessorOptions {
+    return { ...this.options };
+  }
+
+  // read the file as a dataset - lines skipped with skipInvalidLines are reported as a warning
+  public async process(filePath: string): Promise<Dataset> {
+    const startTime = Date.now();
+    const result = await this.processFile(filePath);
+    const skipped = result.skippedLines;
+
+    return DatasetBuilder.build(result.data, this.describeSource(filePath), startTime, {
+      columnOrder: result.keys,
+      warnings: skipped > 0 ? [`${skipped} line${skipped === 1 ? ' was' : 's were'} not valid JSON and skipped`] : []
+    });
+  }
+
+  public async validate(filePath: string): Promise<NDJSONValidationResult> {
+    return this.validateNDJSON(filePath);
+  }
+
+  public async preview(filePath: string, records: number = 5): Promise<Dataset> {
+    const startTime = Date.now();
+    const result = await this.getPreview(filePath, records);
+    return DatasetBuilder.build(result.data, this.describeSource(filePath), startTime, { columnOrder: result.keys });
+  }
+
+  public async statistics(filePath: string): Promise<DatasetStatistics> {
+    const stats = await this.getStatistics(filePath);
+    return {
+      totalRecords: stats.totalRows,
+      totalColumns: stats.totalKeys,
+      fileSize: stats.fileSize,
+      summary: { Records: stats.totalRows, Keys: stats.totalKeys },
+      details: stats
+    };
+  }
+
+  public async *stream(filePath: string): AsyncGenerator<Record<string, any>> {
+    for await (const row of this.rows(filePath)) {
+      yield row.data;
+    }
+  }
+
+  private async collect(
+    lines: AsyncIterable<ParsedLine>,
+    startTime: number,
+    fileName?: string
+  ): Promise<NDJSONProcessorResult> {
+    const data: Record<string, any>[] = [];
+    let skippedLines = 0;
+
+    for await (const row of lines) {
+      if (row.data) {
+        data.push(row.data);
+      } else if (row.error) {
+        skippedLines++;
+      }
+    }
+
+    return {
+      data,
+      rowCount: data.length,
+      keys: this.collectKeys(data),
+      skippedLines,
+      processingTime: Date.now() - startTime,
+      ...(fileName !== undefined ? { fileName } : {})
+    };
+  }
+
+  private readLines(filePath: string, collectErrors: boolean = false): AsyncGenerator<ParsedLine> {
+    this.assertFileReadable(filePath);
+    const decoder = EncodingDetector.createDecodeStream(this.resolveEncoding(filePath));
+    return this.parseLines(pipeline(fs.createReadStream(filePath), decoder, () => undefined), collectErrors, filePath);
+  }
+
+  // parse a readable source line by line - invalid lines fail the read unless skipInvalidLines (or collectErrors for
+  // validation) is set, in which case they are yielded with their error
+  private async *parseLines(source: Readable, collectErrors: boolean = false, filePath?: string): AsyncGenerator<ParsedLine> {
+    const errorOptions = filePath !== undefined ? { filePath } : {};
+    const lines = readline.createInterface({ input: source, crlfDelay: Infinity });
+    let lineNumber = 0;
+
+    try {
+      for await (const line of lines) {
+        lineNumber++;
+        // a BOM left on the first line by an undecoded stream would break JSON.parse
+        const text = (lineNumber === 1 ? line.replace(/^\uFEFF/, '') : line).trim();
+        if (text.length === 0) {
+          continue;
+        }
+
+        let value: any;
+        try {
+          value = JSON.parse(text);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          if (!collectErrors && !this.options.skipInvalidLines) {
+            throw new ParseError('ndjson', `NDJSON processing error: line ${lineNumber}: ${message}`, { line: lineNumber }, { ...errorOptions, cause: error });
+          }
+          yield { error: message, lineNumber };
+          continue;
+        }
+
+        const isRecord = typeof value === 'object' && value !== null && !Array.isArray(value);
+        yield { data: isRecord ? value : { value }, wrapped: !isRecord, lineNumber };
+      }
+    } catch (error) {
+      if (error instanceof FileProcessorError) {
+        throw error;
+      }
+      throw new ParseError('ndjson', `NDJSON processing error: ${error instanceof Error ? error.message : 'Unknown error'}`, {}, { ...errorOptions, cause: error });
+    } finally {
+      lines.close();
+      source.destroy();
+    }
+  }
+
+  private collectKeys(records: Record<string, any>[]): string[] {
+    const keys = new Set<string>();
+    records.forEach(record => Object.keys(record).forEach(key => keys.add(key)));
+    return Array.from(keys);
+  }
+
+  // the JSON array convertToJSON() writes, one record at a time
+  private async *jsonArrayChunks(filePath: string): AsyncGenerator<string> {
+    let count = 0;
+    for await (const row of this.rows(filePath)) {
+      yield `${count === 0 ? '[\n' : ',\n'}${this.formatArrayItem(row.data)}`;
+      count++;
+    }
+    yield count > 0 ? '\n]' : '[]';
+  }
+
+  // format a single record the way JSON.stringify(array, null, 2) lays out array items
+  private formatArrayItem(data: Record<string, any>): string {
+    return JSON.stringify(data, null, 2).replace(/^/gm, '  ');
+  }
+
+  private resolveEncoding(filePath: string): string {
+    return EncodingDetector.resolveFileEncoding(filePath, this.options.encoding || 'auto');
+  }
+
+  private assertFileReadable(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      throw new FileNotFoundError(filePath);
+    }
+
+    const stats = fs.statSync(filePath);
+    if (stats.size === 0) {
+      throw new EmptyFileError(filePath);
+    }
+  }
+
+  private getFileName(filePath: string): string | undefined {
+    return filePath.split('/').pop() || filePath.split('\\').pop();
+  }
+
+  private describeSource(filePath: string): DatasetSource {
+    return DatasetBuilder.describeSource(filePath, this.fileType, { encoding: this.resolveEncoding(filePath) });
+  }
+}
+
+export default NDJSONProcessor;
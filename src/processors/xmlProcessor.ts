@@ -1,8 +1,32 @@
 import * as fs from 'fs';
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import * as sax from 'sax';
+import { Readable, pipeline } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
 import * as xml2js from 'xml2js';
+import * as xpath from 'xpath';
+import EncodingDetector from '../utils/encodingDetector';
+import { EmptyFileError, FileNotFoundError, ParseError } from '../utils/errors';
+import { Dataset, DatasetBuilder, DatasetSource, DatasetStatistics, FileProcessor } from './fileProcessor';
+import XmlFlattener, { XmlColumnMapping } from '../utils/xmlFlattener';
+import XmlSecurityGuard, { XmlSecurityError, XmlSecurityOptions } from '../utils/xmlSecurity';
+import XsdValidator, { XsdValidationResult } from '../utils/xsdValidator';
 
+// encoding takes any iconv-lite label or 'auto' - a BOM or the XML declaration's encoding attribute takes precedence;
+// recordPath names the repeating record element ("clinical_study") or its path ("feed/entry", "/feed/entry" from the root)
+// for records() and streamed convertToJSON(); columns flattens each record into table rows (see XmlFlattener), with
+// repeated values joined by joinSeparator; security checks every document against the secure parsing profile before
+// it is read (see XmlSecurityGuard), a document breaking it throws an XmlSecurityError naming the limit hit, and with
+// allowDoctype the entities a DOCTYPE declares are expanded;
+// preserveOrder gives processFile() data in xml2js's explicitChildren/preserveChildrenOrder shape, comments included,
+// so XMLWriter writes interleaved siblings and mixed content back as read (the xml2js options below are not used then)
 export interface XmlProcessorOptions {
-  encoding?: BufferEncoding;
+  encoding?: string;
+  preserveOrder?: boolean;
+  recordPath?: string;
+  columns?: XmlColumnMapping[];
+  joinSeparator?: string;
+  security?: XmlSecurityOptions;
   explicitArray?: boolean;
   trim?: boolean;
   ignoreAttrs?: boolean;
@@ -21,12 +45,15 @@ export interface XmlElement {
   path: string;
 }
 
+// elements and attributes are named {uri}localName when they are in a namespace, as written otherwise; namespaces maps
+// every prefix declared with xmlns:prefix, and '' for a default namespace, to its URI
 export interface XmlStructureInfo {
   rootElement: string;
   totalElements: number;
   maxDepth: number;
-  namespaces: string[];
+  namespaces: Record<string, string>;
   elements: Set<string>;
+  elementCounts: Record<string, number>;
   attributes: Set<string>;
 }
 
@@ -38,10 +65,46 @@ export interface XmlProcessorResult {
   fileName?: string;
 }
 
+// one record element streamed by records() - data has the shape processFile() gives the element, path is its
+// position like /feed/entry[3] and index the 1-based count of records read so far
+export interface XmlRecord {
+  data: any;
+  path: string;
+  index: number;
+}
+
+// node selected by query() - elements give their subtree in the shape processFile() uses, attributes, text, comments
+// and processing instructions their text; path locates the node like /feed/entry[2]/@id
+export interface XmlQueryNode {
+  type: 'element' | 'attribute' | 'text' | 'comment' | 'processing-instruction' | 'document';
+  name?: string;
+  path: string;
+  value: any;
+}
+
+// nodes for expressions that select nodes, value for expressions that compute a string, number or boolean
+export interface XmlQueryResult {
+  expression: string;
+  nodes: XmlQueryNode[];
+  value?: string | number | boolean;
+  processingTime: number;
+}
+
+// well-formedness error - line and column (1-based) of the character the parser stopped at, snippet the text of that
+// line (clipped around the column for long lines) and caret a marker line pointing at the column under the snippet
+export interface XmlValidationIssue {
+  line: number;
+  column: number;
+  message: string;
+  snippet: string;
+  caret: string;
+}
+
 export interface XmlValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  issues: XmlValidationIssue[];
   fileInfo?: {
     size: number;
     encoding?: string;
@@ -56,10 +119,29 @@ export interface XmlStatistics {
   uniqueElements: number;
   uniqueAttributes: number;
   hasNamespaces: boolean;
+  namespaces: Record<string, string>;
+  elementCounts: Record<string, number>;
   rootElement: string;
 }
 
-export class XmlProcessor {
+export class XmlProcessor implements FileProcessor {
+  // DOM node types query() reports - CDATA sections count as text
+  private static readonly NODE_TYPES: Record<number, XmlQueryNode['type']> = {
+    1: 'element',
+    2: 'attribute',
+    3: 'text',
+    4: 'text',
+    7: 'processing-instruction',
+    8: 'comment',
+    9: 'document'
+  };
+
+  private static readonly MAX_REPORTED_ISSUES = 100;
+  // characters of a long line shown on each side of the error column
+  private static readonly SNIPPET_CONTEXT = 40;
+
+  public readonly fileType = 'xml';
+
   private options: XmlProcessorOptions;
   private parser: xml2js.Parser;
 
@@ -82,51 +164,20 @@ export class XmlProcessor {
 
   public async processFile(filePath: string): Promise<XmlProcessorResult> {
     const startTime = Date.now();
-    
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
-    }
-
-    const stats = fs.statSync(filePath);
-    if (stats.size === 0) {
-      throw new Error(`File is empty: ${filePath}`);
-    }
+    this.assertFileReadable(filePath);
 
-    try {
-      const xmlContent = fs.readFileSync(filePath, { encoding: this.options.encoding });
-      const contentString = typeof xmlContent === 'string' ? xmlContent : xmlContent.toString();
-      
-      if (contentString.trim().length === 0) {
-        throw new Error('XML file contains no content');
-      }
-
-      const result = await this.parser.parseStringPromise(contentString);
-      const structure = this.analyzeStructure(result);
-      const elements = this.flattenElements(result);
-      
-      const processingTime = Date.now() - startTime;
-      const fileName = filePath.split('/').pop() || filePath.split('\\').pop() || '';
-
-      return {
-        data: result,
-        structure,
-        elements,
-        processingTime,
-        fileName
-      };
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('Non-whitespace before first tag')) {
-        throw new Error('Invalid XML: File contains non-XML content before the root element');
-      }
-      throw new Error(`XML processing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    const contentString = this.readSecured(filePath);
+    return this.parseContent(contentString, filePath, startTime);
   }
 
-  public validateXml(filePath: string): XmlValidationResult {
+  // check the file is well-formed XML - every syntax error is listed in issues with its position, the parser keeps
+  // going after each one so later errors are found too
+  public async validateXml(filePath: string): Promise<XmlValidationResult> {
     const result: XmlValidationResult = {
       isValid: true,
       errors: [],
-      warnings: []
+      warnings: [],
+      issues: []
     };
 
     try {
@@ -152,13 +203,13 @@ export class XmlProcessor {
         result.warnings.push('File size is very large (>20MB), processing might be slow');
       }
 
-      const content = fs.readFileSync(filePath, 'utf8');
-      
-      // basic XML validation checks
-      if (!content.trim().startsWith('<')) {
-        result.errors.push('Invalid XML: File does not start with an XML tag');
-        result.isValid = false;
+      const encoding = this.resolveEncoding(filePath);
+      // the secure parsing profile comes first - a document breaking it throws its XmlSecurityError rather than
+      // failing the syntax check on the entities it declares
+      if (this.options.security) {
+        await new XmlSecurityGuard(this.options.security).checkFile(filePath, encoding);
       }
+      const content = EncodingDetector.decode(fs.readFileSync(filePath), encoding);
 
       if (!content.includes('</')) {
         result.warnings.push('XML file might be self-closing only or malformed');
@@ -169,24 +220,26 @@ export class XmlProcessor {
         result.warnings.push('XML file is missing XML declaration (<?xml version="1.0"?>)');
       }
 
-      // try to parse to catch syntax errors
-      try {
-        this.parser.parseString(content, (err) => {
-          if (err) {
-            result.errors.push(`XML syntax error: ${err.message}`);
-            result.isValid = false;
-          }
-        });
-      } catch (error) {
-        result.errors.push(`XML parsing error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const { issues, total } = await this.findSyntaxIssues(content);
+      if (total > 0) {
+        const [first] = issues;
+        result.errors.push(
+          `XML syntax error: ${first.message} at line ${first.line}, column ${first.column}` +
+          (total > 1 ? ` (${total} errors in total)` : '')
+        );
+        result.issues = issues;
         result.isValid = false;
       }
 
       result.fileInfo = {
-        size: stats.size
+        size: stats.size,
+        encoding
       };
 
     } catch (error) {
+      if (error instanceof XmlSecurityError) {
+        throw error;
+      }
       result.errors.push(`Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       result.isValid = false;
     }
@@ -194,7 +247,100 @@ export class XmlProcessor {
     return result;
   }
 
+  // run the document through a strict sax parser, resuming after every error - errors the parser repeats at the same
+  // position or on the following characters are reported once; total counts the issues not listed as well
+  private findSyntaxIssues(content: string): Promise<{ issues: XmlValidationIssue[]; total: number }> {
+    const lines = content.split(/\r\n|\r|\n/);
+    const issues: XmlValidationIssue[] = [];
+    const parser = sax.parser(true, { position: true });
+    let last: { line: number; column: number; message: string } | undefined;
+    let total = 0;
+    let depth = 0;
+    let rootClosed = false;
+
+    const report = (line: number, column: number, message: string) => {
+      const previous = last;
+      last = { line, column, message };
+      if (previous && previous.line === line && previous.column === column) {
+        // the later error at the same position is the more specific one ("Unmatched closing tag: item")
+        const latest = issues[issues.length - 1];
+        if (issues.length === total && latest.line === line && latest.column === column) {
+          latest.message = message;
+        }
+        return;
+      }
+      // stray text gives an error for each of its characters
+      if (previous && previous.line === line && (previous.message === message || previous.column === column - 1)) {
+        return;
+      }
+      total++;
+      if (issues.length < XmlProcessor.MAX_REPORTED_ISSUES) {
+        issues.push({ line, column, message, ...this.snippetAt(lines, line, column) });
+      }
+    };
+
+    return new Promise(resolve => {
+      // sax does not read the internal DTD subset - entities it declares are known to the parser, their references left
+      // as written since only the syntax is checked
+      parser.ondoctype = (doctype) => {
+        for (const [, name] of doctype.matchAll(/<!ENTITY\s+([^\s%]\S*)/g)) {
+          parser.ENTITIES[name] = `&${name};`;
+        }
+      };
+      parser.onerror = (error) => {
+        // errors at a line break are reported at the start of the next line, column 0
+        report(parser.line + 1, Math.max(parser.column, 1), error.message.split('\n')[0].replace(/\.$/, ''));
+        parser.resume();
+      };
+      parser.onopentagstart = (node) => {
+        // sax accepts further elements after the root element closed - the parser has read the name and one character
+        if (rootClosed && depth === 0) {
+          report(parser.line + 1, Math.max(parser.column - node.name.length - 1, 1), `Extra element '${node.name}' after the root element`);
+        }
+      };
+      parser.onopentag = () => {
+        depth++;
+      };
+      parser.onclosetag = () => {
+        depth--;
+        rootClosed = rootClosed || depth === 0;
+      };
+      parser.onend = () => {
+        if (depth === 0 && !rootClosed && total === 0) {
+          report(1, 1, 'Document has no root element');
+        }
+        resolve({ issues, total });
+      };
+      parser.write(content).close();
+    });
+  }
+
+  // the line of an issue, clipped to the characters around the column, and a caret under the column - tabs are kept
+  // in the caret line so it lines up with the snippet
+  private snippetAt(lines: string[], line: number, column: number): { snippet: string; caret: string } {
+    const text = lines[line - 1] || '';
+    const index = Math.min(column - 1, text.length);
+    const start = Math.max(0, index - XmlProcessor.SNIPPET_CONTEXT);
+    const end = Math.min(text.length, index + XmlProcessor.SNIPPET_CONTEXT);
+    const prefix = start > 0 ? '...' : '';
+    const snippet = prefix + text.slice(start, end) + (end < text.length ? '...' : '');
+    const caret = prefix.replace(/./g, ' ') + text.slice(start, index).replace(/[^\t]/g, ' ') + '^';
+    return { snippet, caret };
+  }
+
+  // validate the file against an XML Schema - every violation with its line and column, see XsdValidator for what is
+  // checked; the file is streamed in the processor's encoding
+  public async validateXsd(filePath: string, schemaPath: string): Promise<XsdValidationResult> {
+    this.assertFileReadable(filePath);
+    return XsdValidator.fromFile(schemaPath).validateFile(filePath, this.resolveEncoding(filePath));
+  }
+
+  // with a recordPath the file is streamed into a JSON array of records, otherwise the whole document is converted
   public async convertToJSON(filePath: string, outputPath?: string): Promise<string> {
+    if (this.options.recordPath) {
+      return this.convertRecordsToJSON(filePath, outputPath);
+    }
+
     const result = await this.processFile(filePath);
     const jsonData = {
       fileName: result.fileName,
@@ -217,28 +363,369 @@ export class XmlProcessor {
     return jsonString;
   }
 
+  // stream the elements matching recordPath one at a time - only the current record is held in memory, so documents
+  // of any size can be read; records nested inside a matching record are part of it
+  public async *records(filePath: string, recordPath: string | undefined = this.options.recordPath): AsyncGenerator<XmlRecord> {
+    if (!recordPath || !recordPath.replace(/\//g, '').trim()) {
+      throw new Error('A record element or path is required, e.g. "clinical_study" or "feed/entry"');
+    }
+    this.assertFileReadable(filePath);
+    // the whole file is streamed through the guard first, records already handed out cannot be taken back
+    if (this.options.security) {
+      await new XmlSecurityGuard(this.options.security).checkFile(filePath, this.resolveEncoding(filePath));
+    }
+
+    const absolute = recordPath.trim().startsWith('/');
+    const segments = recordPath.trim().split('/').filter(segment => segment.length > 0);
+    const recordParser = new xml2js.Parser({ ...this.options, explicitRoot: true });
+    const scanner = sax.parser(true);
+    this.declareEntities(scanner);
+    const decoder = EncodingDetector.createDecodeStream(this.resolveEncoding(filePath));
+    const stream = fs.createReadStream(filePath);
+    const input = pipeline(stream, decoder, () => undefined);
+
+    // open elements with the count of their children by name, used for the [n] position in record paths
+    const stack: { name: string; position: number; children: Map<string, number> }[] = [];
+    const completed: { xml: string; path: string }[] = [];
+    let recordDepth = -1;
+    let recordPathText = '';
+    let xml = '';
+    let parseError: Error | null = null;
+    let index = 0;
+
+    const matches = (): boolean => {
+      if (absolute ? stack.length !== segments.length : stack.length < segments.length) {
+        return false;
+      }
+      const tail = stack.slice(stack.length - segments.length);
+      return tail.every((element, i) => element.name === segments[i]);
+    };
+
+    scanner.onopentag = (node) => {
+      const parent = stack[stack.length - 1];
+      const position = parent ? (parent.children.get(node.name) || 0) + 1 : 1;
+      parent?.children.set(node.name, position);
+      stack.push({ name: node.name, position, children: new Map() });
+
+      if (recordDepth === -1 && matches()) {
+        recordDepth = stack.length;
+        recordPathText = '/' + stack.map((element, i) => i === stack.length - 1 ? `${element.name}[${element.position}]` : element.name).join('/');
+        xml = '';
+      }
+      if (recordDepth !== -1) {
+        const attributes = Object.entries(node.attributes as Record<string, string>)
+          .map(([name, value]) => ` ${name}="${this.escapeXml(value, true)}"`)
+          .join('');
+        xml += `<${node.name}${attributes}>`;
+      }
+    };
+    scanner.onclosetag = (name) => {
+      if (recordDepth !== -1) {
+        xml += `</${name}>`;
+        if (stack.length === recordDepth) {
+          completed.push({ xml, path: recordPathText });
+          recordDepth = -1;
+          xml = '';
+        }
+      }
+      stack.pop();
+    };
+    scanner.ontext = (text) => {
+      if (recordDepth !== -1) {
+        xml += this.escapeXml(text);
+      }
+    };
+    scanner.oncdata = (text) => {
+      if (recordDepth !== -1) {
+        xml += `<![CDATA[${text.split(']]>').join(']]]]><![CDATA[>')}]]>`;
+      }
+    };
+    scanner.onerror = (error) => {
+      parseError = error;
+    };
+
+    try {
+      for await (const chunk of input) {
+        scanner.write(chunk as string);
+        if (parseError) {
+          throw parseError;
+        }
+
+        // records finished in this chunk are parsed with the processor's xml2js options and handed out before reading on
+        for (const record of completed.splice(0)) {
+          const parsed = await recordParser.parseStringPromise(record.xml);
+          yield { data: Object.values(parsed)[0], path: record.path, index: ++index };
+        }
+      }
+      scanner.close();
+      if (parseError) {
+        throw parseError;
+      }
+    } catch (error) {
+      throw this.parseError(`XML processing error: ${error instanceof Error ? error.message.split('\n')[0] : 'Unknown error'}`, error, filePath);
+    } finally {
+      stream.destroy();
+      decoder.destroy();
+    }
+  }
+
+  // stream the records as flat rows of the column mapping - every row carries the path and index of its record, an
+  // exploded column gives several rows per record; attributes stay under "$" whatever mergeAttrs is set to, so
+  // "@attribute" steps always find them
+  public async *flattenRecords(filePath: string, columns: XmlColumnMapping[] = this.options.columns || []): AsyncGenerator<XmlRecord> {
+    const flattener = new XmlFlattener({
+      columns,
+      ...(this.options.joinSeparator !== undefined ? { separator: this.options.joinSeparator } : {})
+    });
+    const reader = new XmlProcessor({ ...this.options, mergeAttrs: false, ignoreAttrs: false });
+
+    for await (const record of reader.records(filePath)) {
+      for (const data of flattener.flatten(record.data)) {
+        yield { data, path: record.path, index: record.index };
+      }
+    }
+  }
+
+  // every flat row of the file - for the CSV and XLSX writers
+  public async flatten(filePath: string, columns: XmlColumnMapping[] = this.options.columns || []): Promise<Record<string, any>[]> {
+    const rows: Record<string, any>[] = [];
+    for await (const row of this.flattenRecords(filePath, columns)) {
+      rows.push(row.data);
+    }
+    return rows;
+  }
+
+  // the records of the file one at a time - the flat rows of the column mapping, the elements matching recordPath
+  // (streamed), or the records findRecords() picks from the parsed document; text-only elements become a record with a
+  // single field named after the element
+  public async *rows(filePath: string): AsyncGenerator<XmlRecord> {
+    if (this.options.columns) {
+      yield* this.flattenRecords(filePath);
+      return;
+    }
+
+    if (this.options.recordPath) {
+      const recordName = this.options.recordPath.split('/').filter(segment => segment.length > 0).pop() || 'value';
+      for await (const record of this.records(filePath)) {
+        yield { ...record, data: this.toRecord(record.data, recordName) };
+      }
+      return;
+    }
+
+    yield* this.findRecords((await this.processFile(filePath)).data);
+  }
+
+  // records are the largest repeated child list below the root when it makes up at least half of the children -
+  // single-child wrappers are descended into, anything else (a document like a single study) is one record
+  public findRecords(document: Record<string, any>): XmlRecord[] {
+    const rootName = Object.keys(document)[0];
+    if (!rootName) {
+      return [];
+    }
+
+    let node = document[rootName];
+    let nodeName = rootName;
+    let nodePath = `/${rootName}`;
+
+    while (this.isElementObject(node)) {
+      const children = Object.entries(node).filter(([key]) => key !== '$' && key !== '_');
+      const repeated = children
+        .filter(([, value]) => Array.isArray(value))
+        .sort(([, a], [, b]) => (b as any[]).length - (a as any[]).length)[0];
+
+      const childCount = children.reduce((count, [, value]) => count + (Array.isArray(value) ? value.length : 1), 0);
+      if (repeated && (repeated[1] as any[]).length * 2 >= childCount) {
+        const [name, items] = repeated as [string, any[]];
+        return items.map((item, index) => ({ data: this.toRecord(item, name), path: `${nodePath}/${name}[${index + 1}]`, index: index + 1 }));
+      }
+
+      if (children.length !== 1 || !this.isElementObject(children[0][1])) {
+        break;
+      }
+      [nodeName, node] = children[0];
+      nodePath = `${nodePath}/${nodeName}`;
+    }
+
+    return [{ data: this.toRecord(node, nodeName), path: nodePath, index: 1 }];
+  }
+
+  // read the records of rows() as a dataset
+  public async process(filePath: string): Promise<Dataset> {
+    const startTime = Date.now();
+    const records: Record<string, any>[] = [];
+    for await (const row of this.rows(filePath)) {
+      records.push(row.data);
+    }
+    return DatasetBuilder.build(records, this.describeSource(filePath), startTime);
+  }
+
+  // with a recordPath the file is only checked to exist, as validateXml() reads it whole
+  public async validate(filePath: string): Promise<XmlValidationResult> {
+    if (!this.options.recordPath) {
+      return this.validateXml(filePath);
+    }
+
+    const result: XmlValidationResult = { isValid: true, errors: [], warnings: [], issues: [] };
+    try {
+      this.assertFileReadable(filePath);
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+      result.isValid = false;
+    }
+    return result;
+  }
+
+  // the first records - only the leading records under the root are read when records are picked from the document
+  public async preview(filePath: string, records: number = 5): Promise<Dataset> {
+    const startTime = Date.now();
+    const data: Record<string, any>[] = [];
+
+    if (this.options.recordPath) {
+      if (records > 0) {
+        for await (const row of this.rows(filePath)) {
+          data.push(row.data);
+          if (data.length >= records) {
+            break;
+          }
+        }
+      }
+    } else {
+      this.assertFileReadable(filePath);
+      const previewContent = await this.readLeadingRecords(filePath, records);
+      if (this.options.security) {
+        new XmlSecurityGuard(this.options.security).checkString(previewContent);
+      }
+      const result = await this.parseContent(previewContent, filePath, startTime);
+      data.push(...this.findRecords(result.data).slice(0, records).map(record => record.data));
+    }
+
+    return DatasetBuilder.build(data, this.describeSource(filePath), startTime);
+  }
+
+  // with a recordPath the records are counted as they stream by, otherwise the document is parsed once for its
+  // structure and records
+  public async statistics(filePath: string): Promise<DatasetStatistics> {
+    const keys = new Set<string>();
+
+    if (this.options.recordPath) {
+      let totalRecords = 0;
+      for await (const row of this.rows(filePath)) {
+        Object.keys(row.data).forEach(key => keys.add(key));
+        totalRecords++;
+      }
+      return {
+        totalRecords,
+        totalColumns: keys.size,
+        fileSize: fs.statSync(filePath).size,
+        summary: { Records: totalRecords },
+        details: { keys: Array.from(keys) }
+      };
+    }
+
+    const result = await this.processFile(filePath);
+    const stats = this.summarizeStructure(result, fs.statSync(filePath).size);
+    const records = this.findRecords(result.data);
+    records.forEach(record => Object.keys(record.data).forEach(key => keys.add(key)));
+
+    return {
+      totalRecords: records.length,
+      totalColumns: keys.size,
+      fileSize: stats.fileSize,
+      summary: { Elements: stats.totalElements, 'Max Depth': stats.maxDepth },
+      details: stats
+    };
+  }
+
+  public async *stream(filePath: string): AsyncGenerator<Record<string, any>> {
+    for await (const row of this.rows(filePath)) {
+      yield row.data;
+    }
+  }
+
+  // evaluate an XPath 1.0 expression - prefixes declared in the document are bound to their namespaces, namespaces
+  // binds more (or overrides them); a default namespace has no prefix in XPath 1.0, so it has to be bound to one here
+  // or the name written expanded, as {uri}localName (the way analyzeStructure reports it)
+  public async query(filePath: string, expression: string, namespaces: Record<string, string> = {}): Promise<XmlQueryResult> {
+    const startTime = Date.now();
+    this.assertFileReadable(filePath);
+
+    const contentString = this.readSecured(filePath);
+    let document: any;
+    try {
+      document = new DOMParser({
+        onError: (level, message) => {
+          if (level !== 'warning') {
+            throw new Error(message);
+          }
+        }
+      }).parseFromString(contentString, 'text/xml');
+    } catch (error) {
+      throw this.parseError(`XML processing error: ${error instanceof Error ? error.message.split('\n')[0].trim() : 'Unknown error'}`, error, filePath);
+    }
+
+    let selected: xpath.SelectReturnType;
+    try {
+      const bindings = { ...this.getDeclaredNamespaces(document), ...namespaces };
+      selected = xpath.useNamespaces(bindings)(this.bindExpandedNames(expression, bindings), document);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const prefix = /Cannot resolve QName (\S+)/.exec(message);
+      throw new Error(prefix
+        ? `Invalid XPath expression '${expression}': namespace prefix '${prefix[1]}' is not bound to a namespace URI`
+        : `Invalid XPath expression '${expression}': ${message}`);
+    }
+
+    if (!Array.isArray(selected)) {
+      return { expression, nodes: [], value: selected as string | number | boolean, processingTime: Date.now() - startTime };
+    }
+
+    const nodes: XmlQueryNode[] = [];
+    for (const node of selected as any[]) {
+      const type = XmlProcessor.NODE_TYPES[node.nodeType] || 'text';
+      nodes.push({
+        type,
+        ...(type === 'element' || type === 'attribute' || type === 'processing-instruction' ? { name: node.nodeName } : {}),
+        path: this.getNodePath(node),
+        value: type === 'element' || type === 'document' ? await this.parseNode(node) : node.nodeValue
+      });
+    }
+    return { expression, nodes, processingTime: Date.now() - startTime };
+  }
+
   public async getStatistics(filePath: string): Promise<XmlStatistics> {
     if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
+      throw new FileNotFoundError(filePath);
     }
 
     const stats = fs.statSync(filePath);
-    const result = await this.processFile(filePath);
+    return this.summarizeStructure(await this.processFile(filePath), stats.size);
+  }
 
+  private summarizeStructure(result: XmlProcessorResult, fileSize: number): XmlStatistics {
     return {
       totalElements: result.structure.totalElements,
       totalAttributes: this.countTotalAttributes(result.data),
       maxDepth: result.structure.maxDepth,
-      fileSize: stats.size,
+      fileSize,
       uniqueElements: result.structure.elements.size,
       uniqueAttributes: result.structure.attributes.size,
-      hasNamespaces: result.structure.namespaces.length > 0,
+      hasNamespaces: Object.keys(result.structure.namespaces).length > 0,
+      namespaces: result.structure.namespaces,
+      elementCounts: result.structure.elementCounts,
       rootElement: result.structure.rootElement
     };
   }
 
-  public async getPreview(filePath: string, maxDepth: number = 3): Promise<XmlProcessorResult> {
-    const result = await this.processFile(filePath);
+  public async getPreview(filePath: string, maxDepth: number = 3, maxRecords: number = 20): Promise<XmlProcessorResult> {
+    const startTime = Date.now();
+    this.assertFileReadable(filePath);
+
+    // only the first records under the root are read from disk - and checked, as nothing else is parsed
+    const previewContent = await this.readLeadingRecords(filePath, maxRecords);
+    if (this.options.security) {
+      new XmlSecurityGuard(this.options.security).checkString(previewContent);
+    }
+    const result = await this.parseContent(previewContent, filePath, startTime);
     
     // Create a preview by limiting the depth of the data structure
     const previewData = this.limitDepth(result.data, maxDepth);
@@ -250,62 +737,409 @@ export class XmlProcessor {
     };
   }
 
-  private analyzeStructure(data: any, path: string = '', depth: number = 0): XmlStructureInfo {
-    const structure: XmlStructureInfo = {
-      rootElement: '',
-      totalElements: 0,
-      maxDepth: depth,
-      namespaces: [],
-      elements: new Set(),
-      attributes: new Set()
+  // write the streamed records (or their flat rows with columns set) as a pretty-printed JSON array - the pipeline
+  // waits for the file stream to drain so memory stays flat, and an output error stops reading the records
+  private async convertRecordsToJSON(filePath: string, outputPath?: string): Promise<string> {
+    const formatItem = (data: any) => JSON.stringify(data, null, 2).replace(/^/gm, '  ');
+    const readRecords = () => this.options.columns ? this.flattenRecords(filePath) : this.records(filePath);
+
+    if (!outputPath) {
+      const items: string[] = [];
+      for await (const record of readRecords()) {
+        items.push(formatItem(record.data));
+      }
+      return items.length > 0 ? `[\n${items.join(',\n')}\n]` : '[]';
+    }
+
+    await pipelineAsync(Readable.from(this.jsonArrayChunks(readRecords(), formatItem)), fs.createWriteStream(outputPath, { encoding: 'utf8' }));
+    return outputPath;
+  }
+
+  private async *jsonArrayChunks(records: AsyncIterable<XmlRecord>, formatItem: (data: any) => string): AsyncGenerator<string> {
+    let count = 0;
+    for await (const record of records) {
+      yield `${count === 0 ? '[\n' : ',\n'}${formatItem(record.data)}`;
+      count++;
+    }
+    yield count > 0 ? '\n]' : '[]';
+  }
+
+  // every xmlns:prefix declaration of the document - the first declaration of a prefix wins
+  private getDeclaredNamespaces(document: any): Record<string, string> {
+    const namespaces: Record<string, string> = {};
+    const elements = document.getElementsByTagName('*');
+    for (let i = 0; i < elements.length; i++) {
+      const attributes = elements[i].attributes;
+      for (let j = 0; j < attributes.length; j++) {
+        const { name, value } = attributes[j];
+        if (name.startsWith('xmlns:') && !(name.slice(6) in namespaces)) {
+          namespaces[name.slice(6)] = value;
+        }
+      }
+    }
+    return namespaces;
+  }
+
+  // {uri}localName steps of an expression rewritten to prefix:localName, with a prefix already bound to the URI or a
+  // new one added to bindings - string literals are left alone, {}localName is a name in no namespace
+  private bindExpandedNames(expression: string, bindings: Record<string, string>): string {
+    const prefixFor = (uri: string): string => {
+      const bound = Object.keys(bindings).find(prefix => bindings[prefix] === uri);
+      if (bound) {
+        return bound;
+      }
+      let count = 1;
+      while (`ns${count}` in bindings) {
+        count++;
+      }
+      bindings[`ns${count}`] = uri;
+      return `ns${count}`;
     };
 
-    if (typeof data === 'object' && data !== null) {
-      for (const [key, value] of Object.entries(data)) {
-        if (depth === 0) {
-          structure.rootElement = key;
+    return expression
+      .split(/("[^"]*"|'[^']*')/)
+      .map((part, index) => index % 2 === 1 ? part : part.replace(
+        /\{([^}]*)\}(\*|[A-Za-z_][\w.-]*)/g,
+        (_match, uri: string, localName: string) => uri ? `${prefixFor(uri)}:${localName}` : localName
+      ))
+      .join('');
+  }
+
+  // an element or the document re-parsed with the processor's xml2js options
+  private async parseNode(node: any): Promise<any> {
+    const parsed = await new xml2js.Parser({ ...this.options, explicitRoot: true }).parseStringPromise(new XMLSerializer().serializeToString(node));
+    return node.nodeType === 9 ? parsed : Object.values(parsed)[0];
+  }
+
+  // location of a DOM node with the position among same-name siblings below the root, e.g. /feed/entry[2]/title[1]/text()[1]
+  private getNodePath(node: any): string {
+    const steps: string[] = [];
+    let current = node;
+
+    while (current && current.nodeType !== 9) {
+      if (current.nodeType === 2) {
+        steps.unshift(`@${current.nodeName}`);
+        current = current.ownerElement;
+        continue;
+      }
+
+      const parent = current.parentNode;
+      const step = current.nodeType === 1 ? current.nodeName
+        : current.nodeType === 8 ? 'comment()'
+        : current.nodeType === 7 ? 'processing-instruction()'
+        : 'text()';
+      if (parent && parent.nodeType !== 9) {
+        let position = 1;
+        for (let sibling = current.previousSibling; sibling; sibling = sibling.previousSibling) {
+          const sameStep = current.nodeType === 1 ? sibling.nodeType === 1 && sibling.nodeName === current.nodeName
+            : current.nodeType === 3 || current.nodeType === 4 ? sibling.nodeType === 3 || sibling.nodeType === 4
+            : sibling.nodeType === current.nodeType;
+          if (sameStep) {
+            position++;
+          }
+        }
+        steps.unshift(`${step}[${position}]`);
+      } else {
+        steps.unshift(step);
+      }
+      current = parent;
+    }
+
+    return `/${steps.join('/')}`;
+  }
+
+  private toRecord(item: any, name: string): Record<string, any> {
+    return this.isElementObject(item) ? item : { [name]: item };
+  }
+
+  private isElementObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private escapeXml(text: string, isAttribute: boolean = false): string {
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return isAttribute ? escaped.replace(/"/g, '&quot;') : escaped;
+  }
+
+  private async parseContent(contentString: string, filePath: string, startTime: number): Promise<XmlProcessorResult> {
+    try {
+      if (contentString.trim().length === 0) {
+        throw new Error('XML file contains no content');
+      }
+
+      let result: any;
+      if (this.options.preserveOrder) {
+        result = this.parseOrdered(contentString);
+      } else {
+        result = await this.parser.parseStringPromise(this.options.security?.allowDoctype ? this.expandEntities(contentString) : contentString);
+      }
+      const structure = this.analyzeStructure(contentString);
+      const elements = this.flattenElements(result);
+      
+      const processingTime = Date.now() - startTime;
+      const fileName = filePath.split('/').pop() || filePath.split('\\').pop() || '';
+
+      return {
+        data: result,
+        structure,
+        elements,
+        processingTime,
+        fileName
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Non-whitespace before first tag')) {
+        throw this.parseError('Invalid XML: File contains non-XML content before the root element', error, filePath);
+      }
+      throw this.parseError(`XML processing error: ${error instanceof Error ? error.message : 'Unknown error'}`, error, filePath);
+    }
+  }
+
+  // every element keeps its name under "#name", attributes under "$" and its child nodes in document order under "$$" -
+  // elements, text ("__text__"), CDATA ("__cdata__") and comments ("__comment__") with their content under "_"; text
+  // is kept as written, whitespace-only text between elements is dropped
+  private parseOrdered(content: string): Record<string, any> {
+    const parser = sax.parser(true);
+    this.declareEntities(parser);
+    const stack: Record<string, any>[] = [];
+    let root: Record<string, any> | undefined;
+
+    const append = (node: Record<string, any>) => {
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        (parent.$$ = parent.$$ || []).push(node);
+      }
+    };
+
+    parser.onopentag = (node) => {
+      const attributes = node.attributes as Record<string, string>;
+      const element: Record<string, any> = { '#name': node.name, ...(Object.keys(attributes).length > 0 ? { $: { ...attributes } } : {}) };
+      append(element);
+      stack.push(element);
+      root = root || element;
+    };
+    parser.onclosetag = () => {
+      stack.pop();
+    };
+    parser.ontext = (text) => {
+      if (text.trim() !== '') {
+        append({ '#name': '__text__', _: text });
+      }
+    };
+    parser.oncdata = (text) => {
+      append({ '#name': '__cdata__', _: text });
+    };
+    parser.oncomment = (text) => {
+      append({ '#name': '__comment__', _: text });
+    };
+    parser.onerror = (error) => {
+      throw error;
+    };
+
+    parser.write(content).close();
+    if (!root) {
+      throw new Error('XML file contains no root element');
+    }
+    return { [root['#name']]: root };
+  }
+
+  // the document with the entities its DOCTYPE declares expanded and the DOCTYPE left out, for xml2js to parse - its
+  // own sax parser only knows the predefined entities
+  private expandEntities(content: string): string {
+    const parser = sax.parser(true);
+    this.declareEntities(parser);
+    let depth = 0;
+    let xml = '';
+
+    parser.onopentag = (node) => {
+      const attributes = Object.entries(node.attributes as Record<string, string>)
+        .map(([name, value]) => ` ${name}="${this.escapeXml(value, true)}"`)
+        .join('');
+      xml += `<${node.name}${attributes}>`;
+      depth++;
+    };
+    parser.onclosetag = (name) => {
+      xml += `</${name}>`;
+      depth--;
+    };
+    parser.ontext = (text) => {
+      if (depth > 0) {
+        xml += this.escapeXml(text);
+      }
+    };
+    parser.oncdata = (text) => {
+      xml += `<![CDATA[${text.split(']]>').join(']]]]><![CDATA[>')}]]>`;
+    };
+    parser.onerror = (error) => {
+      throw error;
+    };
+
+    parser.write(content).close();
+    return xml;
+  }
+
+  // sax does not read the internal DTD subset - when the secure parsing profile allows a DOCTYPE (so the guard has
+  // capped how far they expand) the entities it declares are expanded, with the references in their values resolved
+  private declareEntities(parser: sax.SAXParser): void {
+    if (!this.options.security?.allowDoctype) {
+      return;
+    }
+
+    parser.ondoctype = (doctype) => {
+      const values = new Map<string, string>();
+      for (const [, name, doubleQuoted, singleQuoted] of doctype.matchAll(/<!ENTITY\s+([^\s%]\S*)\s+(?:"([^"]*)"|'([^']*)')/g)) {
+        // the first declaration of an entity is binding
+        if (!values.has(name)) {
+          values.set(name, doubleQuoted ?? singleQuoted ?? '');
         }
+      }
+
+      const resolved = new Map<string, string>();
+      const resolve = (name: string): string => {
+        const known = resolved.get(name);
+        if (known !== undefined) {
+          return known;
+        }
+        const value = (values.get(name) as string).replace(/&(#x[0-9a-fA-F]+|#\d+|[^\s&;<>"']+);/g, (reference, entity: string) => {
+          if (entity.startsWith('#')) {
+            return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1)));
+          }
+          return values.has(entity) ? resolve(entity) : parser.ENTITIES[entity] ?? reference;
+        });
+        resolved.set(name, value);
+        return value;
+      };
+      values.forEach((_value, name) => {
+        parser.ENTITIES[name] = resolve(name);
+      });
+    };
+  }
+
+  // sax errors, also those xml2js passes on, end their message with the 0-based line and the column the parser
+  // stopped at
+  private parseError(message: string, error: unknown, filePath: string): ParseError {
+    const position = error instanceof Error ? /Line: (\d+)\s+Column: (\d+)/.exec(error.message) : null;
+    return new ParseError('xml', message, position ? { line: Number(position[1]) + 1, column: Number(position[2]) } : {}, { filePath, cause: error });
+  }
+
+  // read the document up to the (maxRecords + 1)th child of the root, then close the root so the text stays well-formed
+  private readLeadingRecords(filePath: string, maxRecords: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const scanner = sax.parser(true);
+      const decoder = EncodingDetector.createDecodeStream(this.resolveEncoding(filePath));
+      const stream = fs.createReadStream(filePath);
+      let content = '';
+      let depth = 0;
+      let records = 0;
+      let rootName = '';
+      let cutAt = -1;
+      let stopped = false;
 
-        structure.elements.add(key);
-        structure.totalElements++;
+      const finish = (text: string) => {
+        stopped = true;
+        stream.destroy();
+        decoder.destroy();
+        resolve(text);
+      };
 
-        // check for namespaces
-        if (key.includes(':')) {
-          const namespace = key.split(':')[0];
-          if (!structure.namespaces.includes(namespace)) {
-            structure.namespaces.push(namespace);
+      scanner.onopentag = (node) => {
+        if (depth === 0) {
+          rootName = node.name;
+        } else if (depth === 1 && cutAt === -1) {
+          records++;
+          if (records > maxRecords) {
+            // startTagPosition is one past the '<' of the current tag
+            cutAt = scanner.startTagPosition - 1;
           }
         }
+        depth++;
+      };
+      scanner.onclosetag = () => {
+        depth--;
+      };
+      // malformed input is left for the real parser to report
+      scanner.onerror = () => {
+        cutAt = -1;
+        finish(content);
+      };
 
-        // check for attributes (usually prefixed with $ in xml2js)
-        if (key === '$' && typeof value === 'object' && value !== null) {
-          Object.keys(value as Record<string, any>).forEach(attr => structure.attributes.add(attr));
+      decoder.on('data', (chunk: string) => {
+        if (stopped) {
+          return;
         }
+        content += chunk;
+        scanner.write(chunk);
+        if (!stopped && cutAt !== -1) {
+          finish(`${content.slice(0, cutAt)}</${rootName}>`);
+        }
+      });
+      decoder.on('end', () => {
+        if (!stopped) {
+          finish(content);
+        }
+      });
+      pipeline(stream, decoder, (error) => {
+        if (error && !stopped) {
+          stopped = true;
+          reject(this.parseError(`XML processing error: ${error.message}`, error, filePath));
+        }
+      });
+    });
+  }
 
-        if (typeof value === 'object' && value !== null) {
-          const childStructure = this.analyzeStructure(
-            value, 
-            path ? `${path}.${key}` : key, 
-            depth + 1
-          );
-          
-          structure.totalElements += childStructure.totalElements;
-          structure.maxDepth = Math.max(structure.maxDepth, childStructure.maxDepth);
-          
-          childStructure.elements.forEach(el => structure.elements.add(el));
-          childStructure.attributes.forEach(attr => structure.attributes.add(attr));
-          childStructure.namespaces.forEach(ns => {
-            if (!structure.namespaces.includes(ns)) {
-              structure.namespaces.push(ns);
-            }
-          });
+  // element and attribute names resolved against the xmlns declarations in scope - the first declaration of a prefix
+  // is the one listed in namespaces, xmlns attributes themselves are not counted as attributes
+  private analyzeStructure(contentString: string): XmlStructureInfo {
+    const structure: XmlStructureInfo = {
+      rootElement: '',
+      totalElements: 0,
+      maxDepth: 0,
+      namespaces: {},
+      elements: new Set(),
+      elementCounts: {},
+      attributes: new Set()
+    };
+    const parser = sax.parser(true, { xmlns: true });
+    let depth = 0;
+
+    parser.onopentag = (node) => {
+      const tag = node as sax.QualifiedTag;
+      const name = this.expandedName(tag);
+      if (depth === 0) {
+        structure.rootElement = name;
+      }
+      structure.totalElements++;
+      structure.maxDepth = Math.max(structure.maxDepth, ++depth);
+      structure.elements.add(name);
+      structure.elementCounts[name] = (structure.elementCounts[name] || 0) + 1;
+
+      for (const attribute of Object.values(tag.attributes)) {
+        if (attribute.name === 'xmlns' || attribute.prefix === 'xmlns') {
+          const prefix = attribute.name === 'xmlns' ? '' : attribute.local;
+          if (attribute.value && !(prefix in structure.namespaces)) {
+            structure.namespaces[prefix] = attribute.value;
+          }
+        } else {
+          structure.attributes.add(this.expandedName(attribute));
         }
       }
-    }
+    };
+    parser.onclosetag = () => {
+      depth--;
+    };
+    // the document has been parsed already, what is left are unbound prefixes - those names stay as written
+    parser.onerror = () => {
+      parser.resume();
+    };
 
+    parser.write(contentString).close();
     return structure;
   }
 
+  // {uri}localName for a name in a namespace, the name as written for one that is not
+  private expandedName(name: sax.QualifiedName): string {
+    return name.uri ? `{${name.uri}}${name.local}` : name.name;
+  }
+
   private flattenElements(data: any, path: string = '', elements: XmlElement[] = []): XmlElement[] {
     if (typeof data === 'object' && data !== null) {
       for (const [key, value] of Object.entries(data)) {
@@ -397,6 +1231,37 @@ export class XmlProcessor {
     return { ...this.options };
   }
 
+  // the decoded file, checked against the secure parsing profile when one is set - its size before it is read
+  private readSecured(filePath: string): string {
+    const guard = this.options.security ? new XmlSecurityGuard(this.options.security) : undefined;
+    guard?.checkSize(fs.statSync(filePath).size);
+    const content = EncodingDetector.decode(fs.readFileSync(filePath), this.resolveEncoding(filePath));
+    guard?.checkString(content);
+    return content;
+  }
+
+  private resolveEncoding(filePath: string): string {
+    return EncodingDetector.resolveFileEncoding(filePath, this.options.encoding || 'utf8', true);
+  }
+
+  private describeSource(filePath: string): DatasetSource {
+    return DatasetBuilder.describeSource(filePath, this.fileType, {
+      encoding: this.resolveEncoding(filePath),
+      ...(this.options.recordPath ? { recordPath: this.options.recordPath } : {})
+    });
+  }
+
+  private assertFileReadable(filePath: string): void {
+    if (!fs.existsSync(filePath)) {
+      throw new FileNotFoundError(filePath);
+    }
+
+    const stats = fs.statSync(filePath);
+    if (stats.size === 0) {
+      throw new EmptyFileError(filePath);
+    }
+  }
+
   public getElementsPaths(filePath: string): Promise<string[]> {
     return this.processFile(filePath).then(result => {
       return result.elements.map(element => element.path);
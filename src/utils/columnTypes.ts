@@ -0,0 +1,158 @@
+export type ColumnType = 'integer' | 'decimal' | 'boolean' | 'date' | 'datetime' | 'string';
+
+export const COLUMN_TYPES: ColumnType[] = ['integer', 'decimal', 'boolean', 'date', 'datetime', 'string'];
+
+// inferred type of one column - nullable when at least one value was empty
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+}
+
+interface ColumnObservation {
+  values: number;
+  nulls: number;
+  integer: boolean;
+  decimal: boolean;
+  boolean: boolean;
+  date: boolean;
+  datetime: boolean;
+}
+
+export class ColumnTypeInferrer {
+  private static readonly INTEGER_PATTERN = /^[-+]?\d+$/;
+  private static readonly LEADING_ZERO_PATTERN = /^[-+]?0\d/;
+  private static readonly DECIMAL_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+  private static readonly BOOLEAN_VALUES = new Map<string, boolean>([['true', true], ['false', false], ['yes', true], ['no', false]]);
+  private static readonly DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+  private static readonly DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+  private columns = new Map<string, ColumnObservation>();
+
+  // record the values of one row - strings are classified, already typed values (numbers, booleans, dates) count as is
+  public observe(record: Record<string, any>): void {
+    for (const [name, value] of Object.entries(record)) {
+      let column = this.columns.get(name);
+      if (!column) {
+        column = { values: 0, nulls: 0, integer: true, decimal: true, boolean: true, date: true, datetime: true };
+        this.columns.set(name, column);
+      }
+
+      if (ColumnTypeInferrer.isEmpty(value)) {
+        column.nulls++;
+        continue;
+      }
+
+      column.values++;
+      column.integer = column.integer && ColumnTypeInferrer.isInteger(value);
+      column.decimal = column.decimal && ColumnTypeInferrer.isDecimal(value);
+      column.boolean = column.boolean && ColumnTypeInferrer.isBoolean(value);
+      column.date = column.date && ColumnTypeInferrer.isDate(value);
+      column.datetime = column.datetime && (ColumnTypeInferrer.isDate(value) || ColumnTypeInferrer.isDateTime(value));
+    }
+  }
+
+  // build the schema - columns keep the given order first, overrides replace the inferred type
+  public getSchema(overrides: Record<string, ColumnType> = {}, columnOrder: string[] = []): ColumnSchema[] {
+    const names = [...columnOrder, ...Array.from(this.columns.keys()).filter(name => !columnOrder.includes(name))];
+
+    return names.map(name => {
+      const column = this.columns.get(name);
+      return {
+        name,
+        type: overrides[name] || (column ? ColumnTypeInferrer.pickType(column) : 'string'),
+        nullable: column ? column.nulls > 0 || column.values === 0 : true
+      };
+    });
+  }
+
+  // convert the values of a record to the column types - values that do not fit their type are left untouched
+  public static convertRecord(record: Record<string, any>, schema: ColumnSchema[]): Record<string, any> {
+    const converted: Record<string, any> = { ...record };
+    for (const column of schema) {
+      if (column.name in converted) {
+        converted[column.name] = this.convertValue(converted[column.name], column.type);
+      }
+    }
+    return converted;
+  }
+
+  public static convertValue(value: any, type: ColumnType): any {
+    if (this.isEmpty(value)) {
+      return null;
+    }
+
+    switch (type) {
+      case 'integer':
+        return this.isInteger(value, false) ? Number(value) : value;
+      case 'decimal':
+        return this.isDecimal(value, false) ? Number(value) : value;
+      case 'boolean':
+        return this.isBoolean(value) ? this.BOOLEAN_VALUES.get(String(value).trim().toLowerCase()) : value;
+      case 'date':
+      case 'datetime':
+        return value instanceof Date ? value.toISOString() : String(value).trim();
+      default:
+        return typeof value === 'string' ? value : String(value);
+    }
+  }
+
+  public static isColumnType(value: string): value is ColumnType {
+    return (COLUMN_TYPES as string[]).includes(value);
+  }
+
+  // the narrowest type every observed value fits
+  private static pickType(column: ColumnObservation): ColumnType {
+    if (column.values === 0) return 'string';
+    if (column.boolean) return 'boolean';
+    if (column.integer) return 'integer';
+    if (column.decimal) return 'decimal';
+    if (column.date) return 'date';
+    if (column.datetime) return 'datetime';
+    return 'string';
+  }
+
+  // null, undefined and blank strings count as missing values
+  public static isEmpty(value: any): boolean {
+    return value === null || value === undefined || (typeof value === 'string' && value.trim().length === 0);
+  }
+
+  // when inferring, leading zeros (ZIP codes, IDs) keep a column a string - an explicit override still converts them;
+  // integers beyond double precision never convert
+  private static isInteger(value: any, strict: boolean = true): boolean {
+    if (typeof value === 'number') return Number.isSafeInteger(value);
+    if (typeof value !== 'string') return false;
+    const text = value.trim();
+    return this.INTEGER_PATTERN.test(text) && !(strict && this.LEADING_ZERO_PATTERN.test(text)) && Number.isSafeInteger(Number(text));
+  }
+
+  private static isDecimal(value: any, strict: boolean = true): boolean {
+    if (typeof value === 'number') return Number.isFinite(value);
+    if (typeof value !== 'string') return false;
+    const text = value.trim();
+    if (this.INTEGER_PATTERN.test(text)) {
+      return this.isInteger(text, strict);
+    }
+    return this.DECIMAL_PATTERN.test(text) && !(strict && this.LEADING_ZERO_PATTERN.test(text)) && Number.isFinite(Number(text));
+  }
+
+  private static isBoolean(value: any): boolean {
+    if (typeof value === 'boolean') return true;
+    return typeof value === 'string' && this.BOOLEAN_VALUES.has(value.trim().toLowerCase());
+  }
+
+  private static isDate(value: any): boolean {
+    if (typeof value !== 'string') return false;
+    const text = value.trim();
+    return this.DATE_PATTERN.test(text) && !Number.isNaN(Date.parse(text));
+  }
+
+  private static isDateTime(value: any): boolean {
+    if (value instanceof Date) return !Number.isNaN(value.getTime());
+    if (typeof value !== 'string') return false;
+    const text = value.trim();
+    return this.DATETIME_PATTERN.test(text) && !Number.isNaN(Date.parse(text.replace(' ', 'T')));
+  }
+}
+
+export default ColumnTypeInferrer;
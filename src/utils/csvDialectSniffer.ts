@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import CSVProcessor, { CSVProcessorOptions } from '../processors/csvProcessor';
+import CSVScanner, { CSVScanRecord } from './csvScanner';
+import EncodingDetector from './encodingDetector';
+import FileValidator from './fileValidator';
+
+export type CSVLineTerminator = '\n' | '\r\n' | '\r';
+
+// inferred CSV dialect - escape equals quote when quotes are escaped by doubling them
+export interface CSVDialect {
+  delimiter: string;
+  quote: string;
+  escape: string;
+  hasHeader: boolean;
+  lineTerminator: CSVLineTerminator;
+  confidence: number; // 0-1 scale
+}
+
+interface CandidateScore {
+  delimiter: string;
+  quote: string;
+  escape: string;
+  records: CSVScanRecord[];
+  columns: number;
+  consistency: number;
+  score: number;
+}
+
+export class CSVDialectSniffer {
+  private static readonly QUOTE_CHARACTERS = ['"', "'"];
+  private static readonly MAX_SAMPLE_SIZE = 65536; // 64KB sample for dialect analysis
+  private static readonly MAX_SAMPLE_RECORDS = 200;
+  private static readonly NUMERIC_PATTERN = /^[-+]?(\d+([.,]\d+)*|\.\d+)([eE][-+]?\d+)?$/;
+
+  public static readonly DEFAULT_DIALECT: CSVDialect = {
+    delimiter: ',',
+    quote: '"',
+    escape: '"',
+    hasHeader: true,
+    lineTerminator: '\n',
+    confidence: 0
+  };
+
+  // a processor for the dialect sniffed from the file - options given take precedence over what was sniffed
+  public static createProcessor(filePath: string, options: CSVProcessorOptions = {}): CSVProcessor {
+    const dialect = this.sniffFile(filePath, options.encoding || EncodingDetector.AUTO);
+    return new CSVProcessor({
+      encoding: EncodingDetector.AUTO,
+      delimiter: dialect.delimiter,
+      quote: dialect.quote,
+      escape: dialect.escape,
+      headers: dialect.hasHeader,
+      ...(dialect.lineTerminator === '\r' ? { newline: '\r' } : {}),
+      ...options
+    });
+  }
+
+  // sniff the dialect of a file from its first bytes - .tsv files prefer tab when candidates tie
+  public static sniffFile(filePath: string, encoding: string = EncodingDetector.AUTO): CSVDialect {
+    if (!fs.existsSync(filePath)) {
+      return { ...this.DEFAULT_DIALECT };
+    }
+
+    const fileSize = fs.statSync(filePath).size;
+    const sampleSize = Math.min(this.MAX_SAMPLE_SIZE, fileSize);
+    const buffer = Buffer.alloc(sampleSize);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, sampleSize, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const preferredDelimiter = path.extname(filePath).toLowerCase() === '.tsv' ? '\t' : undefined;
+    const sample = EncodingDetector.decode(buffer, EncodingDetector.resolveFileEncoding(filePath, encoding));
+    return this.sniff(sample, fileSize > sampleSize, preferredDelimiter);
+  }
+
+  // sniff the dialect of a text sample - pass truncated when the sample may end in the middle of a record
+  public static sniff(sample: string, truncated: boolean = false, preferredDelimiter?: string): CSVDialect {
+    const text = truncated ? this.dropPartialLine(sample) : sample;
+    if (text.trim().length === 0) {
+      return { ...this.DEFAULT_DIALECT };
+    }
+
+    const lineTerminator = this.detectLineTerminator(text);
+    const delimiters = preferredDelimiter
+      ? [preferredDelimiter, ...FileValidator.CSV_SEPARATORS.filter(sep => sep !== preferredDelimiter)]
+      : FileValidator.CSV_SEPARATORS;
+
+    let best: CandidateScore | null = null;
+    for (const delimiter of delimiters) {
+      for (const quote of this.QUOTE_CHARACTERS) {
+        const escape = this.detectEscape(text, quote);
+        const candidate = this.scoreCandidate(text, delimiter, quote, escape, lineTerminator);
+        // candidates are ordered by preference, so only a strictly better score wins
+        if (!best || candidate.score > best.score) {
+          best = candidate;
+        }
+      }
+    }
+
+    if (!best || best.columns < 2) {
+      return {
+        ...this.DEFAULT_DIALECT,
+        lineTerminator,
+        hasHeader: best ? this.detectHeader(best.records) : true,
+        confidence: 0.3
+      };
+    }
+
+    const sampleWeight = best.records.length >= 3 ? 1 : 0.7;
+
+    return {
+      delimiter: best.delimiter,
+      quote: best.quote,
+      escape: best.escape,
+      hasHeader: this.detectHeader(best.records),
+      lineTerminator,
+      confidence: Math.round(best.consistency * sampleWeight * 100) / 100
+    };
+  }
+
+  private static scoreCandidate(text: string, delimiter: string, quote: string, escape: string, lineTerminator: CSVLineTerminator): CandidateScore {
+    // the scanner only splits on \n, so old Mac line endings are normalized first
+    const content = lineTerminator === '\r' ? text.replace(/\r/g, '\n') : text;
+    const scanner = new CSVScanner({ delimiter, quote, escape });
+    const records: CSVScanRecord[] = [];
+    let issues = 0;
+
+    for (const record of scanner.records(content)) {
+      records.push(record);
+      issues += record.issues.length;
+      if (records.length >= this.MAX_SAMPLE_RECORDS) {
+        break;
+      }
+    }
+
+    const counts = new Map<number, number>();
+    records.forEach(record => counts.set(record.fields.length, (counts.get(record.fields.length) || 0) + 1));
+
+    let columns = 0;
+    let matching = 0;
+    counts.forEach((count, fieldCount) => {
+      if (count > matching || (count === matching && fieldCount > columns)) {
+        columns = fieldCount;
+        matching = count;
+      }
+    });
+
+    const consistency = records.length > 0 ? matching / records.length : 0;
+    const issuePenalty = records.length > 0 ? Math.min(issues / records.length, 1) : 1;
+    const score = columns > 1 ? consistency * (1 - issuePenalty / 2) : 0;
+
+    return { delimiter, quote, escape, records, columns, consistency, score };
+  }
+
+  private static detectLineTerminator(text: string): CSVLineTerminator {
+    const crlf = (text.match(/\r\n/g) || []).length;
+    const lf = (text.match(/\n/g) || []).length - crlf;
+    const cr = (text.match(/\r/g) || []).length - crlf;
+
+    if (crlf >= lf && crlf >= cr && crlf > 0) {
+      return '\r\n';
+    }
+    if (cr > lf) {
+      return '\r';
+    }
+    return '\n';
+  }
+
+  // backslash escaping is only assumed when it clearly outnumbers doubled quotes
+  private static detectEscape(text: string, quote: string): string {
+    const backslashEscapes = text.split(`\\${quote}`).length - 1;
+    const doubledQuotes = text.split(`${quote}${quote}`).length - 1;
+    return backslashEscapes > doubledQuotes ? '\\' : quote;
+  }
+
+  // compare the first record against the rest - numeric columns under a text cell point to a header
+  private static detectHeader(records: CSVScanRecord[]): boolean {
+    if (records.length < 2) {
+      return true;
+    }
+
+    const [header, ...rows] = records;
+    let votes = 0;
+
+    header.fields.forEach((headerValue, column) => {
+      const values = rows
+        .map(row => row.fields[column])
+        .filter((value): value is string => value !== undefined && value.trim().length > 0);
+      if (values.length === 0) {
+        return;
+      }
+
+      const headerNumeric = this.isNumeric(headerValue);
+      if (values.every(value => this.isNumeric(value))) {
+        votes += headerNumeric ? -1 : 1;
+      } else if (headerNumeric) {
+        votes--;
+      } else {
+        const lengths = new Set(values.map(value => value.length));
+        if (lengths.size === 1 && !lengths.has(headerValue.length)) {
+          votes++;
+        }
+      }
+    });
+
+    if (votes !== 0) {
+      return votes > 0;
+    }
+
+    // no signal from the data - distinct, non-empty names still look like a header
+    const names = header.fields.map(field => field.trim());
+    return names.every(name => name.length > 0) && new Set(names).size === names.length;
+  }
+
+  private static isNumeric(value: string): boolean {
+    return this.NUMERIC_PATTERN.test(value.trim());
+  }
+
+  private static dropPartialLine(sample: string): string {
+    const lastBreak = Math.max(sample.lastIndexOf('\n'), sample.lastIndexOf('\r'));
+    return lastBreak === -1 ? sample : sample.slice(0, lastBreak + 1);
+  }
+}
+
+export default CSVDialectSniffer;
@@ -0,0 +1,172 @@
+// options for the quote-aware CSV scanner
+export interface CSVScannerOptions {
+  delimiter?: string;
+  quote?: string;
+  escape?: string;
+}
+
+export type CSVIssueSeverity = 'error' | 'warning';
+
+// problem found while scanning a record - line and column are 1-based
+export interface CSVScanIssue {
+  line: number;
+  column: number;
+  raw: string;
+  severity: CSVIssueSeverity;
+  message: string;
+}
+
+// one logical CSV record - a quoted field may make it span several physical lines
+export interface CSVScanRecord {
+  line: number;
+  fields: string[];
+  raw: string;
+  issues: CSVScanIssue[];
+}
+
+export class CSVScanner {
+  private static readonly MAX_RAW_LENGTH = 200;
+
+  private options: Required<CSVScannerOptions>;
+
+  constructor(options: CSVScannerOptions = {}) {
+    const quote = options.quote || '"';
+    this.options = {
+      delimiter: options.delimiter || ',',
+      quote,
+      // quotes are escaped by doubling them unless another escape character is given
+      escape: options.escape || quote
+    };
+  }
+
+  // split content into records following RFC 4180 - quoted fields may hold delimiters, line breaks and doubled (or escaped) quotes
+  public *records(content: string): Generator<CSVScanRecord> {
+    const { delimiter, quote, escape } = this.options;
+
+    let line = 1;
+    let recordLine = 1;
+    let recordStart = 0;
+    let fieldStart = 0;
+    let fields: string[] = [];
+    let issues: CSVScanIssue[] = [];
+    let value = '';
+    let inQuotes = false;
+    let wasQuoted = false;
+    let quoteLine = 1;
+    let trailingTextReported = false;
+
+    const endField = () => {
+      fields.push(value);
+      value = '';
+      wasQuoted = false;
+      trailingTextReported = false;
+    };
+
+    const addIssue = (severity: CSVIssueSeverity, message: string, end: number) => {
+      issues.push({
+        line,
+        column: fields.length + 1,
+        raw: this.truncate(content.slice(fieldStart, end)),
+        severity,
+        message
+      });
+    };
+
+    const endRecord = (end: number): CSVScanRecord | null => {
+      const raw = content.slice(recordStart, end);
+      const record = { line: recordLine, fields, raw: this.truncate(raw), issues };
+      fields = [];
+      issues = [];
+      // blank lines carry no record
+      return raw.trim().length === 0 ? null : record;
+    };
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === escape && escape !== quote && content[i + 1] === quote) {
+          value += quote;
+          i++;
+          continue;
+        }
+        if (char === quote) {
+          if (content[i + 1] === quote) {
+            value += quote;
+            i++;
+          } else {
+            inQuotes = false;
+          }
+          continue;
+        }
+        if (char === '\n') {
+          line++;
+        }
+        value += char;
+        continue;
+      }
+
+      if (char === delimiter) {
+        endField();
+        fieldStart = i + 1;
+        continue;
+      }
+
+      if (char === '\n' || (char === '\r' && content[i + 1] === '\n')) {
+        const end = i;
+        if (char === '\r') {
+          i++;
+        }
+        endField();
+        const record = endRecord(end);
+        if (record) {
+          yield record;
+        }
+        line++;
+        recordLine = line;
+        recordStart = i + 1;
+        fieldStart = i + 1;
+        continue;
+      }
+
+      if (char === quote) {
+        if (i === fieldStart) {
+          inQuotes = true;
+          wasQuoted = true;
+          quoteLine = line;
+          continue;
+        }
+        addIssue('warning', 'Unescaped quote inside field', i + 1);
+      } else if (wasQuoted && !trailingTextReported) {
+        addIssue('warning', 'Unexpected text after closing quote', i + 1);
+        trailingTextReported = true;
+      }
+
+      value += char;
+    }
+
+    if (inQuotes) {
+      issues.push({
+        line: quoteLine,
+        column: fields.length + 1,
+        raw: this.truncate(content.slice(fieldStart)),
+        severity: 'error',
+        message: 'Quoted field is never closed'
+      });
+    }
+
+    if (recordStart < content.length) {
+      endField();
+      const record = endRecord(content.length);
+      if (record) {
+        yield record;
+      }
+    }
+  }
+
+  private truncate(raw: string): string {
+    return raw.length > CSVScanner.MAX_RAW_LENGTH ? `${raw.slice(0, CSVScanner.MAX_RAW_LENGTH)}...` : raw;
+  }
+}
+
+export default CSVScanner;
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as iconv from 'iconv-lite';
+import { Transform } from 'stream';
+import { UnsupportedEncodingError } from './errors';
+
+// result of encoding detection - encoding is a label understood by iconv-lite
+export interface EncodingDetectionResult {
+  encoding: string;
+  confidence: number; // 0-1 scale
+  hasBOM: boolean;
+  reasons: string[];
+}
+
+export class EncodingDetector {
+  public static readonly AUTO = 'auto';
+
+  private static readonly MAX_SAMPLE_SIZE = 65536; // 64KB sample for encoding analysis
+
+  private static readonly BYTE_ORDER_MARKS: { encoding: string; bytes: number[] }[] = [
+    { encoding: 'utf-8', bytes: [0xEF, 0xBB, 0xBF] },
+    { encoding: 'utf-16le', bytes: [0xFF, 0xFE] },
+    { encoding: 'utf-16be', bytes: [0xFE, 0xFF] }
+  ];
+
+
+  // detect the encoding of a file from its first bytes
+  public static detectFile(filePath: string): EncodingDetectionResult {
+    return this.detect(this.readSample(filePath));
+  }
+
+  // detect the encoding of a byte sample - BOM first, then UTF-16 zero-byte patterns, UTF-8 validity, Shift-JIS pairs
+  public static detect(sample: Buffer): EncodingDetectionResult {
+    const bom = this.detectBOM(sample);
+    if (bom) {
+      return { encoding: bom, confidence: 1, hasBOM: true, reasons: [`Byte order mark for ${bom}`] };
+    }
+
+    if (sample.length === 0) {
+      return { encoding: 'utf-8', confidence: 0, hasBOM: false, reasons: ['Empty sample'] };
+    }
+
+    const utf16 = this.detectUTF16(sample);
+    if (utf16) {
+      return { encoding: utf16, confidence: 0.8, hasBOM: false, reasons: ['Zero bytes alternate like UTF-16 text'] };
+    }
+
+    const highBytes = sample.filter(byte => byte >= 0x80).length;
+    if (highBytes === 0) {
+      return { encoding: 'utf-8', confidence: 1, hasBOM: false, reasons: ['Only ASCII bytes found'] };
+    }
+
+    if (this.canDecode(sample, 'utf-8')) {
+      return { encoding: 'utf-8', confidence: 0.95, hasBOM: false, reasons: ['Multi-byte sequences are valid UTF-8'] };
+    }
+
+    if (this.canDecode(sample, 'shift_jis') && this.shiftJISLeadRatio(sample) > 0.5) {
+      return { encoding: 'shift_jis', confidence: 0.7, hasBOM: false, reasons: ['Byte pairs match Shift-JIS double-byte characters'] };
+    }
+
+    return { encoding: 'windows-1252', confidence: 0.6, hasBOM: false, reasons: ['Invalid UTF-8, assuming single-byte Windows-1252'] };
+  }
+
+  // return the encoding announced by a byte order mark, if any
+  public static detectBOM(sample: Buffer): string | null {
+    const match = this.BYTE_ORDER_MARKS.find(({ bytes }) => bytes.every((byte, index) => sample[index] === byte));
+    return match ? match.encoding : null;
+  }
+
+  // resolve the encoding to decode a file with - a BOM always wins, then (for XML) the declared encoding,
+  // and 'auto' falls back to heuristic detection
+  public static resolveFileEncoding(filePath: string, encoding: string = this.AUTO, honorXmlDeclaration: boolean = false): string {
+    const sample = this.readSample(filePath);
+    const bom = this.detectBOM(sample);
+    if (bom) {
+      return bom;
+    }
+
+    if (honorXmlDeclaration) {
+      const declared = this.detectXmlDeclaration(sample);
+      if (declared) {
+        return declared;
+      }
+    }
+
+    return encoding === this.AUTO ? this.detect(sample).encoding : this.normalize(encoding);
+  }
+
+  // read the encoding attribute of an XML declaration - UTF-16 without BOM is recognised by its zero bytes instead
+  public static detectXmlDeclaration(sample: Buffer): string | null {
+    const utf16 = this.detectUTF16(sample);
+    if (utf16) {
+      return iconv.decode(sample.subarray(0, 200), utf16).trimStart().startsWith('<?xml') ? utf16 : null;
+    }
+
+    const head = sample.subarray(0, 200).toString('latin1');
+    const match = head.match(/^\s*<\?xml[^>]*?\sencoding\s*=\s*["']([A-Za-z0-9._-]+)["']/);
+    return match && this.isSupported(match[1]) ? this.normalize(match[1]) : null;
+  }
+
+  // normalize an encoding label and reject labels iconv-lite does not know
+  public static normalize(encoding: string): string {
+    const label = encoding.trim().toLowerCase();
+
+    if (!this.isSupported(label)) {
+      throw new UnsupportedEncodingError(encoding);
+    }
+
+    return label;
+  }
+
+  public static isSupported(encoding: string): boolean {
+    return iconv.encodingExists(encoding);
+  }
+
+  // decode a whole buffer to a string - the BOM is stripped
+  public static decode(buffer: Buffer, encoding: string): string {
+    return iconv.decode(buffer, this.normalize(encoding));
+  }
+
+  // create a transform stream that turns raw bytes into strings - multi-byte characters split across chunks are kept intact
+  public static createDecodeStream(encoding: string): Transform {
+    const decoder = iconv.getDecoder(this.normalize(encoding));
+
+    return new Transform({
+      decodeStrings: true,
+      transform(chunk: Buffer, _encoding, callback) {
+        const text = decoder.write(chunk);
+        callback(null, text.length > 0 ? text : undefined);
+      },
+      flush(callback) {
+        const text = decoder.end();
+        callback(null, text && text.length > 0 ? text : undefined);
+      }
+    });
+  }
+
+  private static readSample(filePath: string): Buffer {
+    const fileSize = fs.statSync(filePath).size;
+    const sampleSize = Math.min(this.MAX_SAMPLE_SIZE, fileSize);
+    const buffer = Buffer.alloc(sampleSize);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, sampleSize, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+    return buffer;
+  }
+
+  // strict TextDecoder check - streaming decode tolerates a multi-byte character cut off at the end of the sample
+  private static canDecode(sample: Buffer, encoding: string): boolean {
+    try {
+      new TextDecoder(encoding, { fatal: true }).decode(sample, { stream: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // ASCII text stored as UTF-16 has a zero in every other byte
+  private static detectUTF16(sample: Buffer): string | null {
+    const pairs = Math.floor(sample.length / 2);
+    if (pairs < 2) {
+      return null;
+    }
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+      if (sample[i] === 0) evenZeros++;
+      if (sample[i + 1] === 0) oddZeros++;
+    }
+
+    if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+      return 'utf-16le';
+    }
+    if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+      return 'utf-16be';
+    }
+    return null;
+  }
+
+  // share of high-byte characters that look like Japanese double-byte pairs - Windows-1252 punctuation in the
+  // 0x80-0x9F range also forms valid pairs, but sits alone between ASCII letters instead of in runs
+  private static shiftJISLeadRatio(sample: Buffer): number {
+    let characters = 0;
+    let evidence = 0;
+    let previousPairEnd = -1;
+
+    for (let i = 0; i < sample.length; i++) {
+      const byte = sample[i];
+      if (byte < 0x80) {
+        continue;
+      }
+      characters++;
+
+      const next = sample[i + 1];
+      const isLead = (byte >= 0x81 && byte <= 0x9F) || (byte >= 0xE0 && byte <= 0xEF);
+      if (!isLead || next === undefined || next < 0x40 || next > 0xFC || next === 0x7F) {
+        continue;
+      }
+
+      const inRun = previousPairEnd === i - 1 || (sample[i + 2] !== undefined && sample[i + 2] >= 0x81);
+      if (byte <= 0x9F && (next >= 0x80 || inRun)) {
+        evidence++;
+      }
+      previousPairEnd = i + 1;
+      i++;
+    }
+
+    return characters > 0 ? evidence / characters : 0;
+  }
+}
+
+export default EncodingDetector;
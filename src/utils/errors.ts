@@ -0,0 +1,120 @@
+// stable codes of the errors the processors throw - callers branch on these rather than on messages
+export type FileProcessorErrorCode =
+  | 'FILE_NOT_FOUND'
+  | 'EMPTY_FILE'
+  | 'PARSE_ERROR'
+  | 'SHEET_NOT_FOUND'
+  | 'UNSUPPORTED_FORMAT'
+  | 'UNSUPPORTED_ENCODING'
+  | 'XML_SECURITY';
+
+// filePath is the file being read when there is one, cause the error this one was raised from (a parser's own error)
+export interface FileProcessorErrorOptions {
+  filePath?: string;
+  cause?: unknown;
+}
+
+// where in a file a parse error was found - line and column are 1-based, record is the 1-based record, row or line
+// number of formats read record by record
+export interface ParseErrorLocation {
+  line?: number;
+  column?: number;
+  record?: number;
+}
+
+// base of every error the processors throw on purpose - anything else reaching a caller is a bug or a system error
+export class FileProcessorError extends Error {
+  public readonly code: FileProcessorErrorCode;
+  public readonly filePath?: string;
+  public readonly cause?: unknown;
+
+  constructor(code: FileProcessorErrorCode, message: string, options: FileProcessorErrorOptions = {}) {
+    super(message);
+    this.name = 'FileProcessorError';
+    this.code = code;
+    if (options.filePath !== undefined) {
+      this.filePath = options.filePath;
+    }
+    if (options.cause !== undefined) {
+      this.cause = options.cause;
+    }
+  }
+}
+
+// label names what kind of file is missing in the message ('Schema file'), 'File' when not given
+export class FileNotFoundError extends FileProcessorError {
+  constructor(filePath: string, { label = 'File', ...options }: FileProcessorErrorOptions & { label?: string } = {}) {
+    super('FILE_NOT_FOUND', `${label} not found: ${filePath}`, { ...options, filePath });
+    this.name = 'FileNotFoundError';
+  }
+}
+
+export class EmptyFileError extends FileProcessorError {
+  constructor(filePath: string, options: FileProcessorErrorOptions = {}) {
+    super('EMPTY_FILE', `File is empty: ${filePath}`, { ...options, filePath });
+    this.name = 'EmptyFileError';
+  }
+}
+
+// content a processor could not read - format is the format it was read as ('csv', 'xml' or a plugin's name); the
+// location fields are set when the parser reported where it stopped
+export class ParseError extends FileProcessorError {
+  public readonly format: string;
+  public readonly line?: number;
+  public readonly column?: number;
+  public readonly record?: number;
+
+  constructor(format: string, message: string, location: ParseErrorLocation = {}, options: FileProcessorErrorOptions = {}) {
+    super('PARSE_ERROR', message, options);
+    this.name = 'ParseError';
+    this.format = format;
+    if (location.line !== undefined) {
+      this.line = location.line;
+    }
+    if (location.column !== undefined) {
+      this.column = location.column;
+    }
+    if (location.record !== undefined) {
+      this.record = location.record;
+    }
+  }
+}
+
+// sheet is the name or 0-based index asked for, sheets the names the workbook has
+export class SheetNotFoundError extends FileProcessorError {
+  public readonly sheet: string | number;
+  public readonly sheets: string[];
+
+  constructor(sheet: string | number, sheets: string[], options: FileProcessorErrorOptions = {}) {
+    super('SHEET_NOT_FOUND', typeof sheet === 'number' ? `Sheet index ${sheet} not found` : `Sheet "${sheet}" not found`, options);
+    this.name = 'SheetNotFoundError';
+    this.sheet = sheet;
+    this.sheets = sheets;
+  }
+}
+
+// a file no registered format reads, or a format name nothing is registered under - format is that name, when given
+export class UnsupportedFormatError extends FileProcessorError {
+  public readonly format?: string;
+
+  constructor(message: string, options: FileProcessorErrorOptions & { format?: string } = {}) {
+    super('UNSUPPORTED_FORMAT', message, options);
+    this.name = 'UnsupportedFormatError';
+    if (options.format !== undefined) {
+      this.format = options.format;
+    }
+  }
+}
+
+// an encoding label iconv-lite does not know - encoding is the label as given
+export class UnsupportedEncodingError extends FileProcessorError {
+  public readonly encoding: string;
+
+  constructor(encoding: string, options: FileProcessorErrorOptions = {}) {
+    super('UNSUPPORTED_ENCODING', `Unsupported encoding: ${encoding}`, options);
+    this.name = 'UnsupportedEncodingError';
+    this.encoding = encoding;
+  }
+}
+
+export default FileProcessorError;
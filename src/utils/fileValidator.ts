@@ -1,9 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import EncodingDetector from './encodingDetector';
+import { EmptyFileError, FileNotFoundError, UnsupportedFormatError } from './errors';
+import FormatRegistry, { FileType, FormatSample, InputFormat } from './formatRegistry';
+import MagicByteDetector, { MagicByteMatch } from './magicByteDetector';
 
+// fileType is a FileType or the name of a plugin format
 export interface FileValidationResult {
   isValid: boolean;
-  fileType: FileType | null;
+  fileType: string | null;
   errors: string[];
   warnings: string[];
   fileInfo: {
@@ -14,24 +19,22 @@ export interface FileValidationResult {
   };
 }
 
-export enum FileType {
-  CSV = 'csv',
-  EXCEL = 'excel', 
-  XML = 'xml'
-}
+export { FileType };
 
+// detectedType is a FileType or the name of a plugin format - signature is the format the file's bytes were
+// recognised as, a binary format no registered format reads leaves detectedType null, however the file is named
 export interface FileTypeDetectionResult {
-  detectedType: FileType | null;
+  detectedType: string | null;
   confidence: number; // 0-1 scale
   reasons: string[];
+  signature?: MagicByteMatch;
 }
 
 export class FileValidator {
-  private static readonly CSV_EXTENSIONS = ['.csv', '.tsv', '.txt'];
-  private static readonly EXCEL_EXTENSIONS = ['.xlsx', '.xls', '.xlsm', '.xlsb'];
-  private static readonly XML_EXTENSIONS = ['.xml', '.xsd', '.xsl', '.xslt', '.rss', '.atom', '.svg'];
-  
-  private static readonly CSV_SEPARATORS = [',', ';', '\t', '|'];
+  // the formats files are detected as - plugins register theirs here
+  public static readonly formats = FormatRegistry.createDefault();
+
+  public static readonly CSV_SEPARATORS = FormatRegistry.CSV_SEPARATORS;
   private static readonly MAX_SAMPLE_SIZE = 8192; // 8KB sample for content analysis
 
   public static validateFile(filePath: string): FileValidationResult {
@@ -84,9 +87,17 @@ export class FileValidator {
         result.warnings.push('File is very large (>100MB), processing might be slow');
       }
 
+      // a binary format no registered format reads
+      if (!result.fileType && detection.signature && detection.signature.binary) {
+        result.errors.push(`Unsupported file format: the content is ${detection.signature.description}`
+          + (detection.signature.format === 'gzip' ? ', decompress it first' : ''));
+        result.isValid = false;
+        return result;
+      }
+
       // no valid file type detected
       if (!result.fileType) {
-        result.errors.push('Unable to determine file type. Supported types: CSV, Excel (.xlsx, .xls), XML');
+        result.errors.push(`Unable to determine file type. Supported types: ${this.formats.getFormats().map(format => format.label).join(', ')}`);
         result.isValid = false;
       }
 
@@ -111,18 +122,24 @@ export class FileValidator {
       
       // read file sample for content analysis
       let contentSample = '';
+      let signature: MagicByteMatch | null = null;
       if (fs.existsSync(filePath)) {
         const fileSize = fs.statSync(filePath).size;
         const sampleSize = Math.min(this.MAX_SAMPLE_SIZE, fileSize);
         
         try {
-          const buffer = Buffer.alloc(sampleSize);
-          const fd = fs.openSync(filePath, 'r');
-          try {
-            fs.readSync(fd, buffer, 0, sampleSize, 0);
-            contentSample = buffer.toString('utf8');
-          } finally {
-            fs.closeSync(fd);
+          // binary formats are recognised by their raw bytes, before anything is decoded
+          signature = MagicByteDetector.detectFile(filePath);
+          if (!signature || !signature.binary) {
+            const buffer = Buffer.alloc(sampleSize);
+            const fd = fs.openSync(filePath, 'r');
+            try {
+              fs.readSync(fd, buffer, 0, sampleSize, 0);
+              // UTF-16 text would hide its separators and tags behind zero bytes
+              contentSample = signature ? EncodingDetector.decode(buffer, signature.format) : buffer.toString('utf8');
+            } finally {
+              fs.closeSync(fd);
+            }
           }
         } catch (error) {
           // If file reading fails, continue without content analysis
@@ -130,42 +147,59 @@ export class FileValidator {
         }
       }
 
-      // detection strategies
-      const extensionScore = this.scoreByExtension(extension);
-      const contentScore = this.scoreByContent(contentSample);
-      const filenameScore = this.scoreByFilename(fileName);
-
-      // combine scores and determine best match
-      const csvScore = extensionScore.csv + contentScore.csv + filenameScore.csv;
-      const excelScore = extensionScore.excel + contentScore.excel + filenameScore.excel;
-      const xmlScore = extensionScore.xml + contentScore.xml + filenameScore.xml;
+      const formats = this.formats.getFormats();
+      const contentScore = this.scoreByContent(formats, { fileName, extension, text: contentSample, signature });
+
+      if (signature) {
+        result.signature = signature;
+        result.reasons.push(`Content is ${signature.description}: ${signature.reasons.join(', ')}`);
+        if (signature.binary) {
+          // a workbook is one whatever its name says
+          const certain = formats.find(format => contentScore.get(format.name) === 1);
+          if (certain) {
+            result.detectedType = certain.name;
+            result.confidence = 1;
+            result.reasons.push(`${certain.label} indicators found`);
+            return result;
+          }
+          // reported as it is, rather than scored as text
+          if (!Array.from(contentScore.values()).some(score => score > 0)) {
+            result.confidence = 1;
+            result.reasons.push(`${signature.description} is not a supported format`);
+            return result;
+          }
+        }
+      }
 
-      const maxScore = Math.max(csvScore, excelScore, xmlScore);
-      
-      if (maxScore > 0) {
-        if (csvScore === maxScore) {
-          result.detectedType = FileType.CSV;
-          result.confidence = Math.min(csvScore / 3, 1); // Max 3 points
-          result.reasons.push('CSV indicators found');
-        } else if (excelScore === maxScore) {
-          result.detectedType = FileType.EXCEL;
-          result.confidence = Math.min(excelScore / 3, 1);
-          result.reasons.push('Excel indicators found');
-        } else {
-          result.detectedType = FileType.XML;
-          result.confidence = Math.min(xmlScore / 3, 1);
-          result.reasons.push('XML indicators found');
+      // combine extension, content and filename scores - ties go to the format registered first
+      const scores = formats.map(format => ({
+        format,
+        extension: format.extensions.includes(extension) ? 1 : 0,
+        content: contentScore.get(format.name) || 0,
+        filename: (format.filenameHints || []).some(hint => fileName.includes(hint)) ? 0.3 : 0
+      }));
+      const total = (score: typeof scores[number]) => score.extension + score.content + score.filename;
+      const best = scores.reduce((leader, score) => total(score) > total(leader) ? score : leader, scores[0]);
+
+      if (best && total(best) > 0) {
+        const type = best.format.name;
+        result.detectedType = type;
+        // max 3 points for formats with filename hints, 2 for the others
+        result.confidence = Math.min(total(best) / (best.format.filenameHints ? 3 : 2), 1);
+        // the content only has indicators of the format when one of its sniffers found some
+        if (best.content > 0) {
+          result.reasons.push(`${best.format.label} indicators found`);
         }
 
         // add specific reasons
-        if (extensionScore[result.detectedType] > 0) {
-          result.reasons.push(`File extension matches ${result.detectedType.toUpperCase()}`);
+        if (best.extension > 0) {
+          result.reasons.push(`File extension matches ${type.toUpperCase()}`);
         }
-        if (contentScore[result.detectedType] > 0) {
-          result.reasons.push(`File content matches ${result.detectedType.toUpperCase()} format`);
+        if (best.content > 0) {
+          result.reasons.push(`File content matches ${type.toUpperCase()} format`);
         }
-        if (filenameScore[result.detectedType] > 0) {
-          result.reasons.push(`Filename suggests ${result.detectedType.toUpperCase()} format`);
+        if (best.filename > 0) {
+          result.reasons.push(`Filename suggests ${type.toUpperCase()} format`);
         }
       }
 
@@ -176,104 +210,36 @@ export class FileValidator {
     return result;
   }
 
-  private static scoreByExtension(extension: string): Record<string, number> {
-    const scores = { csv: 0, excel: 0, xml: 0 };
+  // the highest score of each format's sniffers - fallback formats are only sniffed when no other format scored
+  private static scoreByContent(formats: InputFormat[], sample: FormatSample): Map<string, number> {
+    const sniff = (format: InputFormat) => Math.max(0, ...format.sniffers.map(sniffer => sniffer(sample)));
+    const scores = new Map<string, number>(formats.map(format => [format.name, format.fallback ? 0 : sniff(format)]));
 
-    if (this.CSV_EXTENSIONS.includes(extension)) {
-      scores.csv = 1;
-    } else if (this.EXCEL_EXTENSIONS.includes(extension)) {
-      scores.excel = 1;
-    } else if (this.XML_EXTENSIONS.includes(extension)) {
-      scores.xml = 1;
+    if (!Array.from(scores.values()).some(score => score > 0)) {
+      formats.filter(format => format.fallback).forEach(format => scores.set(format.name, sniff(format)));
     }
 
     return scores;
   }
 
-  private static scoreByContent(content: string): Record<string, number> {
-    const scores = { csv: 0, excel: 0, xml: 0 };
-    
-    if (!content || content.length === 0) {
-      return scores;
+  // the type of a file that can be read - throws FileNotFoundError, EmptyFileError or an UnsupportedFormatError with
+  // the reasons validateFile() gives
+  public static requireFileType(filePath: string): string {
+    if (!fs.existsSync(filePath)) {
+      throw new FileNotFoundError(filePath);
     }
-
-    // XML detection
-    const trimmedContent = content.trim();
-    if (trimmedContent.startsWith('<?xml') || trimmedContent.startsWith('<')) {
-      // check for XML structure
-      const xmlTagCount = (content.match(/<[^>]+>/g) || []).length;
-      const xmlClosingTagCount = (content.match(/<\/[^>]+>/g) || []).length;
-      
-      if (xmlTagCount > 0 && xmlClosingTagCount > 0) {
-        scores.xml = 1;
-      } else if (xmlTagCount > 0) {
-        scores.xml = 0.7;
-      }
+    if (fs.statSync(filePath).size === 0) {
+      throw new EmptyFileError(filePath);
     }
 
-    // excel detection (binary signatures)
-    const bytes = Buffer.from(content, 'utf8');
-    if (bytes.length >= 8) {
-      // xlsx signature (ZIP-based)
-      if (bytes[0] === 0x50 && bytes[1] === 0x4B) {
-        scores.excel = 1;
-      }
-      // XLS signature (OLE-based)
-      else if (bytes[0] === 0xD0 && bytes[1] === 0xCF && bytes[2] === 0x11 && bytes[3] === 0xE0) {
-        scores.excel = 1;
-      }
-    }
-
-    // CSV detection
-    if (scores.xml === 0 && scores.excel === 0) {
-      // check for CSV-like patterns
-      const lines = content.split('\n').slice(0, 10); // check first 10 lines
-      let csvIndicators = 0;
-      
-      for (const line of lines) {
-        if (line.trim().length === 0) continue;
-        
-        // check for common separators
-        for (const sep of this.CSV_SEPARATORS) {
-          if (line.includes(sep)) {
-            csvIndicators++;
-            break;
-          }
-        }
-      }
-      
-      // at least 50% of lines have separators
-      if (csvIndicators >= lines.length * 0.5) { 
-        scores.csv = 1;
-      } else if (csvIndicators > 0) {
-        scores.csv = 0.5;
-      }
-    }
-
-    return scores;
-  }
-
-  private static scoreByFilename(filename: string): Record<string, number> {
-    const scores = { csv: 0, excel: 0, xml: 0 };
-
-    // CSV filename patterns
-    if (filename.includes('csv') || filename.includes('data') || filename.includes('export')) {
-      scores.csv = 0.3;
-    }
-
-    // Excel filename patterns  
-    if (filename.includes('xlsx') || filename.includes('xls') || filename.includes('spreadsheet') || filename.includes('workbook')) {
-      scores.excel = 0.3;
-    }
-
-    // XML filename patterns
-    if (filename.includes('xml') || filename.includes('config') || filename.includes('feed') || filename.includes('rss')) {
-      scores.xml = 0.3;
+    const validation = this.validateFile(filePath);
+    if (!validation.isValid || !validation.fileType) {
+      throw new UnsupportedFormatError(validation.errors.length > 0 ? validation.errors.join('; ') : `Unsupported file type: ${filePath}`, { filePath });
     }
-
-    return scores;
+    return validation.fileType;
   }
 
+  // the processor name of the file's format - plugin formats without one are named by their label
   public static getProcessorForFile(filePath: string): string | null {
     const validation = this.validateFile(filePath);
     
@@ -281,24 +247,13 @@ export class FileValidator {
       return null;
     }
 
-    switch (validation.fileType) {
-      case FileType.CSV:
-        return 'CSVProcessor';
-      case FileType.EXCEL:
-        return 'ExcelProcessor';
-      case FileType.XML:
-        return 'XmlProcessor';
-      default:
-        return null;
-    }
+    const format = this.formats.get(validation.fileType);
+    return format ? format.processorName || format.label : null;
   }
 
-  public static getSupportedExtensions(): { [key in FileType]: string[] } {
-    return {
-      [FileType.CSV]: this.CSV_EXTENSIONS,
-      [FileType.EXCEL]: this.EXCEL_EXTENSIONS,
-      [FileType.XML]: this.XML_EXTENSIONS
-    };
+  // extensions of every registered format, by format name
+  public static getSupportedExtensions(): Record<string, string[]> {
+    return Object.fromEntries(this.formats.getFormats().map(format => [format.name, format.extensions]));
   }
 
   public static isFileTypeSupported(filePath: string): boolean {
@@ -0,0 +1,232 @@
+import * as path from 'path';
+import CSVProcessor from '../processors/csvProcessor';
+import ExcelProcessor from '../processors/excelProcessor';
+import { FileProcessor } from '../processors/fileProcessor';
+import JSONProcessor from '../processors/jsonProcessor';
+import NDJSONProcessor from '../processors/ndjsonProcessor';
+import XmlProcessor from '../processors/xmlProcessor';
+import { OutputFormat } from '../writers/writerRegistry';
+import { MagicByteMatch } from './magicByteDetector';
+
+// names of the built-in input formats - plugin formats bring their own
+export enum FileType {
+  CSV = 'csv',
+  EXCEL = 'excel',
+  XML = 'xml',
+  JSON = 'json',
+  NDJSON = 'ndjson'
+}
+
+// what sniffers look at - the lower-cased file name and extension, the decoded start of the file (empty for binary
+// content) and the format its bytes were recognised as
+export interface FormatSample {
+  fileName: string;
+  extension: string;
+  text: string;
+  signature: MagicByteMatch | null;
+}
+
+// how much a sample looks like the format, from 0 (not at all) to 1 (certainly)
+export type FormatSniffer = (sample: FormatSample) => number;
+
+// command line settings for the processor factories - each format reads the ones it understands (encoding, sheet,
+// record)
+export type FormatProcessorOptions = Record<string, any>;
+
+// a format files are read in - extension and content sniffers decide detection, filenameHints add a little when the
+// file name contains one of them; a fallback format is only sniffed when no other format recognised the content (CSV,
+// which most text would pass for). Plugin processors extend BaseFileProcessor, which only needs stream(); writer, when
+// given, is added to the output formats of the CLI
+export interface InputFormat {
+  name: string;
+  label: string;
+  extensions: string[];
+  filenameHints?: string[];
+  sniffers: FormatSniffer[];
+  fallback?: boolean;
+  processorName?: string;
+  createProcessor(options?: FormatProcessorOptions): FileProcessor;
+  writer?: OutputFormat;
+}
+
+export class FormatRegistry {
+  public static readonly CSV_SEPARATORS = [',', ';', '\t', '|'];
+  // binary formats the Excel processor reads - an OLE2 file of no known kind is most likely an old workbook
+  private static readonly EXCEL_SIGNATURES: Record<string, number> = { xlsx: 1, xls: 1, ole: 0.5 };
+
+  private formats = new Map<string, InputFormat>();
+
+  // a registry with every built-in format - when scores tie, the format registered first wins
+  public static createDefault(): FormatRegistry {
+    return new FormatRegistry()
+      .register({
+        name: FileType.CSV,
+        label: 'CSV',
+        extensions: ['.csv', '.tsv', '.txt'],
+        filenameHints: ['csv', 'data', 'export'],
+        sniffers: [({ text }) => this.sniffCSV(text)],
+        fallback: true,
+        processorName: 'CSVProcessor',
+        // the default dialect - the CLI and RecordExtractor sniff it from the file first
+        createProcessor: (options = {}) => new CSVProcessor(options.encoding ? { encoding: options.encoding } : {})
+      })
+      .register({
+        name: FileType.EXCEL,
+        label: 'Excel',
+        extensions: ['.xlsx', '.xls', '.xlsm', '.xlsb'],
+        filenameHints: ['xlsx', 'xls', 'spreadsheet', 'workbook'],
+        sniffers: [({ signature }) => signature && signature.binary ? this.EXCEL_SIGNATURES[signature.format] || 0 : 0],
+        processorName: 'ExcelProcessor',
+        createProcessor: (options = {}) => new ExcelProcessor(options.sheet ? { sheetName: options.sheet } : {})
+      })
+      // ahead of JSON - a single-line file is valid as both, the .jsonl/.ndjson extension decides
+      .register({
+        name: FileType.NDJSON,
+        label: 'NDJSON',
+        extensions: ['.ndjson', '.jsonl'],
+        sniffers: [({ text }) => this.sniffNDJSON(text)],
+        processorName: 'NDJSONProcessor',
+        createProcessor: (options = {}) => new NDJSONProcessor({ encoding: options.encoding || 'auto' })
+      })
+      .register({
+        name: FileType.JSON,
+        label: 'JSON',
+        extensions: ['.json'],
+        sniffers: [({ text }) => this.sniffJSON(text)],
+        processorName: 'JSONProcessor',
+        createProcessor: (options = {}) => new JSONProcessor({ encoding: options.encoding || 'auto' })
+      })
+      .register({
+        name: FileType.XML,
+        label: 'XML',
+        extensions: ['.xml', '.xsd', '.xsl', '.xslt', '.rss', '.atom', '.svg'],
+        filenameHints: ['xml', 'config', 'feed', 'rss'],
+        sniffers: [({ text }) => this.sniffXml(text)],
+        processorName: 'XmlProcessor',
+        // the secure parsing profile is on unless secureXml is false (--no-secure-xml)
+        createProcessor: (options = {}) => new XmlProcessor({
+          encoding: options.encoding || 'auto',
+          ...(options.record ? { recordPath: options.record } : {}),
+          ...(options.secureXml !== false ? { security: { allowDoctype: !!options.allowDoctype } } : {})
+        })
+      });
+  }
+
+  // a later registration with the same name replaces the earlier one, keeping its place
+  public register(format: InputFormat): this {
+    this.formats.set(format.name.toLowerCase(), format);
+    return this;
+  }
+
+  // register the formats of a plugin module - it exports one format or a list of them, as module.exports or as its
+  // default export; relative paths are resolved from the working directory
+  public load(modulePath: string): InputFormat[] {
+    const resolved = modulePath.startsWith('.') || path.isAbsolute(modulePath) ? path.resolve(modulePath) : modulePath;
+    let exported: any;
+    try {
+      exported = require(resolved);
+    } catch (error) {
+      // the first line - a missing module goes on with its require stack; errors thrown by the module need not be
+      // instances of this realm's Error
+      const message = String((error as Error)?.message ?? error).split('\n')[0];
+      throw new Error(`Cannot load plugin '${modulePath}': ${message}`);
+    }
+    const value = exported && exported.default !== undefined ? exported.default : exported;
+    const formats: InputFormat[] = Array.isArray(value) ? value : [value];
+
+    const invalid = formats.some(format => !format || typeof format.name !== 'string' || typeof format.label !== 'string' ||
+      !Array.isArray(format.extensions) || !Array.isArray(format.sniffers) || typeof format.createProcessor !== 'function');
+    if (formats.length === 0 || invalid) {
+      throw new Error(`Plugin '${modulePath}' does not export an input format with a name, label, extensions, sniffers and createProcessor`);
+    }
+
+    formats.forEach(format => this.register(format));
+    return formats;
+  }
+
+  public get(name: string): InputFormat | undefined {
+    return this.formats.get(name.toLowerCase());
+  }
+
+  public getNames(): string[] {
+    return Array.from(this.formats.keys());
+  }
+
+  // in registration order
+  public getFormats(): InputFormat[] {
+    return Array.from(this.formats.values());
+  }
+
+  private static sniffXml(content: string): number {
+    const trimmedContent = content.trim();
+    if (!trimmedContent.startsWith('<')) {
+      return 0;
+    }
+
+    // check for XML structure
+    const xmlTagCount = (content.match(/<[^>]+>/g) || []).length;
+    const xmlClosingTagCount = (content.match(/<\/[^>]+>/g) || []).length;
+    if (xmlTagCount > 0 && xmlClosingTagCount > 0) {
+      return 1;
+    }
+    return xmlTagCount > 0 ? 0.7 : 0;
+  }
+
+  // an array or object, fully parseable when the sample holds the whole file - several JSON lines are NDJSON instead
+  private static sniffJSON(content: string): number {
+    const trimmedContent = content.trim();
+    if (!trimmedContent.startsWith('[') && !trimmedContent.startsWith('{')) {
+      return 0;
+    }
+    if (this.isJSON(trimmedContent)) {
+      return 1;
+    }
+    if (this.sniffNDJSON(content) > 0) {
+      return 0;
+    }
+    return /^[[{]\s*["{[\]}]/.test(trimmedContent) ? 0.7 : 0;
+  }
+
+  // several lines that each hold a JSON object or array, the last sampled line may be cut off
+  private static sniffNDJSON(content: string): number {
+    const trimmedContent = content.trim();
+    if (this.isJSON(trimmedContent)) {
+      return 0;
+    }
+
+    const lines = trimmedContent.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0).slice(0, 10);
+    const jsonLines = lines.filter(line => /^[[{]/.test(line) && this.isJSON(line)).length;
+    return jsonLines >= 2 && jsonLines >= lines.length - 1 && this.isJSON(lines[0]) ? 1 : 0;
+  }
+
+  // lines with one of the common separators
+  private static sniffCSV(content: string): number {
+    const lines = content.split('\n').slice(0, 10); // check first 10 lines
+    let csvIndicators = 0;
+
+    for (const line of lines) {
+      if (line.trim().length === 0) continue;
+
+      if (this.CSV_SEPARATORS.some(sep => line.includes(sep))) {
+        csvIndicators++;
+      }
+    }
+
+    // at least 50% of lines have separators
+    if (csvIndicators >= lines.length * 0.5) {
+      return 1;
+    }
+    return csvIndicators > 0 ? 0.5 : 0;
+  }
+
+  private static isJSON(text: string): boolean {
+    try {
+      JSON.parse(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+export default FormatRegistry;
@@ -0,0 +1,175 @@
+import * as path from 'path';
+import ColumnTypeInferrer from './columnTypes';
+import RecordExtractor, { RecordProcessors } from './recordExtractor';
+
+export type JSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// subset of draft 2020-12 keywords the generator emits - any other keyword may appear in user-supplied schemas
+export interface JSONSchema {
+  $schema?: string;
+  title?: string;
+  type?: JSONSchemaType | JSONSchemaType[];
+  format?: string;
+  enum?: any[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  anyOf?: JSONSchema[];
+  [keyword: string]: any;
+}
+
+// enumThreshold is the most distinct values a column may have to be listed as an enum, 0 disables enums
+export interface JSONSchemaOptions {
+  title?: string;
+  enumThreshold?: number;
+}
+
+export class JSONSchemaGenerator {
+  public static readonly DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+  private static readonly DEFAULT_ENUM_THRESHOLD = 10;
+
+  private static readonly STRING_FORMATS: { format: string; pattern: RegExp }[] = [
+    { format: 'email', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
+    { format: 'uri', pattern: /^https?:\/\/[^\s]+$/i },
+    { format: 'uuid', pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i }
+  ];
+
+  // read a CSV, Excel or XML file through its processor and describe its records
+  public static async fromFile(filePath: string, options: JSONSchemaOptions = {}, processors: RecordProcessors = {}): Promise<JSONSchema> {
+    const { records } = await RecordExtractor.extract(filePath, processors);
+    return this.fromRecords(records.map(record => record.data), { title: path.basename(filePath), ...options });
+  }
+
+  // describe a list of records as an array of objects
+  public static fromRecords(records: Record<string, any>[], options: JSONSchemaOptions = {}): JSONSchema {
+    const enumThreshold = options.enumThreshold ?? this.DEFAULT_ENUM_THRESHOLD;
+
+    return {
+      $schema: this.DRAFT,
+      ...(options.title ? { title: options.title } : {}),
+      type: 'array',
+      items: this.objectSchema(records, enumThreshold)
+    };
+  }
+
+  // properties keep the order they are first seen in, required lists the keys present in every record
+  private static objectSchema(objects: Record<string, any>[], enumThreshold: number): JSONSchema {
+    const keys: string[] = [];
+    const seen = new Set<string>();
+    objects.forEach(object => Object.keys(object).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        keys.push(key);
+      }
+    }));
+
+    const properties: Record<string, JSONSchema> = {};
+    for (const key of keys) {
+      properties[key] = this.valueSchema(objects.map(object => object[key]).filter(value => value !== undefined), enumThreshold);
+    }
+
+    const required = keys.filter(key => objects.every(object => object[key] !== undefined));
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  // values of one property - objects, arrays and scalars each get a schema, mixed kinds are combined with anyOf
+  private static valueSchema(values: any[], enumThreshold: number): JSONSchema {
+    const arrays = values.filter(value => Array.isArray(value));
+    const objects = values.filter(value => this.isPlainObject(value));
+    const scalars = values.filter(value => !Array.isArray(value) && !this.isPlainObject(value));
+
+    const branches: JSONSchema[] = [];
+    if (scalars.length > 0 || values.length === 0) {
+      branches.push(this.scalarSchema(scalars, enumThreshold));
+    }
+    if (objects.length > 0) {
+      branches.push(this.objectSchema(objects, enumThreshold));
+    }
+    if (arrays.length > 0) {
+      const items = arrays.flat();
+      branches.push(items.length > 0 ? { type: 'array', items: this.valueSchema(items, enumThreshold) } : { type: 'array' });
+    }
+
+    return branches.length === 1 ? branches[0] : { anyOf: branches };
+  }
+
+  private static scalarSchema(values: any[], enumThreshold: number): JSONSchema {
+    const present = values.filter(value => !ColumnTypeInferrer.isEmpty(value));
+    const nullable = present.length < values.length || values.length === 0;
+
+    const inferrer = new ColumnTypeInferrer();
+    present.forEach(value => inferrer.observe({ value }));
+    const columnType = present.length > 0 ? inferrer.getSchema()[0].type : 'string';
+    const converted = present.map(value => ColumnTypeInferrer.convertValue(value, columnType));
+
+    let schema: JSONSchema;
+    switch (columnType) {
+      case 'integer':
+      case 'decimal':
+        schema = {
+          type: columnType === 'integer' ? 'integer' : 'number',
+          minimum: converted.reduce((min, value) => Math.min(min, value)),
+          maximum: converted.reduce((max, value) => Math.max(max, value))
+        };
+        break;
+      case 'boolean':
+        schema = { type: 'boolean' };
+        break;
+      case 'date':
+        schema = { type: 'string', format: 'date' };
+        break;
+      case 'datetime':
+        schema = { type: 'string', format: 'date-time' };
+        break;
+      default: {
+        const format = this.detectStringFormat(converted);
+        const lengths = converted.map(value => value.length);
+        schema = {
+          type: 'string',
+          ...(format ? { format } : {}),
+          ...(lengths.length > 0 ? {
+            minLength: lengths.reduce((min, length) => Math.min(min, length)),
+            maxLength: lengths.reduce((max, length) => Math.max(max, length))
+          } : {})
+        };
+      }
+    }
+
+    // low-cardinality columns list their values - only when values repeat, so a handful of unique ids is not an enum
+    const distinct = Array.from(new Set(converted));
+    const enumerable = columnType === 'string' || columnType === 'integer';
+    if (enumerable && enumThreshold > 0 && distinct.length > 0 && distinct.length <= enumThreshold && distinct.length * 2 <= converted.length) {
+      schema.enum = nullable ? [...distinct, null] : distinct;
+    }
+
+    if (nullable) {
+      schema.type = [schema.type as JSONSchemaType, 'null'];
+    }
+
+    return schema;
+  }
+
+  private static detectStringFormat(values: string[]): string | null {
+    if (values.length === 0) {
+      return null;
+    }
+    const match = this.STRING_FORMATS.find(({ pattern }) => values.every(value => pattern.test(value.trim())));
+    return match ? match.format : null;
+  }
+
+  private static isPlainObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
+
+export default JSONSchemaGenerator;
@@ -0,0 +1,266 @@
+import * as fs from 'fs';
+import EncodingDetector from './encodingDetector';
+
+// formats recognised by their bytes - ZIP and OLE2 containers are told apart by the entries they hold, 'zip' and 'ole'
+// are containers of no known kind, 'binary' is data with zero bytes that no signature matches
+export type MagicByteFormat =
+  | 'xlsx'
+  | 'xls'
+  | 'docx'
+  | 'pptx'
+  | 'ods'
+  | 'odt'
+  | 'zip'
+  | 'doc'
+  | 'ppt'
+  | 'ole'
+  | 'gzip'
+  | 'pdf'
+  | 'png'
+  | 'jpeg'
+  | 'gif'
+  | 'utf-16le'
+  | 'utf-16be'
+  | 'binary';
+
+// binary is false for text formats, whose content is still worth scoring as CSV, XML or JSON
+export interface MagicByteMatch {
+  format: MagicByteFormat;
+  description: string;
+  binary: boolean;
+  reasons: string[];
+}
+
+// reads length bytes at offset of the file being inspected - fewer near its end
+type ByteReader = (offset: number, length: number) => Buffer;
+
+// a ZIP entry as its central directory (or local header) describes it
+interface ZipEntry {
+  name: string;
+  stored: boolean;
+  size: number;
+  headerOffset: number;
+}
+
+export class MagicByteDetector {
+  private static readonly MAX_SAMPLE_SIZE = 8192; // 8KB, the sample FileValidator looks at
+  private static readonly MAX_CENTRAL_DIRECTORY = 1024 * 1024; // entry names of a ZIP read at most
+
+  private static readonly SIGNATURES: { format: MagicByteFormat; bytes: number[] }[] = [
+    { format: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2D] },
+    { format: 'png', bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] },
+    { format: 'jpeg', bytes: [0xFF, 0xD8, 0xFF] },
+    { format: 'gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+    { format: 'gzip', bytes: [0x1F, 0x8B] }
+  ];
+
+  private static readonly DESCRIPTIONS: Record<MagicByteFormat, string> = {
+    xlsx: 'Excel workbook (XLSX)',
+    xls: 'Excel 97-2003 workbook (XLS)',
+    docx: 'Word document (DOCX)',
+    pptx: 'PowerPoint presentation (PPTX)',
+    ods: 'OpenDocument spreadsheet (ODS)',
+    odt: 'OpenDocument text (ODT)',
+    zip: 'ZIP archive',
+    doc: 'Word 97-2003 document (DOC)',
+    ppt: 'PowerPoint 97-2003 presentation (PPT)',
+    ole: 'OLE2 compound document',
+    gzip: 'gzip-compressed data',
+    pdf: 'PDF document',
+    png: 'PNG image',
+    jpeg: 'JPEG image',
+    gif: 'GIF image',
+    'utf-16le': 'UTF-16LE text',
+    'utf-16be': 'UTF-16BE text',
+    binary: 'binary data'
+  };
+
+  // the main part of each Office Open XML package, ZIP entry names are case-sensitive
+  private static readonly OOXML_PARTS: { format: MagicByteFormat; entries: string[] }[] = [
+    { format: 'xlsx', entries: ['xl/workbook.xml', 'xl/workbook.bin'] },
+    { format: 'docx', entries: ['word/document.xml'] },
+    { format: 'pptx', entries: ['ppt/presentation.xml'] }
+  ];
+
+  private static readonly OPENDOCUMENT_TYPES = new Map<string, MagicByteFormat>([
+    ['application/vnd.oasis.opendocument.spreadsheet', 'ods'],
+    ['application/vnd.oasis.opendocument.text', 'odt']
+  ]);
+
+  // the stream each legacy Office file keeps in its OLE2 root directory
+  private static readonly OLE_STREAMS = new Map<string, MagicByteFormat>([
+    ['Workbook', 'xls'],
+    ['Book', 'xls'],
+    ['WordDocument', 'doc'],
+    ['PowerPoint Document', 'ppt']
+  ]);
+
+  // detect the format of a file from its bytes - ZIP central directories and OLE2 directories are read from the
+  // file itself, wherever they are
+  public static detectFile(filePath: string): MagicByteMatch | null {
+    const size = fs.statSync(filePath).size;
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const read: ByteReader = (offset, length) => {
+        const buffer = Buffer.alloc(Math.max(Math.min(length, size - offset), 0));
+        const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, offset);
+        return buffer.subarray(0, bytesRead);
+      };
+      return this.detect(read(0, this.MAX_SAMPLE_SIZE), size, read);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  // detect the format of a byte sample - signatures first, then the containers, then UTF-16 and other zero-byte data;
+  // size and read reach past the sample, by default only the sample itself is looked at
+  public static detect(
+    sample: Buffer,
+    size: number = sample.length,
+    read: ByteReader = (offset, length) => sample.subarray(offset, offset + length)
+  ): MagicByteMatch | null {
+    const signature = this.SIGNATURES.find(({ bytes }) => this.startsWith(sample, bytes));
+    if (signature) {
+      return this.match(signature.format, true, 'File signature');
+    }
+
+    if (this.startsWith(sample, [0x50, 0x4B, 0x03, 0x04]) || this.startsWith(sample, [0x50, 0x4B, 0x05, 0x06])) {
+      return this.detectZip(sample, size, read);
+    }
+
+    if (this.startsWith(sample, [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1])) {
+      return this.detectOle(sample, read);
+    }
+
+    const encoding = EncodingDetector.detect(sample);
+    if (encoding.encoding === 'utf-16le' || encoding.encoding === 'utf-16be') {
+      return this.match(encoding.encoding, false, encoding.reasons[0]);
+    }
+
+    if (sample.includes(0)) {
+      return this.match('binary', true, 'Zero bytes found outside UTF-16 text');
+    }
+
+    return null;
+  }
+
+  private static match(format: MagicByteFormat, binary: boolean, ...reasons: string[]): MagicByteMatch {
+    return { format, description: this.DESCRIPTIONS[format], binary, reasons };
+  }
+
+  private static startsWith(sample: Buffer, bytes: number[]): boolean {
+    return sample.length >= bytes.length && bytes.every((byte, index) => sample[index] === byte);
+  }
+
+  // an Office Open XML package has [Content_Types].xml and its main part, an OpenDocument file an uncompressed
+  // mimetype entry naming its kind
+  private static detectZip(sample: Buffer, size: number, read: ByteReader): MagicByteMatch {
+    const entries = this.readCentralDirectory(size, read) || this.readLocalEntries(sample);
+    const names = entries.map(entry => entry.name);
+
+    const mimeType = this.readStoredEntry(entries.find(entry => entry.name === 'mimetype'), read);
+    const openDocument = mimeType ? this.OPENDOCUMENT_TYPES.get(mimeType.trim()) : undefined;
+    if (openDocument) {
+      return this.match(openDocument, true, 'ZIP signature', `mimetype entry is ${mimeType}`);
+    }
+
+    if (names.includes('[Content_Types].xml')) {
+      for (const part of this.OOXML_PARTS) {
+        const name = part.entries.find(entry => names.includes(entry));
+        if (name) {
+          return this.match(part.format, true, 'ZIP signature', `Office Open XML package with ${name}`);
+        }
+      }
+    }
+
+    return this.match('zip', true, 'ZIP signature', `No Office Open XML or OpenDocument parts among ${entries.length} entries`);
+  }
+
+  // entries listed in the central directory at the end of the archive, null when it cannot be found
+  private static readCentralDirectory(size: number, read: ByteReader): ZipEntry[] | null {
+    // the end of central directory record is 22 bytes, followed by a comment of up to 65535
+    const tailStart = Math.max(size - 22 - 65535, 0);
+    const tail = read(tailStart, size - tailStart);
+    const end = tail.lastIndexOf(Buffer.from([0x50, 0x4B, 0x05, 0x06]));
+    if (end < 0 || end + 22 > tail.length) {
+      return null;
+    }
+
+    const directorySize = tail.readUInt32LE(end + 12);
+    const directoryOffset = tail.readUInt32LE(end + 16);
+    // ZIP64 archives keep 0xFFFFFFFF here
+    if (directoryOffset + directorySize > size) {
+      return null;
+    }
+
+    const directory = read(directoryOffset, Math.min(directorySize, this.MAX_CENTRAL_DIRECTORY));
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    while (offset + 46 <= directory.length && directory.readUInt32LE(offset) === 0x02014B50) {
+      const nameLength = directory.readUInt16LE(offset + 28);
+      entries.push({
+        name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+        stored: directory.readUInt16LE(offset + 10) === 0,
+        size: directory.readUInt32LE(offset + 20),
+        headerOffset: directory.readUInt32LE(offset + 42)
+      });
+      offset += 46 + nameLength + directory.readUInt16LE(offset + 30) + directory.readUInt16LE(offset + 32);
+    }
+    return entries;
+  }
+
+  // entries from the local headers in the sample - stops at an entry whose size only follows its data
+  private static readLocalEntries(sample: Buffer): ZipEntry[] {
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    while (offset + 30 <= sample.length && sample.readUInt32LE(offset) === 0x04034B50) {
+      const nameLength = sample.readUInt16LE(offset + 26);
+      const compressedSize = sample.readUInt32LE(offset + 18);
+      entries.push({
+        name: sample.toString('utf8', offset + 30, offset + 30 + nameLength),
+        stored: sample.readUInt16LE(offset + 8) === 0,
+        size: compressedSize,
+        headerOffset: offset
+      });
+      if ((sample.readUInt16LE(offset + 6) & 0x08) !== 0 && compressedSize === 0) {
+        break;
+      }
+      offset += 30 + nameLength + sample.readUInt16LE(offset + 28) + compressedSize;
+    }
+    return entries;
+  }
+
+  // the text of a small uncompressed entry - its data follows the local header, name and extra field
+  private static readStoredEntry(entry: ZipEntry | undefined, read: ByteReader): string | null {
+    if (!entry || !entry.stored || entry.size > 256) {
+      return null;
+    }
+    const header = read(entry.headerOffset, 30);
+    if (header.length < 30 || header.readUInt32LE(0) !== 0x04034B50) {
+      return null;
+    }
+    const start = entry.headerOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    return read(start, entry.size).toString('latin1');
+  }
+
+  // the stream names in the first sector of the OLE2 directory tell legacy Excel, Word and PowerPoint files apart
+  private static detectOle(sample: Buffer, read: ByteReader): MagicByteMatch {
+    if (sample.length >= 512) {
+      const sectorSize = 1 << sample.readUInt16LE(0x1E);
+      const directory = read((sample.readUInt32LE(0x30) + 1) * sectorSize, sectorSize);
+      for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+        // the name length counts the terminating zero character
+        const nameLength = Math.min(directory.readUInt16LE(offset + 64), 64);
+        const name = directory.toString('utf16le', offset, offset + Math.max(nameLength - 2, 0));
+        const format = this.OLE_STREAMS.get(name);
+        if (format) {
+          return this.match(format, true, 'OLE2 compound document signature', `${name} stream found`);
+        }
+      }
+    }
+
+    return this.match('ole', true, 'OLE2 compound document signature', 'No Workbook, WordDocument or PowerPoint stream found');
+  }
+}
+
+export default MagicByteDetector;
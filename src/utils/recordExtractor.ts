@@ -0,0 +1,132 @@
+import CSVProcessor from '../processors/csvProcessor';
+import ExcelProcessor from '../processors/excelProcessor';
+import JSONProcessor from '../processors/jsonProcessor';
+import NDJSONProcessor from '../processors/ndjsonProcessor';
+import XmlProcessor from '../processors/xmlProcessor';
+import CSVDialectSniffer from './csvDialectSniffer';
+import { UnsupportedFormatError } from './errors';
+import FileValidator, { FileType } from './fileValidator';
+
+// one record with where it came from - row is the 1-based file line (CSV, NDJSON) or sheet row (Excel), path the XML
+// element path or JSON pointer
+export interface ExtractedRecord {
+  data: Record<string, any>;
+  location: string;
+  row?: number;
+  path?: string;
+}
+
+// fileType is a FileType or the name of a plugin format
+export interface ExtractedRecords {
+  fileType: string;
+  records: ExtractedRecord[];
+}
+
+// processors to read with - missing ones are created with defaults (sniffed CSV dialect, first sheet, merged XML attributes)
+export interface RecordProcessors {
+  csv?: CSVProcessor;
+  excel?: ExcelProcessor;
+  xml?: XmlProcessor;
+  ndjson?: NDJSONProcessor;
+}
+
+export class RecordExtractor {
+  // read a file through its matching processor and return the records with their locations
+  public static async extract(filePath: string, processors: RecordProcessors = {}): Promise<ExtractedRecords> {
+    const fileType = FileValidator.requireFileType(filePath);
+
+    switch (fileType) {
+      case FileType.CSV:
+      case FileType.NDJSON: {
+        const records: ExtractedRecord[] = [];
+        for await (const record of this.streamLines(filePath, fileType, processors)) {
+          records.push(record);
+        }
+        return { fileType, records };
+      }
+      case FileType.EXCEL:
+        return { fileType: FileType.EXCEL, records: await this.extractExcel(filePath, processors.excel || new ExcelProcessor()) };
+      case FileType.XML: {
+        const records: ExtractedRecord[] = [];
+        for await (const record of this.streamXml(filePath, processors.xml || new XmlProcessor({ encoding: 'auto', mergeAttrs: true }))) {
+          records.push(record);
+        }
+        return { fileType, records };
+      }
+      case FileType.JSON: {
+        const records = new JSONProcessor().records(filePath);
+        return { fileType: FileType.JSON, records: records.map(record => ({ data: record.data, location: record.path, path: record.path })) };
+      }
+      default:
+        return { fileType, records: await this.extractFormat(filePath, fileType) };
+    }
+  }
+
+  // yield records one at a time - CSV, NDJSON and XML read with a recordPath are streamed, the rest is parsed whole first
+  public static async *stream(filePath: string, processors: RecordProcessors = {}): AsyncGenerator<ExtractedRecord> {
+    const fileType = FileValidator.requireFileType(filePath);
+
+    if (fileType === FileType.CSV || fileType === FileType.NDJSON) {
+      yield* this.streamLines(filePath, fileType, processors);
+    } else if (fileType === FileType.XML && processors.xml?.getOptions().recordPath) {
+      yield* this.streamXml(filePath, processors.xml);
+    } else {
+      yield* (await this.extract(filePath, processors)).records;
+    }
+  }
+
+  private static async *streamLines(filePath: string, fileType: FileType.CSV | FileType.NDJSON, processors: RecordProcessors): AsyncGenerator<ExtractedRecord> {
+    if (fileType === FileType.NDJSON) {
+      for await (const row of (processors.ndjson || new NDJSONProcessor()).rows(filePath)) {
+        yield { data: row.data, location: `line ${row.lineNumber}`, row: row.lineNumber };
+      }
+      return;
+    }
+
+    for await (const row of (processors.csv || CSVDialectSniffer.createProcessor(filePath)).rows(filePath)) {
+      // csv-parser yields an empty object for a blank line
+      if (Object.keys(row.data).length === 0) {
+        continue;
+      }
+      yield { data: row.data, location: `row ${row.lineNumber}`, row: row.lineNumber };
+    }
+  }
+
+  private static async extractExcel(filePath: string, processor: ExcelProcessor): Promise<ExtractedRecord[]> {
+    const result = await processor.processFile(filePath);
+
+    return result.data.map((data, index) => {
+      // sheet_to_json keeps the 0-based sheet row as a hidden property, blank rows in between are skipped
+      const sheetRow = typeof (data as any).__rowNum__ === 'number' ? (data as any).__rowNum__ + 1 : index + 2;
+      return { data, location: `row ${sheetRow}`, row: sheetRow };
+    });
+  }
+
+  // the records of the processor's rows - streamed with a recordPath, picked from the parsed document otherwise
+  private static async *streamXml(filePath: string, processor: XmlProcessor): AsyncGenerator<ExtractedRecord> {
+    for await (const row of processor.rows(filePath)) {
+      yield { data: row.data, location: row.path, path: row.path };
+    }
+  }
+
+  // records of a plugin format, streamed from its processor
+  private static async extractFormat(filePath: string, fileType: string): Promise<ExtractedRecord[]> {
+    const format = FileValidator.formats.get(fileType);
+    if (!format) {
+      throw new UnsupportedFormatError(`Unsupported file type: ${fileType}`, { filePath, format: fileType });
+    }
+
+    const records: ExtractedRecord[] = [];
+    for await (const data of format.createProcessor().stream(filePath)) {
+      records.push({ data, location: `record ${records.length + 1}` });
+    }
+    return records;
+  }
+
+  // parse a JSON file in whatever encoding it was saved with
+  public static readJSON(filePath: string): any {
+    return new JSONProcessor().readDocument(filePath);
+  }
+}
+
+export default RecordExtractor;
@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import ColumnTypeInferrer from './columnTypes';
+import { FileNotFoundError } from './errors';
+import { JSONSchema } from './jsonSchemaGenerator';
+import RecordExtractor, { ExtractedRecord, RecordProcessors } from './recordExtractor';
+
+// one failed rule - location is the row ("row 3") or XML path of the record, field the dotted path inside it
+export interface SchemaViolation {
+  location: string;
+  row?: number;
+  path?: string;
+  field: string;
+  rule: string;
+  message: string;
+}
+
+// fileType is a FileType or the name of a plugin format
+export interface SchemaValidationResult {
+  isValid: boolean;
+  fileType?: string;
+  totalRecords: number;
+  validRecords: number;
+  invalidRecords: number;
+  violations: SchemaViolation[];
+}
+
+export class SchemaValidator {
+  private validateRecord: ValidateFunction;
+  private recordSchema: JSONSchema;
+
+  // schemas describing the whole file as an array (as generated by the schema command) validate each record against items
+  constructor(schema: JSONSchema) {
+    // CSV and XML values are strings, so "30" is accepted where the schema asks for an integer
+    const ajv = new Ajv2020({ allErrors: true, coerceTypes: true, strict: false });
+    addFormats(ajv);
+
+    const recordSchema = schema.type === 'array' && schema.items && typeof schema.items === 'object'
+      ? { ...(schema.$defs ? { $defs: schema.$defs } : {}), ...schema.items }
+      : schema;
+
+    this.recordSchema = recordSchema;
+    try {
+      this.validateRecord = ajv.compile(recordSchema);
+    } catch (error) {
+      throw new Error(`Invalid JSON Schema: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // load a schema from a JSON file
+  public static fromFile(schemaPath: string): SchemaValidator {
+    if (!fs.existsSync(schemaPath)) {
+      throw new FileNotFoundError(schemaPath, { label: 'Schema file' });
+    }
+
+    let schema: JSONSchema;
+    try {
+      schema = JSON.parse(fs.readFileSync(schemaPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Schema file is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return new SchemaValidator(schema);
+  }
+
+  // read a CSV, Excel or XML file through its processor and check every record
+  public async validateFile(filePath: string, processors: RecordProcessors = {}): Promise<SchemaValidationResult> {
+    const { fileType, records } = await RecordExtractor.extract(filePath, processors);
+    return { ...this.validateRecords(records), fileType };
+  }
+
+  public validateRecords(records: ExtractedRecord[]): SchemaValidationResult {
+    const violations: SchemaViolation[] = [];
+    let invalidRecords = 0;
+
+    for (const record of records) {
+      if (this.validateRecord(this.normalize(record.data, this.recordSchema))) {
+        continue;
+      }
+
+      invalidRecords++;
+      for (const error of this.validateRecord.errors || []) {
+        violations.push({
+          location: record.location,
+          ...(record.row !== undefined ? { row: record.row } : {}),
+          ...(record.path !== undefined ? { path: record.path } : {}),
+          field: this.getField(error),
+          rule: error.keyword,
+          message: error.message || 'is invalid'
+        });
+      }
+    }
+
+    return {
+      isValid: invalidRecords === 0,
+      totalRecords: records.length,
+      validRecords: records.length - invalidRecords,
+      invalidRecords,
+      violations
+    };
+  }
+
+  // copy a record with blank cells as null, the way the schema generator reads them, and yes/no values of boolean
+  // properties as booleans (Ajv only coerces "true" and "false") - the copy also keeps type coercion, which rewrites
+  // values in place, away from the caller's record
+  private normalize(value: any, schema?: JSONSchema): any {
+    const branches = schema ? [schema, ...(Array.isArray(schema.anyOf) ? schema.anyOf : [])] : [];
+    if (Array.isArray(value)) {
+      const items = branches.find(branch => branch.items && typeof branch.items === 'object')?.items;
+      return value.map(item => this.normalize(item, items));
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      const properties = branches.find(branch => branch.properties)?.properties || {};
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.normalize(item, properties[key])]));
+    }
+    if (ColumnTypeInferrer.isEmpty(value)) {
+      return null;
+    }
+    const allowsBoolean = branches.some(branch => branch.type === 'boolean' || (Array.isArray(branch.type) && branch.type.includes('boolean')));
+    return allowsBoolean ? ColumnTypeInferrer.convertValue(value, 'boolean') : value;
+  }
+
+  // turn the JSON pointer of the failing value into a dotted field name - missing and unexpected keys name the key itself
+  private getField(error: ErrorObject): string {
+    const segments = error.instancePath
+      .split('/')
+      .slice(1)
+      .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+    if (error.keyword === 'required') {
+      segments.push(error.params.missingProperty);
+    } else if (error.keyword === 'additionalProperties') {
+      segments.push(error.params.additionalProperty);
+    }
+
+    return segments.reduce((field, segment) => {
+      if (/^\d+$/.test(segment)) {
+        return `${field}[${segment}]`;
+      }
+      return field ? `${field}.${segment}` : segment;
+    }, '') || '(record)';
+  }
+}
+
+export default SchemaValidator;
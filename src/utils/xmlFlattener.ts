@@ -0,0 +1,159 @@
+// one table column read from each XML record - path is dotted element names below the record ("id_info.nct_id"),
+// optionally ending in an attribute ("enrollment@type", "@rank" for an attribute of the record itself); repeated
+// values are joined into one cell unless explode is set, which gives every value its own row
+export interface XmlColumnMapping {
+  name: string;
+  path: string;
+  explode?: boolean;
+}
+
+// separator joins the repeated values of columns that are not exploded
+export interface XmlFlattenOptions {
+  columns: XmlColumnMapping[];
+  separator?: string;
+}
+
+// column path split into the element steps and the attribute read at the end
+interface ColumnSelector {
+  name: string;
+  elements: string[];
+  attribute?: string;
+  explode: boolean;
+}
+
+// turns xml2js-shaped records (attributes under "$", text under "_", as XmlProcessor reads them) into flat rows for
+// the CSV, XLSX and other table writers
+export class XmlFlattener {
+  private static readonly ATTRIBUTE_KEY = '$';
+  private static readonly TEXT_KEY = '_';
+
+  private columns: ColumnSelector[];
+  private separator: string;
+
+  constructor(options: XmlFlattenOptions) {
+    if (options.columns.length === 0) {
+      throw new Error('At least one column mapping is required');
+    }
+
+    const names = new Set<string>();
+    this.columns = options.columns.map(column => {
+      if (names.has(column.name)) {
+        throw new Error(`Duplicate column name '${column.name}'`);
+      }
+      names.add(column.name);
+      return { name: column.name, ...XmlFlattener.parsePath(column.path), explode: column.explode === true };
+    });
+    this.separator = options.separator !== undefined ? options.separator : '; ';
+  }
+
+  // rows for one record - a single row unless a column is exploded; exploded columns below the same repeated element
+  // stay together (one row per location with its facility and city), exploded columns below different ones multiply
+  public flatten(record: any): Record<string, any>[] {
+    const joined: Record<string, any> = {};
+    for (const column of this.columns.filter(column => !column.explode)) {
+      joined[column.name] = this.join(this.select(record, column.elements)
+        .map(node => this.valueOf(node, column.attribute))
+        .filter(value => value !== undefined));
+    }
+
+    const exploded = this.explode(record, this.columns.filter(column => column.explode), 0);
+    return exploded.map(row => {
+      const result: Record<string, any> = {};
+      for (const column of this.columns) {
+        const value = column.explode ? row[column.name] : joined[column.name];
+        result[column.name] = value !== undefined ? value : null;
+      }
+      return result;
+    });
+  }
+
+  // "a.b@c" is elements a, b and attribute c - an attribute can only be the last step
+  private static parsePath(path: string): { elements: string[]; attribute?: string } {
+    const steps = path.split('.').map(step => step.trim());
+    const elements: string[] = [];
+    let attribute: string | undefined;
+
+    steps.forEach((step, index) => {
+      const at = step.indexOf('@');
+      const element = at === -1 ? step : step.slice(0, at);
+      const name = at === -1 ? undefined : step.slice(at + 1);
+      if ((name !== undefined && (name.length === 0 || index !== steps.length - 1)) || (element.length === 0 && name === undefined)) {
+        throw new Error(`Invalid column path '${path}', expected dotted element names with an optional @attribute at the end`);
+      }
+      if (element.length > 0) {
+        elements.push(element);
+      }
+      attribute = name;
+    });
+
+    return attribute !== undefined ? { elements, attribute } : { elements };
+  }
+
+  // exploded columns grouped by their next element - each child of that element gives its own rows, and the rows of
+  // different groups are combined with every row of the others
+  private explode(node: any, columns: ColumnSelector[], depth: number): Record<string, any>[] {
+    const row: Record<string, any> = {};
+    const groups = new Map<string, ColumnSelector[]>();
+
+    for (const column of columns) {
+      if (column.elements.length === depth) {
+        row[column.name] = this.valueOf(node, column.attribute);
+      } else {
+        const element = column.elements[depth];
+        groups.set(element, [...(groups.get(element) || []), column]);
+      }
+    }
+
+    let rows = [row];
+    for (const [element, group] of groups) {
+      const groupRows = this.childrenOf(node, element).flatMap(child => this.explode(child, group, depth + 1));
+      // a record without the element still gets its row, with the exploded columns empty
+      const combined = groupRows.length > 0 ? groupRows : [{}];
+      rows = rows.flatMap(current => combined.map(groupRow => ({ ...current, ...groupRow })));
+    }
+    return rows;
+  }
+
+  private select(node: any, elements: string[]): any[] {
+    return elements.reduce((nodes, element) => nodes.flatMap(current => this.childrenOf(current, element)), [node]);
+  }
+
+  // child elements by name - xml2js gives a single child as a value and repeated ones as an array
+  private childrenOf(node: any, element: string): any[] {
+    if (!this.isObject(node) || node[element] === undefined) {
+      return [];
+    }
+    return Array.isArray(node[element]) ? node[element] : [node[element]];
+  }
+
+  // the attribute, or the text of an element - elements with child elements are kept as they are
+  private valueOf(node: any, attribute?: string): any {
+    if (attribute !== undefined) {
+      return this.isObject(node) && this.isObject(node[XmlFlattener.ATTRIBUTE_KEY]) ? node[XmlFlattener.ATTRIBUTE_KEY][attribute] : undefined;
+    }
+    if (!this.isObject(node)) {
+      return node;
+    }
+    if (XmlFlattener.TEXT_KEY in node) {
+      return node[XmlFlattener.TEXT_KEY];
+    }
+    return Object.keys(node).every(key => key === XmlFlattener.ATTRIBUTE_KEY) ? '' : node;
+  }
+
+  // a single value stays as it is, repeated values become one text cell
+  private join(values: any[]): any {
+    if (values.length === 0) {
+      return null;
+    }
+    if (values.length === 1) {
+      return values[0];
+    }
+    return values.map(value => this.isObject(value) ? JSON.stringify(value) : String(value)).join(this.separator);
+  }
+
+  private isObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+export default XmlFlattener;
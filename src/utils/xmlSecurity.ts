@@ -0,0 +1,288 @@
+import * as fs from 'fs';
+import * as sax from 'sax';
+import { pipeline } from 'stream';
+import EncodingDetector from './encodingDetector';
+import { FileProcessorError } from './errors';
+
+// the limit an XmlSecurityError reports
+export type XmlSecurityLimit =
+  | 'doctype'
+  | 'externalEntity'
+  | 'parameterEntity'
+  | 'entityExpansion'
+  | 'depth'
+  | 'attributes'
+  | 'documentSize';
+
+// allowDoctype tolerates a DOCTYPE with internal entity declarations (external and parameter entities are refused
+// either way); maxEntityExpansions caps the entities a document's references expand to, counting nested ones, and
+// maxEntityExpansionSize the characters they expand to in total; maxAttributes is per element and maxDocumentSize in bytes
+export interface XmlSecurityOptions {
+  allowDoctype?: boolean;
+  maxEntityExpansions?: number;
+  maxEntityExpansionSize?: number;
+  maxDepth?: number;
+  maxAttributes?: number;
+  maxDocumentSize?: number;
+}
+
+// what a reference to an entity costs - count the entities it expands, size the characters it expands to
+interface EntityCost {
+  count: number;
+  size: number;
+}
+
+// thrown when a document breaks the secure parsing profile - limit names the check that failed, line and column
+// (1-based) point at the start tag of the offending element, or at the end of the DOCTYPE
+export class XmlSecurityError extends FileProcessorError {
+  public readonly limit: XmlSecurityLimit;
+  public readonly line?: number;
+  public readonly column?: number;
+
+  constructor(limit: XmlSecurityLimit, message: string, position?: { line: number; column: number }) {
+    super('XML_SECURITY', position ? `${message} (line ${position.line}, column ${position.column})` : message);
+    this.name = 'XmlSecurityError';
+    this.limit = limit;
+    if (position) {
+      this.line = position.line;
+      this.column = position.column;
+    }
+  }
+}
+
+// checks a document against the secure parsing profile before it is parsed - rejects DOCTYPE declarations (or, with
+// allowDoctype, external and parameter entities and entities expanding too far), and caps nesting depth, attributes
+// per element and document size. The document is streamed, syntax errors are left for the parser to report
+export class XmlSecurityGuard {
+  public static readonly DEFAULTS: Required<XmlSecurityOptions> = {
+    allowDoctype: false,
+    maxEntityExpansions: 1000,
+    maxEntityExpansionSize: 1024 * 1024,
+    maxDepth: 256,
+    maxAttributes: 256,
+    maxDocumentSize: 100 * 1024 * 1024
+  };
+
+  // longest entity reference looked for across chunk boundaries
+  private static readonly MAX_ENTITY_NAME = 256;
+
+  private options: Required<XmlSecurityOptions>;
+
+  constructor(options: XmlSecurityOptions = {}) {
+    this.options = { ...XmlSecurityGuard.DEFAULTS, ...options };
+  }
+
+  public async checkFile(filePath: string, encoding: string = 'auto'): Promise<void> {
+    this.checkSize(fs.statSync(filePath).size);
+
+    const scanner = this.createScanner();
+    const decoder = EncodingDetector.createDecodeStream(EncodingDetector.resolveFileEncoding(filePath, encoding, true));
+    const stream = fs.createReadStream(filePath);
+    const input = pipeline(stream, decoder, () => undefined);
+
+    try {
+      for await (const chunk of input) {
+        scanner.write(chunk as string);
+      }
+      scanner.close();
+    } finally {
+      stream.destroy();
+      decoder.destroy();
+    }
+  }
+
+  public checkString(content: string): void {
+    this.checkSize(Buffer.byteLength(content, 'utf8'));
+
+    const scanner = this.createScanner();
+    scanner.write(content);
+    scanner.close();
+  }
+
+  public getOptions(): Required<XmlSecurityOptions> {
+    return { ...this.options };
+  }
+
+  // a document of this many bytes within maxDocumentSize - call with the file size before reading a file whole
+  public checkSize(bytes: number): void {
+    if (bytes > this.options.maxDocumentSize) {
+      throw new XmlSecurityError(
+        'documentSize',
+        `Document size limit exceeded: ${bytes} bytes, at most ${this.options.maxDocumentSize} allowed`
+      );
+    }
+  }
+
+  // a sax parser counting depth and attributes - sax does not expand entities declared in a DOCTYPE, so references
+  // to them are counted in the text written to it
+  private createScanner(): { write: (chunk: string) => void; close: () => void } {
+    const parser = sax.parser(true, { position: true });
+    const costs = new Map<string, EntityCost>();
+    let depth = 0;
+    let expansions = 0;
+    let expandedSize = 0;
+    let pending = '';
+    let tagStart = { line: 1, column: 1 };
+    // characters written so far and where the root element starts - the entity values of a DOCTYPE are costed by
+    // readEntityDeclarations, references are only counted from the root element on
+    let written = 0;
+    let rootStart = -1;
+
+    const position = () => ({ line: parser.line + 1, column: Math.max(parser.column, 1) });
+
+    parser.ondoctype = (doctype) => {
+      if (!this.options.allowDoctype) {
+        throw new XmlSecurityError('doctype', 'DOCTYPE declarations are not allowed', position());
+      }
+      this.readEntityDeclarations(doctype, position()).forEach((cost, name) => costs.set(name, cost));
+    };
+
+    parser.onopentagstart = (node) => {
+      if (rootStart < 0) {
+        rootStart = parser.position;
+      }
+      // the parser has read the tag name and the character after it
+      tagStart = { line: parser.line + 1, column: Math.max(parser.column - node.name.length - 1, 1) };
+      if (++depth > this.options.maxDepth) {
+        throw new XmlSecurityError('depth', `Nesting depth limit exceeded: more than ${this.options.maxDepth} levels`, tagStart);
+      }
+    };
+
+    parser.onopentag = (node) => {
+      const count = Object.keys(node.attributes).length;
+      if (count > this.options.maxAttributes) {
+        throw new XmlSecurityError(
+          'attributes',
+          `Attribute limit exceeded: element '${node.name}' has ${count} attributes, at most ${this.options.maxAttributes} allowed`,
+          tagStart
+        );
+      }
+    };
+
+    // self-closing tags are closed too
+    parser.onclosetag = () => {
+      depth--;
+    };
+
+    // unknown entities and other syntax errors are the parser's to report, scanning goes on
+    parser.onerror = () => {
+      parser.resume();
+    };
+
+    // references to declared entities - a reference cut off at the end of a chunk is completed by the next one; they
+    // are counted in the raw text, so the error has no position
+    const countReferences = (text: string, final: boolean) => {
+      if (costs.size === 0) {
+        return;
+      }
+      const reference = /&([^\s&;<>"']+);/g;
+      let match: RegExpExecArray | null;
+      let end = 0;
+      while ((match = reference.exec(text)) !== null) {
+        const cost = costs.get(match[1]);
+        expansions += cost ? cost.count : 0;
+        expandedSize += cost ? cost.size : 0;
+        end = reference.lastIndex;
+        if (expansions > this.options.maxEntityExpansions) {
+          throw new XmlSecurityError(
+            'entityExpansion',
+            `Entity expansion limit exceeded: more than ${this.options.maxEntityExpansions} entity expansions`
+          );
+        }
+        if (expandedSize > this.options.maxEntityExpansionSize) {
+          throw new XmlSecurityError(
+            'entityExpansion',
+            `Entity expansion size limit exceeded: entities expand to more than ${this.options.maxEntityExpansionSize} characters`
+          );
+        }
+      }
+      const open = text.lastIndexOf('&');
+      pending = !final && open >= end && text.length - open <= XmlSecurityGuard.MAX_ENTITY_NAME ? text.slice(open) : '';
+    };
+
+    return {
+      write: (chunk: string) => {
+        parser.write(chunk);
+        const skip = rootStart < 0 ? chunk.length : Math.max(rootStart - written, 0);
+        written += chunk.length;
+        countReferences(pending + chunk.slice(skip), false);
+      },
+      close: () => {
+        parser.close();
+        countReferences(pending, true);
+      }
+    };
+  }
+
+  // entity declarations of a DOCTYPE with what each reference to them costs - the entities expanded (itself and every
+  // entity its value refers to, recursively) and the characters it expands to; external and parameter entities are
+  // refused, as is an external DTD
+  private readEntityDeclarations(doctype: string, position: { line: number; column: number }): Map<string, EntityCost> {
+    const external = /^\s*\S+\s+(SYSTEM|PUBLIC)\s+(?:"([^"]*)"|'([^']*)')/.exec(doctype);
+    if (external) {
+      throw new XmlSecurityError('externalEntity', `External DTD '${external[2] ?? external[3]}' is not allowed`, position);
+    }
+
+    const values = new Map<string, string>();
+    const declaration = /<!ENTITY\s+(%\s+)?(\S+)\s+(?:(SYSTEM|PUBLIC)\b|"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = declaration.exec(doctype)) !== null) {
+      const [, parameter, name, externalId, doubleQuoted, singleQuoted] = match;
+      if (parameter) {
+        throw new XmlSecurityError('parameterEntity', `Parameter entity '${name}' is not allowed`, position);
+      }
+      if (externalId) {
+        throw new XmlSecurityError('externalEntity', `External entity '${name}' is not allowed`, position);
+      }
+      // the first declaration of an entity is binding
+      if (!values.has(name)) {
+        values.set(name, doubleQuoted ?? singleQuoted ?? '');
+      }
+    }
+    if (/%[^\s;]+;/.test(doctype.replace(/"[^"]*"|'[^']*'/g, ''))) {
+      throw new XmlSecurityError('parameterEntity', 'Parameter entity references are not allowed', position);
+    }
+
+    const costs = new Map<string, EntityCost>();
+    const { maxEntityExpansions: limit, maxEntityExpansionSize: sizeLimit } = this.options;
+    const costOf = (name: string, chain: string[]): EntityCost => {
+      const known = costs.get(name);
+      if (known !== undefined) {
+        return known;
+      }
+      if (chain.includes(name)) {
+        throw new XmlSecurityError('entityExpansion', `Entity '${name}' refers to itself`, position);
+      }
+      const value = values.get(name) as string;
+      const cost = { count: 1, size: value.length };
+      for (const reference of value.matchAll(/&([^\s&;<>"']+);/g)) {
+        if (values.has(reference[1])) {
+          const nested = costOf(reference[1], [...chain, name]);
+          cost.count += nested.count;
+          cost.size += nested.size - reference[0].length;
+        }
+        if (cost.count > limit) {
+          throw new XmlSecurityError(
+            'entityExpansion',
+            `Entity expansion limit exceeded: entity '${name}' expands to more than ${limit} entities`,
+            position
+          );
+        }
+        if (cost.size > sizeLimit) {
+          throw new XmlSecurityError(
+            'entityExpansion',
+            `Entity expansion size limit exceeded: entity '${name}' expands to more than ${sizeLimit} characters`,
+            position
+          );
+        }
+      }
+      costs.set(name, cost);
+      return cost;
+    };
+
+    values.forEach((_value, name) => costOf(name, []));
+    return costs;
+  }
+}
+
+export default XmlSecurityGuard;
@@ -0,0 +1,1281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DOMParser } from '@xmldom/xmldom';
+import * as sax from 'sax';
+import { pipeline } from 'stream';
+import EncodingDetector from './encodingDetector';
+import { FileNotFoundError } from './errors';
+
+// one schema violation - line and column (1-based) point at the start tag of the element, or at the error for
+// malformed XML; rule names the failed constraint ("minOccurs", "enumeration", "required")
+export interface XsdViolation {
+  line: number;
+  column: number;
+  path: string;
+  rule: string;
+  message: string;
+}
+
+export interface XsdValidationResult {
+  isValid: boolean;
+  elements: number;
+  violations: XsdViolation[];
+}
+
+interface Facets {
+  enumeration?: string[];
+  // patterns of one restriction step are alternatives, the steps of a derivation all apply
+  patterns?: { source: string; regex: RegExp }[];
+  length?: number;
+  minLength?: number;
+  maxLength?: number;
+  minInclusive?: string;
+  maxInclusive?: string;
+  minExclusive?: string;
+  maxExclusive?: string;
+  totalDigits?: number;
+  fractionDigits?: number;
+}
+
+// built-in types have builtin set, restrictions a base, lists an itemType and unions memberTypes
+interface SimpleType {
+  kind: 'simple';
+  name: string;
+  builtin?: string;
+  base?: SimpleType;
+  itemType?: SimpleType;
+  memberTypes?: SimpleType[];
+  facets: Facets;
+}
+
+interface AttributeDecl {
+  name: string;
+  key: string;
+  type: SimpleType;
+  required: boolean;
+  prohibited: boolean;
+  fixed?: string;
+}
+
+// elements maps the key of every element the content model allows to its declaration, wildcards are the xs:any
+// particles of the model - simpleContent is set when the element holds text only
+interface ComplexType {
+  kind: 'complex';
+  name: string;
+  content: Particle | null;
+  mixed: boolean;
+  attributes: Map<string, AttributeDecl>;
+  anyAttribute: boolean;
+  simpleContent?: SimpleType;
+  elements: Map<string, ElementDecl>;
+  wildcards: WildcardParticle[];
+}
+
+interface ElementDecl {
+  name: string;
+  key: string;
+  type: SimpleType | ComplexType;
+  nillable: boolean;
+  fixed?: string;
+}
+
+// xs:any - namespaces lists the namespaces it allows ('' for no namespace), null for any but the excluded ones
+interface WildcardParticle {
+  kind: 'any';
+  processContents: string;
+  namespaces: string[] | null;
+  excluded: string[];
+  min: number;
+  max: number;
+}
+
+type Particle =
+  | { kind: 'element'; decl: ElementDecl; min: number; max: number }
+  | { kind: 'sequence' | 'choice' | 'all'; particles: Particle[]; min: number; max: number }
+  | WildcardParticle;
+
+// child element of an element being validated - wildcard children matched an xs:any
+interface ChildElement {
+  key: string;
+  namespace: string;
+  name: string;
+  line: number;
+  column: number;
+  path: string;
+  wildcard: boolean;
+}
+
+// element open in the document - type is null (and skip set) for elements that cannot be validated
+interface OpenElement {
+  name: string;
+  path: string;
+  line: number;
+  column: number;
+  decl: ElementDecl | null;
+  type: SimpleType | ComplexType | null;
+  skip: boolean;
+  nil: boolean;
+  children: ChildElement[];
+  childCounts: Map<string, number>;
+  text: string;
+  hasText: boolean;
+  hasChildElements: boolean;
+}
+
+// state of matching the children of one element against its content model
+interface MatchContext {
+  owner: OpenElement;
+  children: ChildElement[];
+  consumed: Map<string, number>;
+  violations: XsdViolation[];
+}
+
+// validates XML against an XML Schema (XSD 1.0) - element structure, required elements and their cardinality,
+// attributes, built-in simple types and restrictions (enumeration, pattern, length and range facets); identity
+// constraints, substitution groups and xsi:type are not checked. The document is streamed, so files of any size
+// can be validated
+export class XsdValidator {
+  private static readonly XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+  private static readonly XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+  private static readonly XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+  private static readonly UNBOUNDED = Number.POSITIVE_INFINITY;
+
+  private static readonly NUMERIC_TYPES = new Set([
+    'decimal', 'integer', 'int', 'long', 'short', 'byte', 'nonNegativeInteger', 'positiveInteger', 'negativeInteger',
+    'nonPositiveInteger', 'unsignedLong', 'unsignedInt', 'unsignedShort', 'unsignedByte', 'float', 'double'
+  ]);
+
+  // lexical forms of the built-in types - integer types are checked against their range as well
+  private static readonly BUILTIN_PATTERNS: Record<string, RegExp> = {
+    boolean: /^(true|false|1|0)$/,
+    decimal: /^[+-]?(\d+(\.\d*)?|\.\d+)$/,
+    integer: /^[+-]?\d+$/,
+    float: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|[+-]?INF|NaN)$/,
+    double: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|[+-]?INF|NaN)$/,
+    date: /^-?\d{4,}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])(Z|[+-]\d{2}:\d{2})?$/,
+    dateTime: /^-?\d{4,}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])T([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+    time: /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/,
+    gYear: /^-?\d{4,}(Z|[+-]\d{2}:\d{2})?$/,
+    gYearMonth: /^-?\d{4,}-(0[1-9]|1[0-2])(Z|[+-]\d{2}:\d{2})?$/,
+    gMonth: /^--(0[1-9]|1[0-2])(Z|[+-]\d{2}:\d{2})?$/,
+    gMonthDay: /^--(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])(Z|[+-]\d{2}:\d{2})?$/,
+    gDay: /^---(0[1-9]|[12]\d|3[01])(Z|[+-]\d{2}:\d{2})?$/,
+    duration: /^-?P(?=\d|T\d)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/,
+    hexBinary: /^([0-9a-fA-F]{2})*$/,
+    base64Binary: /^[A-Za-z0-9+/\s]*={0,2}$/,
+    language: /^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/,
+    Name: /^[A-Za-z_:][\w.:-]*$/,
+    NCName: /^[A-Za-z_][\w.-]*$/,
+    ID: /^[A-Za-z_][\w.-]*$/,
+    IDREF: /^[A-Za-z_][\w.-]*$/,
+    ENTITY: /^[A-Za-z_][\w.-]*$/,
+    NMTOKEN: /^[\w.:-]+$/,
+    QName: /^([A-Za-z_][\w.-]*:)?[A-Za-z_][\w.-]*$/
+  };
+
+  // derived integer types with their lower and upper bounds
+  private static readonly INTEGER_RANGES: Record<string, [string | null, string | null]> = {
+    long: ['-9223372036854775808', '9223372036854775807'],
+    int: ['-2147483648', '2147483647'],
+    short: ['-32768', '32767'],
+    byte: ['-128', '127'],
+    nonNegativeInteger: ['0', null],
+    positiveInteger: ['1', null],
+    negativeInteger: [null, '-1'],
+    nonPositiveInteger: [null, '0'],
+    unsignedLong: ['0', '18446744073709551615'],
+    unsignedInt: ['0', '4294967295'],
+    unsignedShort: ['0', '65535'],
+    unsignedByte: ['0', '255']
+  };
+
+  // list types of the schema namespace and the type their items have
+  private static readonly BUILTIN_LISTS: Record<string, string> = { IDREFS: 'IDREF', ENTITIES: 'ENTITY', NMTOKENS: 'NMTOKEN' };
+
+  private static readonly BUILTIN_TYPES = new Set([
+    ...Object.keys(XsdValidator.BUILTIN_PATTERNS), ...Object.keys(XsdValidator.INTEGER_RANGES),
+    'string', 'normalizedString', 'token', 'anyURI', 'anySimpleType', 'NOTATION'
+  ]);
+
+  // top-level declarations of every loaded schema document by {namespace}name
+  private globalElements = new Map<string, any>();
+  private globalAttributes = new Map<string, any>();
+  private complexTypeNodes = new Map<string, any>();
+  private simpleTypeNodes = new Map<string, any>();
+  private groupNodes = new Map<string, any>();
+  private attributeGroupNodes = new Map<string, any>();
+  private loadedSchemas = new Set<string>();
+
+  // compiled declarations - filled on first use, so recursive types refer to the object being built
+  private elementCache = new Map<any, ElementDecl>();
+  private typeCache = new Map<any, SimpleType | ComplexType>();
+  private builtinCache = new Map<string, SimpleType | ComplexType>();
+
+  // schemaPath resolves xs:include and xs:import locations, relative to the schema file
+  constructor(schemaContent: string, schemaPath: string = '') {
+    this.loadSchema(schemaContent, schemaPath);
+    // compile every global element up front so errors in the schema are reported before any document is read
+    for (const node of this.globalElements.values()) {
+      this.compileElement(node, true);
+    }
+  }
+
+  public static fromFile(schemaPath: string): XsdValidator {
+    if (!fs.existsSync(schemaPath)) {
+      throw new FileNotFoundError(schemaPath, { label: 'Schema file' });
+    }
+    const content = EncodingDetector.decode(fs.readFileSync(schemaPath), EncodingDetector.resolveFileEncoding(schemaPath, 'auto', true));
+    return new XsdValidator(content, schemaPath);
+  }
+
+  // stream a file through the validator
+  public async validateFile(filePath: string, encoding: string = 'auto'): Promise<XsdValidationResult> {
+    if (!fs.existsSync(filePath)) {
+      throw new FileNotFoundError(filePath);
+    }
+
+    const session = this.createSession();
+    const decoder = EncodingDetector.createDecodeStream(EncodingDetector.resolveFileEncoding(filePath, encoding, true));
+    const stream = fs.createReadStream(filePath);
+    const input = pipeline(stream, decoder, () => undefined);
+
+    try {
+      for await (const chunk of input) {
+        if (!session.write(chunk as string)) {
+          break;
+        }
+      }
+      return session.close();
+    } finally {
+      stream.destroy();
+      decoder.destroy();
+    }
+  }
+
+  public validateString(content: string): XsdValidationResult {
+    const session = this.createSession();
+    session.write(content);
+    return session.close();
+  }
+
+  // a sax parser feeding the element stack - write() returns false once the XML is malformed, as nothing after a
+  // syntax error can be checked
+  private createSession(): { write: (chunk: string) => boolean; close: () => XsdValidationResult } {
+    const parser = sax.parser(true, { xmlns: true, position: true });
+    const violations: XsdViolation[] = [];
+    const stack: OpenElement[] = [];
+    let elements = 0;
+    let failed = false;
+    let tagLine = 1;
+    let tagColumn = 1;
+
+    const report = (element: { line: number; column: number; path: string }, rule: string, message: string) => {
+      violations.push({ line: element.line, column: element.column, path: element.path, rule, message });
+    };
+
+    parser.onopentagstart = (node) => {
+      // the parser has read the tag name and the character after it, which cannot span lines
+      tagLine = parser.line + 1;
+      tagColumn = parser.column - node.name.length - 1;
+    };
+
+    parser.onopentag = (tag) => {
+      const node = tag as sax.QualifiedTag;
+      const parent = stack[stack.length - 1];
+      const key = this.key(node.uri, node.local);
+      const position = parent ? (parent.childCounts.get(node.name) || 0) + 1 : 1;
+      parent?.childCounts.set(node.name, position);
+
+      const element: OpenElement = {
+        name: node.name,
+        path: parent ? `${parent.path}/${node.name}[${position}]` : `/${node.name}`,
+        line: tagLine,
+        column: tagColumn,
+        decl: null,
+        type: null,
+        skip: parent ? parent.skip : false,
+        nil: false,
+        children: [],
+        childCounts: new Map(),
+        text: '',
+        hasText: false,
+        hasChildElements: false
+      };
+      elements++;
+
+      if (!parent) {
+        const node = this.globalElements.get(key);
+        if (node) {
+          element.decl = this.compileElement(node, true);
+        } else {
+          report(element, 'element', `Element '${element.name}' is not declared in the schema`);
+          element.skip = true;
+        }
+      } else if (!element.skip && parent.type) {
+        parent.hasChildElements = true;
+        if (parent.type.kind === 'simple' || parent.type.simpleContent) {
+          report(element, 'content', `Element '${parent.name}' cannot contain child elements`);
+          element.skip = true;
+        } else {
+          const child = { key, namespace: node.uri, name: node.name, line: element.line, column: element.column, path: element.path, wildcard: false };
+          const decl = parent.type.elements.get(key);
+          const wildcard = parent.type.wildcards.find(particle => this.allowsNamespace(particle, node.uri));
+          if (decl) {
+            parent.children.push(child);
+            element.decl = decl;
+          } else if (wildcard) {
+            // xs:any - the element is validated when the schema declares it, "strict" wildcards require a declaration
+            // and "skip" ones are not validated at all
+            parent.children.push({ ...child, wildcard: true });
+            const global = this.globalElements.get(key);
+            if (global && wildcard.processContents !== 'skip') {
+              element.decl = this.compileElement(global, true);
+            } else {
+              if (wildcard.processContents === 'strict') {
+                report(element, 'element', `Element '${element.name}' is not declared in the schema`);
+              }
+              element.skip = true;
+            }
+          } else {
+            report(element, 'element', `Element '${element.name}' is not allowed in '${parent.name}'`);
+            element.skip = true;
+          }
+        }
+      }
+
+      if (element.decl && !element.skip) {
+        element.type = element.decl.type;
+        this.validateAttributes(element, node.attributes, report);
+      }
+      stack.push(element);
+    };
+
+    parser.onclosetag = () => {
+      const element = stack.pop();
+      // the content of elements closed by a syntax error is incomplete
+      if (element && !failed && !element.skip && element.type) {
+        this.validateElement(element, report);
+      }
+    };
+
+    const onText = (text: string) => {
+      const element = stack[stack.length - 1];
+      if (!element || element.skip || !element.type) {
+        return;
+      }
+      // only text-only elements keep their text, for the others whether there is any is enough
+      if (element.type.kind === 'simple' || element.type.simpleContent) {
+        element.text += text;
+      }
+      element.hasText = element.hasText || text.trim().length > 0;
+    };
+    parser.ontext = onText;
+    parser.oncdata = onText;
+
+    parser.onerror = (error) => {
+      failed = true;
+      violations.push({
+        line: parser.line + 1,
+        column: Math.max(parser.column, 1),
+        path: stack.length > 0 ? stack[stack.length - 1].path : '/',
+        rule: 'syntax',
+        message: error.message.split('\n')[0]
+      });
+    };
+
+    return {
+      write: (chunk: string) => {
+        if (!failed) {
+          parser.write(chunk);
+        }
+        return !failed;
+      },
+      close: () => {
+        if (!failed) {
+          parser.close();
+        }
+        if (elements === 0 && !failed) {
+          violations.push({ line: 1, column: 1, path: '/', rule: 'syntax', message: 'Document has no root element' });
+        }
+        // content model violations are found when an element closes, after the ones of its children
+        violations.sort((a, b) => a.line - b.line || a.column - b.column);
+        return { isValid: violations.length === 0, elements, violations };
+      }
+    };
+  }
+
+  private validateAttributes(
+    element: OpenElement,
+    attributes: Record<string, sax.QualifiedAttribute>,
+    report: (target: { line: number; column: number; path: string }, rule: string, message: string) => void
+  ): void {
+    const type = element.type as SimpleType | ComplexType;
+    const declared = type.kind === 'complex' ? type.attributes : new Map<string, AttributeDecl>();
+    const seen = new Set<string>();
+
+    for (const attribute of Object.values(attributes)) {
+      if (attribute.name === 'xmlns' || attribute.prefix === 'xmlns' || attribute.uri === XsdValidator.XML_NAMESPACE) {
+        continue;
+      }
+      if (attribute.uri === XsdValidator.XSI_NAMESPACE) {
+        element.nil = element.nil || (attribute.local === 'nil' && (attribute.value === 'true' || attribute.value === '1'));
+        continue;
+      }
+
+      const key = this.key(attribute.uri, attribute.local);
+      const decl = declared.get(key);
+      if (!decl || decl.prohibited) {
+        if (decl || type.kind !== 'complex' || !type.anyAttribute) {
+          report(element, 'attribute', `Attribute '${attribute.name}' is not allowed on element '${element.name}'`);
+        }
+        continue;
+      }
+
+      seen.add(key);
+      const error = this.checkValue(decl.type, attribute.value);
+      if (error) {
+        report(element, error.rule, `Attribute '${attribute.name}' of element '${element.name}': ${error.message}`);
+      } else if (decl.fixed !== undefined && this.normalizeWhitespace(decl.type, attribute.value) !== decl.fixed) {
+        report(element, 'fixed', `Attribute '${attribute.name}' of element '${element.name}' must be '${decl.fixed}'`);
+      }
+    }
+
+    for (const decl of declared.values()) {
+      if (decl.required && !seen.has(decl.key)) {
+        report(element, 'required', `Element '${element.name}' is missing required attribute '${decl.name}'`);
+      }
+    }
+  }
+
+  // text of text-only elements against their simple type, children of the others against the content model
+  private validateElement(element: OpenElement, report: (target: { line: number; column: number; path: string }, rule: string, message: string) => void): void {
+    const type = element.type as SimpleType | ComplexType;
+    const decl = element.decl as ElementDecl;
+
+    if (element.nil) {
+      if (!decl.nillable) {
+        report(element, 'nillable', `Element '${element.name}' is not nillable`);
+      } else if (element.hasText || element.hasChildElements) {
+        report(element, 'nillable', `Element '${element.name}' is nil and must be empty`);
+      }
+      return;
+    }
+
+    const simpleType = type.kind === 'simple' ? type : type.simpleContent;
+    if (simpleType) {
+      if (element.hasChildElements) {
+        return;
+      }
+      const error = this.checkValue(simpleType, element.text);
+      if (error) {
+        report(element, error.rule, `Element '${element.name}': ${error.message}`);
+      } else if (decl.fixed !== undefined && this.normalizeWhitespace(simpleType, element.text) !== decl.fixed) {
+        report(element, 'fixed', `Element '${element.name}' must be '${decl.fixed}'`);
+      }
+      return;
+    }
+
+    const complexType = type as ComplexType;
+    if (!complexType.mixed && element.hasText) {
+      report(element, 'content', `Element '${element.name}' cannot contain text`);
+    }
+    if (complexType.content) {
+      const violations: XsdViolation[] = [];
+      const context: MatchContext = { owner: element, children: element.children, consumed: new Map(), violations };
+      let index = this.matchParticle(complexType.content, context, 0);
+
+      // children left over are either more of an element than allowed or in the wrong place
+      for (; index < element.children.length; index++) {
+        const child = element.children[index];
+        const max = context.consumed.get(child.key);
+        const childTarget = { line: child.line, column: child.column, path: child.path };
+        if (max !== undefined) {
+          violations.push({ ...childTarget, rule: 'maxOccurs', message: `Element '${child.name}' can occur at most ${max} time${max === 1 ? '' : 's'} in '${element.name}'` });
+        } else {
+          violations.push({ ...childTarget, rule: 'order', message: `Element '${child.name}' is not expected at this position in '${element.name}'` });
+        }
+      }
+      violations.forEach(violation => report(violation, violation.rule, violation.message));
+    }
+  }
+
+  // match children from index against a particle and return the index after the children it took
+  private matchParticle(particle: Particle, context: MatchContext, index: number): number {
+    const { children, owner } = context;
+
+    switch (particle.kind) {
+      case 'element': {
+        let count = 0;
+        while (index < children.length && count < particle.max && children[index].key === particle.decl.key) {
+          count++;
+          index++;
+        }
+        if (count > 0) {
+          context.consumed.set(particle.decl.key, particle.max);
+        }
+        if (count < particle.min) {
+          this.reportMissing(context, count === 0
+            ? `Element '${owner.name}' is missing required element '${particle.decl.name}'`
+            : `Element '${owner.name}' needs at least ${particle.min} '${particle.decl.name}' elements, found ${count}`);
+        }
+        return index;
+      }
+
+      case 'any': {
+        let count = 0;
+        while (index < children.length && count < particle.max && this.canStartWith(particle, children[index])) {
+          count++;
+          index++;
+        }
+        if (count < particle.min) {
+          this.reportMissing(context, `Element '${owner.name}' needs at least ${particle.min} more element${particle.min === 1 ? '' : 's'}`);
+        }
+        return index;
+      }
+
+      case 'all': {
+        const counts = new Map<string, number>();
+        const keys = new Map<string, Particle & { kind: 'element' }>();
+        particle.particles.forEach(item => item.kind === 'element' && keys.set(item.decl.key, item));
+        while (index < children.length && keys.has(children[index].key)) {
+          const child = children[index];
+          const count = (counts.get(child.key) || 0) + 1;
+          counts.set(child.key, count);
+          if (count > 1) {
+            context.violations.push({
+              line: child.line, column: child.column, path: child.path,
+              rule: 'maxOccurs', message: `Element '${child.name}' can occur at most 1 time in '${owner.name}'`
+            });
+          }
+          index++;
+        }
+        if (counts.size > 0 || particle.min > 0) {
+          for (const item of keys.values()) {
+            if (item.min > 0 && !counts.has(item.decl.key)) {
+              this.reportMissing(context, `Element '${owner.name}' is missing required element '${item.decl.name}'`);
+            }
+          }
+        }
+        return index;
+      }
+
+      case 'sequence':
+      case 'choice': {
+        let iterations = 0;
+        while (iterations < particle.max) {
+          const pending: XsdViolation[] = [];
+          const next = particle.kind === 'sequence'
+            ? this.matchSequence(particle.particles, { ...context, violations: pending }, index)
+            : this.matchChoice(particle.particles, { ...context, violations: pending }, index);
+
+          // an iteration that took no children only counts (with its missing elements) when one is required
+          if (next === index) {
+            if (iterations < particle.min && !this.isEmptiable(particle)) {
+              context.violations.push(...pending);
+              if (pending.length === 0 && particle.kind === 'choice') {
+                this.reportMissing(context, `Element '${owner.name}' needs one of: ${this.describeFirst(particle)}`);
+              }
+            }
+            break;
+          }
+          context.violations.push(...pending);
+          index = next;
+          iterations++;
+        }
+        return index;
+      }
+    }
+  }
+
+  // items in order - children belonging to an item already passed are out of order, reported and skipped
+  private matchSequence(items: Particle[], context: MatchContext, index: number): number {
+    const { children, owner } = context;
+
+    items.forEach((item, position) => {
+      const earlier = items.slice(0, position);
+      while (
+        index < children.length &&
+        earlier.some(previous => this.canStartWith(previous, children[index])) &&
+        !this.canStartWith(item, children[index])
+      ) {
+        const child = children[index];
+        const max = context.consumed.get(child.key);
+        context.violations.push({
+          line: child.line, column: child.column, path: child.path,
+          ...(max !== undefined && this.countOf(children, child.key) > max
+            ? { rule: 'maxOccurs', message: `Element '${child.name}' can occur at most ${max} time${max === 1 ? '' : 's'} in '${owner.name}'` }
+            : { rule: 'order', message: `Element '${child.name}' is not expected at this position in '${owner.name}'` })
+        });
+        index++;
+      }
+      index = this.matchParticle(item, context, index);
+    });
+
+    return index;
+  }
+
+  // the branch that can start with the next child - none when the child belongs to what follows the choice, the
+  // caller reports the choice as missing when it is required
+  private matchChoice(branches: Particle[], context: MatchContext, index: number): number {
+    const child = context.children[index];
+    const branch = child ? branches.find(item => this.canStartWith(item, child)) : undefined;
+    return branch ? this.matchParticle(branch, context, index) : index;
+  }
+
+  private reportMissing(context: MatchContext, message: string): void {
+    const { owner } = context;
+    context.violations.push({ line: owner.line, column: owner.column, path: owner.path, rule: 'minOccurs', message });
+  }
+
+  private canStartWith(particle: Particle, child: ChildElement): boolean {
+    switch (particle.kind) {
+      case 'element':
+        return particle.max > 0 && particle.decl.key === child.key;
+      case 'any':
+        return particle.max > 0 && child.wildcard && this.allowsNamespace(particle, child.namespace);
+      case 'choice':
+      case 'all':
+        return particle.particles.some(item => this.canStartWith(item, child));
+      case 'sequence':
+        for (const item of particle.particles) {
+          if (this.canStartWith(item, child)) {
+            return true;
+          }
+          if (!this.isEmptiable(item)) {
+            return false;
+          }
+        }
+        return false;
+    }
+  }
+
+  private isEmptiable(particle: Particle): boolean {
+    if (particle.min === 0) {
+      return true;
+    }
+    switch (particle.kind) {
+      case 'element':
+      case 'any':
+        return false;
+      case 'choice':
+        return particle.particles.some(item => this.isEmptiable(item));
+      default:
+        return particle.particles.every(item => this.isEmptiable(item));
+    }
+  }
+
+  // names of the elements a particle can start with, for messages
+  private describeFirst(particle: Particle): string {
+    switch (particle.kind) {
+      case 'element':
+        return particle.decl.name;
+      case 'any':
+        return 'any element';
+      default:
+        return particle.particles.map(item => this.describeFirst(item)).join(', ');
+    }
+  }
+
+  private allowsNamespace(particle: WildcardParticle, namespace: string): boolean {
+    return (particle.namespaces === null || particle.namespaces.includes(namespace)) && !particle.excluded.includes(namespace);
+  }
+
+  private countOf(children: ChildElement[], key: string): number {
+    return children.filter(child => child.key === key).length;
+  }
+
+  // check a value against a simple type - returns the failed rule, or null when the value is valid
+  private checkValue(type: SimpleType, value: string): { rule: string; message: string } | null {
+    const normalized = this.normalizeWhitespace(type, value);
+
+    if (type.memberTypes) {
+      return type.memberTypes.some(member => this.checkValue(member, value) === null)
+        ? this.checkFacets(type, normalized, normalized.length)
+        : { rule: 'type', message: `'${normalized}' is not a valid ${type.name}` };
+    }
+    if (type.itemType) {
+      const items = normalized.split(' ').filter(item => item.length > 0);
+      for (const item of items) {
+        const error = this.checkValue(type.itemType, item);
+        if (error) {
+          return error;
+        }
+      }
+      return this.checkFacets(type, normalized, items.length);
+    }
+    if (type.base) {
+      const error = this.checkValue(type.base, value);
+      if (error) {
+        return error;
+      }
+      // list restrictions measure length in items
+      const length = this.isList(type.base) ? normalized.split(' ').filter(item => item.length > 0).length : Array.from(normalized).length;
+      return this.checkFacets(type, normalized, length);
+    }
+    if (type.builtin) {
+      return this.checkBuiltin(type.builtin, normalized);
+    }
+    return null;
+  }
+
+  private checkBuiltin(builtin: string, value: string): { rule: string; message: string } | null {
+    const invalid = { rule: 'type', message: `'${value}' is not a valid ${builtin}` };
+    if (builtin in XsdValidator.INTEGER_RANGES) {
+      if (!XsdValidator.BUILTIN_PATTERNS.integer.test(value)) {
+        return invalid;
+      }
+      const [min, max] = XsdValidator.INTEGER_RANGES[builtin];
+      const number = BigInt(value);
+      return (min !== null && number < BigInt(min)) || (max !== null && number > BigInt(max)) ? invalid : null;
+    }
+    const pattern = XsdValidator.BUILTIN_PATTERNS[builtin];
+    return pattern && !pattern.test(value) ? invalid : null;
+  }
+
+  private checkFacets(type: SimpleType, value: string, length: number): { rule: string; message: string } | null {
+    const facets = type.facets;
+
+    if (facets.enumeration && !facets.enumeration.includes(value)) {
+      const listed = facets.enumeration.slice(0, 10).join(', ') + (facets.enumeration.length > 10 ? ', ...' : '');
+      return { rule: 'enumeration', message: `'${value}' is not one of: ${listed}` };
+    }
+    if (facets.patterns && !facets.patterns.some(pattern => pattern.regex.test(value))) {
+      return { rule: 'pattern', message: `'${value}' does not match the pattern ${facets.patterns.map(pattern => pattern.source).join(' | ')}` };
+    }
+    if (facets.length !== undefined && length !== facets.length) {
+      return { rule: 'length', message: `'${value}' must have a length of ${facets.length}` };
+    }
+    if (facets.minLength !== undefined && length < facets.minLength) {
+      return { rule: 'minLength', message: `'${value}' is shorter than ${facets.minLength}` };
+    }
+    if (facets.maxLength !== undefined && length > facets.maxLength) {
+      return { rule: 'maxLength', message: `'${value}' is longer than ${facets.maxLength}` };
+    }
+
+    const bounds: [keyof Facets, (comparison: number) => boolean, string][] = [
+      ['minInclusive', comparison => comparison >= 0, 'at least'],
+      ['maxInclusive', comparison => comparison <= 0, 'at most'],
+      ['minExclusive', comparison => comparison > 0, 'more than'],
+      ['maxExclusive', comparison => comparison < 0, 'less than']
+    ];
+    for (const [facet, accepts, wording] of bounds) {
+      const bound = facets[facet] as string | undefined;
+      if (bound !== undefined && !accepts(this.compare(type, value, bound))) {
+        return { rule: facet, message: `'${value}' must be ${wording} ${bound}` };
+      }
+    }
+
+    const digits = /^[+-]?0*(\d*)(?:\.(\d*?)0*)?$/.exec(value);
+    if (digits && facets.totalDigits !== undefined && (digits[1] + (digits[2] || '')).length > facets.totalDigits) {
+      return { rule: 'totalDigits', message: `'${value}' has more than ${facets.totalDigits} digits` };
+    }
+    if (digits && facets.fractionDigits !== undefined && (digits[2] || '').length > facets.fractionDigits) {
+      return { rule: 'fractionDigits', message: `'${value}' has more than ${facets.fractionDigits} fraction digits` };
+    }
+    return null;
+  }
+
+  // numbers compare by value, dates and times (same lexical form) as text
+  private compare(type: SimpleType, value: string, bound: string): number {
+    if (XsdValidator.NUMERIC_TYPES.has(this.getBuiltin(type))) {
+      return Number(value) - Number(bound);
+    }
+    return value < bound ? -1 : value > bound ? 1 : 0;
+  }
+
+  // string keeps whitespace, normalizedString turns it into spaces, every other type collapses it
+  private normalizeWhitespace(type: SimpleType, value: string): string {
+    const builtin = this.getBuiltin(type);
+    if (builtin === 'string' || builtin === 'anySimpleType') {
+      return value;
+    }
+    if (builtin === 'normalizedString') {
+      return value.replace(/[\t\n\r]/g, ' ');
+    }
+    return value.replace(/[\t\n\r ]+/g, ' ').trim();
+  }
+
+  private getBuiltin(type: SimpleType): string {
+    let current: SimpleType | undefined = type;
+    while (current && !current.builtin) {
+      current = current.itemType || current.memberTypes ? undefined : current.base;
+    }
+    return current && current.builtin ? current.builtin : 'token';
+  }
+
+  private isList(type: SimpleType): boolean {
+    let current: SimpleType | undefined = type;
+    while (current) {
+      if (current.itemType) {
+        return true;
+      }
+      current = current.base;
+    }
+    return false;
+  }
+
+  // read a schema document and the ones it includes or imports
+  private loadSchema(content: string, schemaPath: string): void {
+    const resolvedPath = schemaPath ? path.resolve(schemaPath) : '';
+    if (resolvedPath) {
+      if (this.loadedSchemas.has(resolvedPath)) {
+        return;
+      }
+      this.loadedSchemas.add(resolvedPath);
+    }
+
+    // xmldom wraps errors thrown from onError, so the first message is kept for the report
+    let document: any;
+    let parseError: string | undefined;
+    try {
+      document = new DOMParser({
+        onError: (level, message) => {
+          if (level !== 'warning') {
+            parseError = parseError || message;
+            throw new Error(message);
+          }
+        }
+      }).parseFromString(content, 'text/xml');
+    } catch (error) {
+      const message = parseError || (error instanceof Error ? error.message : 'Unknown error');
+      throw new Error(`Invalid XSD: ${message.split('\n')[0].trim()}`);
+    }
+
+    const schema = document.documentElement;
+    if (!schema || schema.namespaceURI !== XsdValidator.XSD_NAMESPACE || schema.localName !== 'schema') {
+      throw new Error('Invalid XSD: the root element must be xs:schema');
+    }
+
+    const targetNamespace = schema.getAttribute('targetNamespace') || '';
+    for (const node of this.childElements(schema)) {
+      const name = node.getAttribute('name');
+      const key = this.key(targetNamespace, name);
+      switch (node.localName) {
+        case 'element': this.globalElements.set(key, node); break;
+        case 'attribute': this.globalAttributes.set(key, node); break;
+        case 'complexType': this.complexTypeNodes.set(key, node); break;
+        case 'simpleType': this.simpleTypeNodes.set(key, node); break;
+        case 'group': this.groupNodes.set(key, node); break;
+        case 'attributeGroup': this.attributeGroupNodes.set(key, node); break;
+        case 'include':
+        case 'import':
+        case 'redefine': {
+          const location = node.getAttribute('schemaLocation');
+          // imports without a location refer to namespaces the validator knows (XML, XSD) or cannot fetch
+          if (!location) {
+            break;
+          }
+          if (/^[a-z][a-z0-9+.-]*:\/\//i.test(location)) {
+            throw new Error(`Invalid XSD: remote schema '${location}' cannot be loaded, save it next to the schema and refer to the file`);
+          }
+          const includedPath = path.resolve(resolvedPath ? path.dirname(resolvedPath) : process.cwd(), location);
+          if (!fs.existsSync(includedPath)) {
+            throw new Error(`Invalid XSD: schema '${location}' not found`);
+          }
+          this.loadSchema(fs.readFileSync(includedPath, 'utf8'), includedPath);
+          break;
+        }
+      }
+    }
+  }
+
+  private compileElement(node: any, global: boolean): ElementDecl {
+    const ref = node.getAttribute('ref');
+    if (ref) {
+      const target = this.globalElements.get(this.resolveQName(node, ref));
+      if (!target) {
+        throw new Error(`Invalid XSD: element '${ref}' is not defined`);
+      }
+      return this.compileElement(target, true);
+    }
+
+    const cached = this.elementCache.get(node);
+    if (cached) {
+      return cached;
+    }
+
+    const schema = node.ownerDocument.documentElement;
+    const form = node.getAttribute('form') || schema.getAttribute('elementFormDefault') || 'unqualified';
+    const namespace = global || form === 'qualified' ? schema.getAttribute('targetNamespace') || '' : '';
+    const name = node.getAttribute('name');
+    const decl: ElementDecl = { name, key: this.key(namespace, name), type: this.anyType(), nillable: node.getAttribute('nillable') === 'true' };
+    if (node.hasAttribute('fixed')) {
+      decl.fixed = node.getAttribute('fixed');
+    }
+    this.elementCache.set(node, decl);
+
+    const typeName = node.getAttribute('type');
+    const inline = this.childElements(node).find(child => child.localName === 'complexType' || child.localName === 'simpleType');
+    if (typeName) {
+      decl.type = this.resolveType(node, typeName);
+    } else if (inline) {
+      decl.type = inline.localName === 'complexType' ? this.compileComplexType(inline) : this.compileSimpleType(inline);
+    }
+    return decl;
+  }
+
+  private compileComplexType(node: any): ComplexType {
+    const cached = this.typeCache.get(node);
+    if (cached) {
+      return cached as ComplexType;
+    }
+
+    const type: ComplexType = {
+      kind: 'complex',
+      name: node.getAttribute('name') || 'anonymous type',
+      content: null,
+      mixed: node.getAttribute('mixed') === 'true',
+      attributes: new Map(),
+      anyAttribute: false,
+      elements: new Map(),
+      wildcards: []
+    };
+    this.typeCache.set(node, type);
+
+    for (const child of this.childElements(node)) {
+      switch (child.localName) {
+        case 'sequence':
+        case 'choice':
+        case 'all':
+        case 'group':
+          type.content = this.compileParticle(child);
+          break;
+        case 'simpleContent':
+          this.compileSimpleContent(type, child);
+          break;
+        case 'complexContent':
+          this.compileComplexContent(type, child);
+          break;
+        default:
+          this.addAttribute(type, child);
+      }
+    }
+
+    if (type.content) {
+      this.collectElements(type, type.content);
+    }
+    return type;
+  }
+
+  // text content with attributes - extension adds attributes to a simple type (or to a type with simple content),
+  // restriction narrows the base's text with facets
+  private compileSimpleContent(type: ComplexType, node: any): void {
+    const derivation = this.childElements(node).find(child => child.localName === 'extension' || child.localName === 'restriction');
+    if (!derivation) {
+      return;
+    }
+
+    const base = this.resolveType(derivation, derivation.getAttribute('base'));
+    let simpleType = base.kind === 'simple' ? base : base.simpleContent || this.builtinSimpleType('anySimpleType');
+    if (base.kind === 'complex') {
+      base.attributes.forEach((attribute, key) => type.attributes.set(key, attribute));
+      type.anyAttribute = base.anyAttribute;
+    }
+    if (derivation.localName === 'restriction') {
+      simpleType = { kind: 'simple', name: simpleType.name, base: simpleType, facets: this.compileFacets(derivation) };
+    }
+    type.simpleContent = simpleType;
+
+    for (const child of this.childElements(derivation)) {
+      this.addAttribute(type, child);
+    }
+  }
+
+  // element content derived from another complex type - extension appends to the base content, restriction replaces it
+  private compileComplexContent(type: ComplexType, node: any): void {
+    const derivation = this.childElements(node).find(child => child.localName === 'extension' || child.localName === 'restriction');
+    if (!derivation) {
+      return;
+    }
+
+    const base = this.resolveType(derivation, derivation.getAttribute('base'));
+    type.mixed = type.mixed || node.getAttribute('mixed') === 'true';
+    let content: Particle | null = null;
+    if (base.kind === 'complex') {
+      base.attributes.forEach((attribute, key) => type.attributes.set(key, attribute));
+      type.anyAttribute = base.anyAttribute;
+      if (derivation.localName === 'extension') {
+        content = base.content;
+        type.mixed = type.mixed || base.mixed;
+      }
+    }
+
+    for (const child of this.childElements(derivation)) {
+      if (['sequence', 'choice', 'all', 'group'].includes(child.localName)) {
+        const own = this.compileParticle(child);
+        content = content ? { kind: 'sequence', particles: [content, own], min: 1, max: 1 } : own;
+      } else {
+        this.addAttribute(type, child);
+      }
+    }
+    type.content = content;
+  }
+
+  private compileParticle(node: any): Particle {
+    const min = node.hasAttribute('minOccurs') ? parseInt(node.getAttribute('minOccurs'), 10) : 1;
+    const max = node.getAttribute('maxOccurs') === 'unbounded' ? XsdValidator.UNBOUNDED
+      : node.hasAttribute('maxOccurs') ? parseInt(node.getAttribute('maxOccurs'), 10) : 1;
+
+    switch (node.localName) {
+      case 'element':
+        return { kind: 'element', decl: this.compileElement(node, false), min, max };
+      case 'any': {
+        // ##other is any namespace but the target namespace, and elements without one
+        const targetNamespace = node.ownerDocument.documentElement.getAttribute('targetNamespace') || '';
+        const constraint = node.getAttribute('namespace') || '##any';
+        const namespaces = constraint === '##any' || constraint === '##other' ? null : constraint.split(/\s+/)
+          .map((namespace: string) => namespace === '##targetNamespace' ? targetNamespace : namespace === '##local' ? '' : namespace);
+        const excluded = constraint === '##other' ? [targetNamespace, ''] : [];
+        return { kind: 'any', processContents: node.getAttribute('processContents') || 'strict', namespaces, excluded, min, max };
+      }
+      case 'group': {
+        const ref = node.getAttribute('ref');
+        const group = ref ? this.groupNodes.get(this.resolveQName(node, ref)) : node;
+        if (!group) {
+          throw new Error(`Invalid XSD: group '${ref}' is not defined`);
+        }
+        const model = this.childElements(group).find(child => ['sequence', 'choice', 'all'].includes(child.localName));
+        if (!model) {
+          return { kind: 'sequence', particles: [], min, max };
+        }
+        const particle = this.compileParticle(model);
+        return { ...particle, min, max };
+      }
+      default: {
+        const particles = this.childElements(node)
+          .filter(child => ['element', 'any', 'sequence', 'choice', 'group', 'all'].includes(child.localName))
+          .map(child => this.compileParticle(child));
+        return { kind: node.localName as 'sequence' | 'choice' | 'all', particles, min, max };
+      }
+    }
+  }
+
+  // every element and wildcard a content model allows
+  private collectElements(type: ComplexType, particle: Particle): void {
+    if (particle.kind === 'element') {
+      type.elements.set(particle.decl.key, particle.decl);
+    } else if (particle.kind === 'any') {
+      type.wildcards.push(particle);
+    } else {
+      particle.particles.forEach(item => this.collectElements(type, item));
+    }
+  }
+
+  private addAttribute(type: ComplexType, node: any): void {
+    if (node.localName === 'anyAttribute') {
+      type.anyAttribute = true;
+      return;
+    }
+    if (node.localName === 'attributeGroup') {
+      const ref = node.getAttribute('ref');
+      const group = this.attributeGroupNodes.get(this.resolveQName(node, ref));
+      if (!group) {
+        throw new Error(`Invalid XSD: attribute group '${ref}' is not defined`);
+      }
+      this.childElements(group).forEach(child => this.addAttribute(type, child));
+      return;
+    }
+    if (node.localName !== 'attribute') {
+      return;
+    }
+
+    const ref = node.getAttribute('ref');
+    const declaration = ref ? this.globalAttributes.get(this.resolveQName(node, ref)) : node;
+    if (!declaration) {
+      throw new Error(`Invalid XSD: attribute '${ref}' is not defined`);
+    }
+
+    const schema = declaration.ownerDocument.documentElement;
+    const qualified = ref || (declaration.getAttribute('form') || schema.getAttribute('attributeFormDefault')) === 'qualified';
+    const name = declaration.getAttribute('name');
+    const key = this.key(qualified ? schema.getAttribute('targetNamespace') || '' : '', name);
+    const typeName = declaration.getAttribute('type');
+    const inline = this.childElements(declaration).find(child => child.localName === 'simpleType');
+    const attributeType = typeName ? this.resolveType(declaration, typeName) : inline ? this.compileSimpleType(inline) : this.builtinSimpleType('anySimpleType');
+    if (attributeType.kind !== 'simple') {
+      throw new Error(`Invalid XSD: attribute '${name}' must have a simple type`);
+    }
+
+    const use = node.getAttribute('use') || 'optional';
+    const fixed = node.getAttribute('fixed') || declaration.getAttribute('fixed');
+    type.attributes.set(key, {
+      name,
+      key,
+      type: attributeType,
+      required: use === 'required',
+      prohibited: use === 'prohibited',
+      ...(fixed ? { fixed } : {})
+    });
+  }
+
+  private compileSimpleType(node: any): SimpleType {
+    const cached = this.typeCache.get(node);
+    if (cached) {
+      return cached as SimpleType;
+    }
+
+    const type: SimpleType = { kind: 'simple', name: node.getAttribute('name') || 'value', facets: {} };
+    this.typeCache.set(node, type);
+    const derivation = this.childElements(node).find(child => ['restriction', 'list', 'union'].includes(child.localName));
+    const inlineTypes = (parent: any) => this.childElements(parent).filter(child => child.localName === 'simpleType').map(child => this.compileSimpleType(child));
+
+    if (derivation?.localName === 'restriction') {
+      const baseName = derivation.getAttribute('base');
+      const base = baseName ? this.resolveType(derivation, baseName) : inlineTypes(derivation)[0];
+      if (!base || base.kind !== 'simple') {
+        throw new Error(`Invalid XSD: simple type '${type.name}' must restrict a simple type`);
+      }
+      type.base = base;
+      type.facets = this.compileFacets(derivation);
+      if (!node.getAttribute('name')) {
+        type.name = base.name;
+      }
+    } else if (derivation?.localName === 'list') {
+      const itemName = derivation.getAttribute('itemType');
+      const itemType = itemName ? this.resolveType(derivation, itemName) : inlineTypes(derivation)[0];
+      if (!itemType || itemType.kind !== 'simple') {
+        throw new Error(`Invalid XSD: list type '${type.name}' needs a simple item type`);
+      }
+      type.itemType = itemType;
+    } else if (derivation?.localName === 'union') {
+      const memberNames = (derivation.getAttribute('memberTypes') || '').split(/\s+/).filter((name: string) => name.length > 0);
+      type.memberTypes = [
+        ...memberNames.map((name: string) => this.resolveType(derivation, name) as SimpleType),
+        ...inlineTypes(derivation)
+      ];
+    }
+    return type;
+  }
+
+  private compileFacets(node: any): Facets {
+    const facets: Facets = {};
+    const patterns: { source: string; regex: RegExp }[] = [];
+
+    for (const child of this.childElements(node)) {
+      const value = child.getAttribute('value');
+      switch (child.localName) {
+        case 'enumeration':
+          facets.enumeration = [...(facets.enumeration || []), value];
+          break;
+        case 'pattern':
+          patterns.push({ source: value, regex: this.compilePattern(value) });
+          break;
+        case 'length':
+        case 'minLength':
+        case 'maxLength':
+        case 'totalDigits':
+        case 'fractionDigits':
+          facets[child.localName as 'length'] = parseInt(value, 10);
+          break;
+        case 'minInclusive':
+        case 'maxInclusive':
+        case 'minExclusive':
+        case 'maxExclusive':
+          facets[child.localName as 'minInclusive'] = value;
+          break;
+      }
+    }
+    if (patterns.length > 0) {
+      facets.patterns = patterns;
+    }
+    return facets;
+  }
+
+  // XSD patterns match the whole value and have the \i and \c name character classes JavaScript lacks
+  private compilePattern(pattern: string): RegExp {
+    const source = pattern
+      .replace(/\\i/g, '[A-Za-z_:]')
+      .replace(/\\I/g, '[^A-Za-z_:]')
+      .replace(/\\c/g, '[-.0-9:A-Z_a-z]')
+      .replace(/\\C/g, '[^-.0-9:A-Z_a-z]');
+    try {
+      return new RegExp(`^(?:${source})$`);
+    } catch (error) {
+      throw new Error(`Invalid XSD: pattern '${pattern}' is not supported`);
+    }
+  }
+
+  private resolveType(node: any, qname: string): SimpleType | ComplexType {
+    const key = this.resolveQName(node, qname);
+    const [, namespace, local] = /^\{(.*)\}(.*)$/.exec(key) as RegExpExecArray;
+
+    if (namespace === XsdValidator.XSD_NAMESPACE) {
+      if (local === 'anyType') {
+        return this.anyType();
+      }
+      if (XsdValidator.BUILTIN_TYPES.has(local) || local in XsdValidator.BUILTIN_LISTS) {
+        return this.builtinSimpleType(local);
+      }
+    }
+
+    const complexNode = this.complexTypeNodes.get(key);
+    if (complexNode) {
+      return this.compileComplexType(complexNode);
+    }
+    const simpleNode = this.simpleTypeNodes.get(key);
+    if (simpleNode) {
+      return this.compileSimpleType(simpleNode);
+    }
+    throw new Error(`Invalid XSD: type '${qname}' is not defined`);
+  }
+
+  // built-in types derive from each other only through their lexical check, lists from their item type
+  private builtinSimpleType(name: string): SimpleType {
+    let type = this.builtinCache.get(name) as SimpleType | undefined;
+    if (!type) {
+      const itemType = XsdValidator.BUILTIN_LISTS[name];
+      type = itemType
+        ? { kind: 'simple', name, itemType: this.builtinSimpleType(itemType), facets: { minLength: 1 } }
+        : { kind: 'simple', name, builtin: name, facets: {} };
+      this.builtinCache.set(name, type);
+    }
+    return type;
+  }
+
+  // xs:anyType, and the type of elements declared without one - any attributes, text and children
+  private anyType(): ComplexType {
+    let type = this.builtinCache.get('anyType') as ComplexType | undefined;
+    if (!type) {
+      const wildcard: WildcardParticle = { kind: 'any', processContents: 'lax', namespaces: null, excluded: [], min: 0, max: XsdValidator.UNBOUNDED };
+      type = {
+        kind: 'complex',
+        name: 'anyType',
+        content: wildcard,
+        mixed: true,
+        attributes: new Map(),
+        anyAttribute: true,
+        elements: new Map(),
+        wildcards: [wildcard]
+      };
+      this.builtinCache.set('anyType', type);
+    }
+    return type;
+  }
+
+  // "prefix:name" as {namespace}name - unprefixed names in a schema are in the default namespace
+  private resolveQName(node: any, qname: string): string {
+    const separator = qname.indexOf(':');
+    const prefix = separator === -1 ? '' : qname.slice(0, separator);
+    const namespace = node.lookupNamespaceURI(prefix);
+    if (prefix !== '' && !namespace) {
+      throw new Error(`Invalid XSD: namespace prefix '${prefix}' of '${qname}' is not declared`);
+    }
+    return this.key(namespace || '', qname.slice(separator + 1));
+  }
+
+  private childElements(node: any): any[] {
+    const children: any[] = [];
+    for (let child = node.firstChild; child; child = child.nextSibling) {
+      if (child.nodeType === 1 && child.namespaceURI === XsdValidator.XSD_NAMESPACE && child.localName !== 'annotation') {
+        children.push(child);
+      }
+    }
+    return children;
+  }
+
+  private key(namespace: string, name: string): string {
+    return `{${namespace}}${name}`;
+  }
+}
+
+export default XsdValidator;
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import RecordTable from './recordTable';
+
+export type CSVLineEnding = '\n' | '\r\n';
+
+// options for CSV output - columns fixes the header order, otherwise keys are collected from all records
+export interface CSVWriterOptions {
+  delimiter?: string;
+  quote?: string;
+  lineEnding?: CSVLineEnding;
+  header?: boolean;
+  columns?: string[];
+  quoteAll?: boolean;
+}
+
+export class CSVWriter {
+  private options: Required<Omit<CSVWriterOptions, 'columns'>> & Pick<CSVWriterOptions, 'columns'>;
+
+  constructor(options: CSVWriterOptions = {}) {
+    this.options = {
+      delimiter: ',',
+      quote: '"',
+      lineEnding: '\n',
+      header: true,
+      quoteAll: false,
+      ...options
+    };
+  }
+
+  // header columns - the configured ones, otherwise every record key in the order it first appears
+  public getColumns(records: Record<string, any>[]): string[] {
+    return this.options.columns ? [...this.options.columns] : RecordTable.getColumns(records);
+  }
+
+  // render records as a CSV string - every line, including the last, ends with the line ending
+  public write(records: Record<string, any>[]): string {
+    const columns = this.getColumns(records);
+    const lines = records.map(record => this.formatRow(columns.map(column => record[column])));
+    if (this.options.header && columns.length > 0) {
+      lines.unshift(this.formatRow(columns));
+    }
+    return lines.map(line => line + this.options.lineEnding).join('');
+  }
+
+  // write records to a file - the pipeline waits for the stream to drain so large record lists are not buffered twice,
+  // and fails with the output stream's error (a missing directory)
+  public async writeFile(records: Record<string, any>[], outputPath: string): Promise<string> {
+    await pipeline(Readable.from(this.formatLines(records)), fs.createWriteStream(outputPath, { encoding: 'utf8' }));
+    return outputPath;
+  }
+
+  private *formatLines(records: Record<string, any>[]): Generator<string> {
+    const columns = this.getColumns(records);
+    if (this.options.header && columns.length > 0) {
+      yield this.formatRow(columns) + this.options.lineEnding;
+    }
+    for (const record of records) {
+      yield this.formatRow(columns.map(column => record[column])) + this.options.lineEnding;
+    }
+  }
+
+  public formatRow(values: any[]): string {
+    return values.map(value => this.formatValue(value)).join(this.options.delimiter);
+  }
+
+  // quote fields holding the delimiter, quotes, line breaks or edge whitespace - quotes inside are doubled
+  private formatValue(value: any): string {
+    const text = RecordTable.formatValue(value);
+    const { delimiter, quote, quoteAll } = this.options;
+    const needsQuotes = quoteAll ||
+      text.includes(delimiter) ||
+      text.includes(quote) ||
+      text.includes('\n') ||
+      text.includes('\r') ||
+      text !== text.trim();
+
+    return needsQuotes ? `${quote}${text.split(quote).join(quote + quote)}${quote}` : text;
+  }
+}
+
+export default CSVWriter;
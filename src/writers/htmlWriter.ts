@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import RecordTable from './recordTable';
+
+// one table - the name becomes its caption
+export interface HTMLTableData {
+  name: string;
+  records: Record<string, any>[];
+}
+
+export interface HTMLWriterOptions {
+  title?: string;
+}
+
+export class HTMLWriter {
+  private options: HTMLWriterOptions;
+
+  constructor(options: HTMLWriterOptions = {}) {
+    this.options = { ...options };
+  }
+
+  // render a standalone HTML page with one table per dataset
+  public write(tables: HTMLTableData[]): string {
+    const title = this.options.title || tables.map(table => table.name).join(', ') || 'Records';
+    const lines = [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${this.escape(title)}</title>`,
+      '<style>table { border-collapse: collapse; margin-bottom: 1em; } th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; } th { background: #d9e1f2; }</style>',
+      '</head>',
+      '<body>',
+      ...tables.flatMap(table => this.formatTable(table)),
+      '</body>',
+      '</html>'
+    ];
+    return lines.map(line => line + '\n').join('');
+  }
+
+  public async writeFile(tables: HTMLTableData[], outputPath: string): Promise<string> {
+    await fs.promises.writeFile(outputPath, this.write(tables), 'utf8');
+    return outputPath;
+  }
+
+  private formatTable(table: HTMLTableData): string[] {
+    const columns = RecordTable.getColumns(table.records);
+    return [
+      '<table>',
+      `<caption>${this.escape(table.name)}</caption>`,
+      `<thead><tr>${columns.map(column => `<th>${this.escape(column)}</th>`).join('')}</tr></thead>`,
+      '<tbody>',
+      ...table.records.map(record =>
+        `<tr>${columns.map(column => `<td>${this.escape(RecordTable.formatValue(record[column]))}</td>`).join('')}</tr>`),
+      '</tbody>',
+      '</table>'
+    ];
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+export default HTMLWriter;
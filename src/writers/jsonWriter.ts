@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+
+export interface JSONWriterOptions {
+  indent?: number;
+}
+
+export class JSONWriter {
+  private options: Required<JSONWriterOptions>;
+
+  constructor(options: JSONWriterOptions = {}) {
+    this.options = {
+      indent: 2,
+      ...options
+    };
+  }
+
+  // render any JSON value - a record list or a whole document such as parsed XML
+  public write(value: any): string {
+    return JSON.stringify(value, null, this.options.indent) + '\n';
+  }
+
+  public async writeFile(value: any, outputPath: string): Promise<string> {
+    await fs.promises.writeFile(outputPath, this.write(value), 'utf8');
+    return outputPath;
+  }
+}
+
+export default JSONWriter;
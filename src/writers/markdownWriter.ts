@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import RecordTable from './recordTable';
+
+// columns fixes the table columns, otherwise keys are collected from all records
+export interface MarkdownWriterOptions {
+  columns?: string[];
+}
+
+export class MarkdownWriter {
+  private options: MarkdownWriterOptions;
+
+  constructor(options: MarkdownWriterOptions = {}) {
+    this.options = { ...options };
+  }
+
+  // render records as a GitHub-flavoured Markdown table - numeric columns are right aligned
+  public write(records: Record<string, any>[]): string {
+    const columns = this.options.columns ? [...this.options.columns] : RecordTable.getColumns(records);
+    if (columns.length === 0) {
+      return '';
+    }
+
+    const alignments = columns.map(column => {
+      const values = records.map(record => record[column]).filter(value => value !== null && value !== undefined && value !== '');
+      return values.length > 0 && values.every(value => typeof value === 'number') ? '---:' : '---';
+    });
+
+    const lines = [
+      this.formatRow(columns),
+      `| ${alignments.join(' | ')} |`,
+      ...records.map(record => this.formatRow(columns.map(column => RecordTable.formatValue(record[column]))))
+    ];
+    return lines.map(line => line + '\n').join('');
+  }
+
+  public async writeFile(records: Record<string, any>[], outputPath: string): Promise<string> {
+    await fs.promises.writeFile(outputPath, this.write(records), 'utf8');
+    return outputPath;
+  }
+
+  // pipes would end the cell and line breaks the row, so both are escaped
+  private formatRow(cells: string[]): string {
+    const escaped = cells.map(cell => cell.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n|\r/g, '<br>'));
+    return `| ${escaped.join(' | ')} |`;
+  }
+}
+
+export default MarkdownWriter;
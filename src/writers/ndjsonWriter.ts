@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+// newline-delimited JSON - one compact record per line, every line ending with \n
+export class NDJSONWriter {
+  public write(records: Record<string, any>[]): string {
+    return records.map(record => this.formatRecord(record)).join('');
+  }
+
+  // write records to a file as they arrive - takes an async iterable (CSVProcessor.rows(), RecordExtractor.stream()) so
+  // records go from input to output one at a time; the pipeline waits for the stream to drain so memory stays flat, and
+  // an output error (a missing directory) stops reading the records
+  public async writeFile(records: Iterable<Record<string, any>> | AsyncIterable<Record<string, any>>, outputPath: string): Promise<string> {
+    await pipeline(Readable.from(this.formatRecords(records)), fs.createWriteStream(outputPath, { encoding: 'utf8' }));
+    return outputPath;
+  }
+
+  private async *formatRecords(records: Iterable<Record<string, any>> | AsyncIterable<Record<string, any>>): AsyncGenerator<string> {
+    for await (const record of records) {
+      yield this.formatRecord(record);
+    }
+  }
+
+  private formatRecord(record: Record<string, any>): string {
+    return JSON.stringify(record) + '\n';
+  }
+}
+
+export default NDJSONWriter;
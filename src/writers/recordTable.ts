@@ -0,0 +1,33 @@
+// helpers shared by the writers that lay records out as rows and columns (CSV, XLSX, Markdown, HTML)
+export class RecordTable {
+  // header columns - the union of all record keys in the order they first appear, so heterogeneous records keep every field
+  public static getColumns(records: Record<string, any>[]): string[] {
+    const columns: string[] = [];
+    const seen = new Set<string>();
+    for (const record of records) {
+      for (const key of Object.keys(record)) {
+        if (!seen.has(key)) {
+          seen.add(key);
+          columns.push(key);
+        }
+      }
+    }
+    return columns;
+  }
+
+  // cell text - missing values are blank, dates ISO 8601, nested objects and arrays (XML, JSON records) JSON text
+  public static formatValue(value: any): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+}
+
+export default RecordTable;
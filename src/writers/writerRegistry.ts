@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import CSVWriter, { CSVLineEnding } from './csvWriter';
+import HTMLWriter from './htmlWriter';
+import JSONWriter from './jsonWriter';
+import MarkdownWriter from './markdownWriter';
+import NDJSONWriter from './ndjsonWriter';
+import XLSXWriter from './xlsxWriter';
+import XMLWriter from './xmlWriter';
+import YAMLWriter from './yamlWriter';
+
+// one input file - records for the row-based formats, document the parsed XML or JSON value for the formats that
+// keep the full structure (JSON, YAML, XML)
+export interface OutputDataset {
+  name: string;
+  records: Record<string, any>[];
+  document?: any;
+}
+
+// writer settings from the command line - each format reads the ones it understands
+export interface OutputOptions {
+  delimiter?: string;
+  lineEnding?: CSVLineEnding;
+  groupBy?: string;
+  rootElement?: string;
+  recordElement?: string;
+  title?: string;
+}
+
+// binary formats cannot be printed, multipleInputs formats write every dataset (sheets, tables) to one file,
+// usesDocument formats receive the parsed document of XML and JSON inputs (XML read with preserveOrder for
+// preservesOrder formats), writeStream formats can write records one at a time as they are read
+export interface OutputFormat {
+  name: string;
+  description: string;
+  extensions: string[];
+  binary: boolean;
+  multipleInputs: boolean;
+  usesDocument: boolean;
+  preservesOrder?: boolean;
+  render(datasets: OutputDataset[], options: OutputOptions): string | Buffer;
+  writeFile?(datasets: OutputDataset[], options: OutputOptions, outputPath: string): Promise<string>;
+  writeStream?(records: AsyncIterable<Record<string, any>>, options: OutputOptions, outputPath: string): Promise<string>;
+}
+
+export class WriterRegistry {
+  private formats = new Map<string, OutputFormat>();
+
+  // a registry with every built-in format
+  public static createDefault(): WriterRegistry {
+    const registry = new WriterRegistry();
+    const csvWriter = (options: OutputOptions, delimiter: string) => new CSVWriter({
+      delimiter: options.delimiter || delimiter,
+      ...(options.lineEnding ? { lineEnding: options.lineEnding } : {})
+    });
+    const xmlWriter = (options: OutputOptions) => new XMLWriter({
+      ...(options.rootElement ? { rootName: options.rootElement } : {}),
+      ...(options.recordElement ? { recordName: options.recordElement } : {})
+    });
+    const documentOf = (dataset: OutputDataset) => dataset.document !== undefined ? dataset.document : dataset.records;
+
+    return registry
+      .register({
+        name: 'json',
+        description: 'JSON - records, or the whole document of XML and JSON input',
+        extensions: ['.json'],
+        binary: false,
+        multipleInputs: false,
+        usesDocument: true,
+        render: ([dataset]) => new JSONWriter().write(documentOf(dataset))
+      })
+      .register({
+        name: 'ndjson',
+        description: 'Newline-delimited JSON - one record per line',
+        extensions: ['.ndjson', '.jsonl'],
+        binary: false,
+        multipleInputs: false,
+        usesDocument: false,
+        render: ([dataset]) => new NDJSONWriter().write(dataset.records),
+        writeFile: ([dataset], _options, outputPath) => new NDJSONWriter().writeFile(dataset.records, outputPath),
+        writeStream: (records, _options, outputPath) => new NDJSONWriter().writeFile(records, outputPath)
+      })
+      .register({
+        name: 'csv',
+        description: 'Comma-separated values',
+        extensions: ['.csv'],
+        binary: false,
+        multipleInputs: false,
+        usesDocument: false,
+        render: ([dataset], options) => csvWriter(options, ',').write(dataset.records),
+        writeFile: ([dataset], options, outputPath) => csvWriter(options, ',').writeFile(dataset.records, outputPath)
+      })
+      .register({
+        name: 'tsv',
+        description: 'Tab-separated values',
+        extensions: ['.tsv', '.tab'],
+        binary: false,
+        multipleInputs: false,
+        usesDocument: false,
+        render: ([dataset], options) => csvWriter({ ...options, delimiter: '\t' }, '\t').write(dataset.records),
+        writeFile: ([dataset], options, outputPath) => csvWriter({ ...options, delimiter: '\t' }, '\t').writeFile(dataset.records, outputPath)
+      })
+      .register({
+        name: 'xlsx',
+        description: 'Excel workbook - one sheet per input, or per --group-by value',
+        extensions: ['.xlsx'],
+        binary: true,
+        multipleInputs: true,
+        usesDocument: false,
+        render: (datasets, options) => new XLSXWriter().write(
+          options.groupBy ? datasets.flatMap(dataset => XLSXWriter.groupBy(dataset.records, options.groupBy as string)) : datasets
+        )
+      })
+      .register({
+        name: 'xml',
+        description: 'XML - XML and JSON documents as they are, other records as a list of record elements',
+        extensions: ['.xml'],
+        binary: false,
+        multipleInputs: false,
+        usesDocument: true,
+        preservesOrder: true,
+        render: ([dataset], options) => {
+          const writer = xmlWriter(options);
+          return writer.write(writer.toDocument(documentOf(dataset)));
+        }
+      })
+      .register({
+        name: 'yaml',
+        description: 'YAML - records, or the whole document of XML and JSON input',
+        extensions: ['.yaml', '.yml'],
+        binary: false,
+        multipleInputs: false,
+        usesDocument: true,
+        render: ([dataset]) => new YAMLWriter().write(documentOf(dataset))
+      })
+      .register({
+        name: 'markdown',
+        description: 'Markdown table',
+        extensions: ['.md', '.markdown'],
+        binary: false,
+        multipleInputs: false,
+        usesDocument: false,
+        render: ([dataset]) => new MarkdownWriter().write(dataset.records)
+      })
+      .register({
+        name: 'html',
+        description: 'HTML page - one table per input',
+        extensions: ['.html', '.htm'],
+        binary: false,
+        multipleInputs: true,
+        usesDocument: false,
+        render: (datasets, options) => new HTMLWriter(options.title ? { title: options.title } : {}).write(datasets)
+      });
+  }
+
+  // a later registration with the same name replaces the earlier one
+  public register(format: OutputFormat): this {
+    this.formats.set(format.name.toLowerCase(), format);
+    return this;
+  }
+
+  // look a format up by name or by one of its extensions ("md", "yml", "jsonl")
+  public get(name: string): OutputFormat | undefined {
+    const key = name.toLowerCase();
+    return this.formats.get(key) || Array.from(this.formats.values()).find(format => format.extensions.includes(`.${key}`));
+  }
+
+  public getNames(): string[] {
+    return Array.from(this.formats.keys());
+  }
+
+  // the format whose extensions include the extension of the output path
+  public fromPath(outputPath: string): OutputFormat | undefined {
+    const extension = path.extname(outputPath).toLowerCase();
+    return Array.from(this.formats.values()).find(format => format.extensions.includes(extension));
+  }
+
+  public async writeFile(format: OutputFormat, datasets: OutputDataset[], options: OutputOptions, outputPath: string): Promise<string> {
+    if (format.writeFile) {
+      return format.writeFile(datasets, options, outputPath);
+    }
+    await fs.promises.writeFile(outputPath, format.render(datasets, options));
+    return outputPath;
+  }
+}
+
+export default WriterRegistry;
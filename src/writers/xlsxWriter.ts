@@ -0,0 +1,275 @@
+import * as fs from 'fs';
+import * as XLSX from 'xlsx';
+import ColumnTypeInferrer, { ColumnSchema, ColumnType } from '../utils/columnTypes';
+import RecordTable from './recordTable';
+
+// one worksheet - columns fixes the header order, otherwise keys are collected from all records
+export interface XLSXSheetData {
+  name: string;
+  records: Record<string, any>[];
+  columns?: string[];
+}
+
+// inferTypes turns numeric, boolean and date strings (CSV, XML) into typed cells
+export interface XLSXWriterOptions {
+  inferTypes?: boolean;
+  styleHeader?: boolean;
+  freezeHeader?: boolean;
+  autoFilter?: boolean;
+  autoWidth?: boolean;
+  maxColumnWidth?: number;
+  dateFormat?: string;
+  dateTimeFormat?: string;
+}
+
+export class XLSXWriter {
+  private static readonly MAX_SHEET_NAME_LENGTH = 31;
+  private static readonly MIN_COLUMN_WIDTH = 6;
+  private static readonly EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly DATE_PARTS_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?/;
+
+  private options: Required<XLSXWriterOptions>;
+
+  constructor(options: XLSXWriterOptions = {}) {
+    this.options = {
+      inferTypes: true,
+      styleHeader: true,
+      freezeHeader: true,
+      autoFilter: true,
+      autoWidth: true,
+      maxColumnWidth: 60,
+      dateFormat: 'yyyy-mm-dd',
+      dateTimeFormat: 'yyyy-mm-dd hh:mm:ss',
+      ...options
+    };
+  }
+
+  // split records into one sheet per distinct value of a field - records without the field go to "(empty)"
+  public static groupBy(records: Record<string, any>[], field: string): XLSXSheetData[] {
+    const groups = new Map<string, Record<string, any>[]>();
+    for (const record of records) {
+      const value = record[field];
+      const key = ColumnTypeInferrer.isEmpty(value) ? '(empty)' : String(value);
+      const group = groups.get(key);
+      if (group) {
+        group.push(record);
+      } else {
+        groups.set(key, [record]);
+      }
+    }
+    return Array.from(groups, ([name, groupRecords]) => ({ name, records: groupRecords }));
+  }
+
+  // build a workbook with one sheet per dataset - sheet names are made valid and unique
+  public createWorkbook(sheets: XLSXSheetData[]): XLSX.WorkBook {
+    if (sheets.length === 0) {
+      throw new Error('At least one sheet is required');
+    }
+
+    const workbook = XLSX.utils.book_new();
+    const usedNames = new Set<string>();
+
+    for (const sheet of sheets) {
+      const name = this.getSheetName(sheet.name, usedNames);
+      usedNames.add(name.toLowerCase());
+      XLSX.utils.book_append_sheet(workbook, this.createWorksheet(sheet), name);
+    }
+
+    return workbook;
+  }
+
+  // render the workbook as an .xlsx buffer
+  public write(sheets: XLSXSheetData[]): Buffer {
+    const workbook = this.createWorkbook(sheets);
+    const buffer: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx', compression: true });
+    return this.options.styleHeader || this.options.freezeHeader ? this.applySheetLayout(buffer, workbook) : buffer;
+  }
+
+  public async writeFile(sheets: XLSXSheetData[], outputPath: string): Promise<string> {
+    await fs.promises.writeFile(outputPath, this.write(sheets));
+    return outputPath;
+  }
+
+  private createWorksheet(sheet: XLSXSheetData): XLSX.WorkSheet {
+    const columns = sheet.columns ? [...sheet.columns] : RecordTable.getColumns(sheet.records);
+    const types = this.getColumnTypes(sheet.records, columns);
+    const widths = columns.map(column => column.length);
+    const worksheet: XLSX.WorkSheet = {};
+
+    columns.forEach((column, c) => {
+      worksheet[XLSX.utils.encode_cell({ r: 0, c })] = { t: 's', v: column };
+    });
+
+    sheet.records.forEach((record, index) => {
+      columns.forEach((column, c) => {
+        const cell = this.createCell(record[column], types[c]);
+        if (cell) {
+          worksheet[XLSX.utils.encode_cell({ r: index + 1, c })] = cell;
+          widths[c] = Math.max(widths[c], this.getDisplayLength(cell));
+        }
+      });
+    });
+
+    const range = { s: { r: 0, c: 0 }, e: { r: sheet.records.length, c: Math.max(columns.length - 1, 0) } };
+    worksheet['!ref'] = XLSX.utils.encode_range(range);
+
+    if (this.options.autoFilter && columns.length > 0) {
+      worksheet['!autofilter'] = { ref: XLSX.utils.encode_range(range) };
+    }
+
+    if (this.options.autoWidth) {
+      worksheet['!cols'] = widths.map(width => ({
+        wch: Math.min(Math.max(width + 2, XLSXWriter.MIN_COLUMN_WIDTH), this.options.maxColumnWidth)
+      }));
+    }
+
+    return worksheet;
+  }
+
+  // typed values (Excel, JSON) are written as they are, strings follow the inferred column type when inferTypes is set
+  private createCell(value: any, type: ColumnType | null): XLSX.CellObject | null {
+    if (ColumnTypeInferrer.isEmpty(value)) {
+      return null;
+    }
+    if (typeof value === 'number') {
+      return { t: 'n', v: value };
+    }
+    if (typeof value === 'boolean') {
+      return { t: 'b', v: value };
+    }
+    if (value instanceof Date) {
+      return { t: 'n', v: this.toSerial(value.getTime()), z: this.options.dateTimeFormat };
+    }
+    if (typeof value === 'object') {
+      return { t: 's', v: JSON.stringify(value) };
+    }
+
+    const text = String(value);
+    const converted = type ? ColumnTypeInferrer.convertValue(text, type) : text;
+
+    if (typeof converted === 'number') {
+      return { t: 'n', v: converted };
+    }
+    if (typeof converted === 'boolean') {
+      return { t: 'b', v: converted };
+    }
+    if (type === 'date' || type === 'datetime') {
+      const serial = this.parseDateSerial(text);
+      if (serial !== null) {
+        return { t: 'n', v: serial, z: type === 'date' ? this.options.dateFormat : this.options.dateTimeFormat };
+      }
+    }
+    return { t: 's', v: text };
+  }
+
+  private getColumnTypes(records: Record<string, any>[], columns: string[]): (ColumnType | null)[] {
+    if (!this.options.inferTypes) {
+      return columns.map(() => null);
+    }
+
+    const inferrer = new ColumnTypeInferrer();
+    records.forEach(record => inferrer.observe(record));
+    const schema = new Map<string, ColumnSchema>(inferrer.getSchema({}, columns).map(column => [column.name, column]));
+    return columns.map(column => schema.get(column)?.type || null);
+  }
+
+  // dates keep the wall-clock time as written - Excel cells carry no time zone
+  private parseDateSerial(text: string): number | null {
+    const match = text.trim().match(XLSXWriter.DATE_PARTS_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    const [, year, month, day, hours, minutes, seconds, fraction] = match;
+    const time = Date.UTC(
+      Number(year), Number(month) - 1, Number(day),
+      Number(hours || 0), Number(minutes || 0), Number(seconds || 0),
+      fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0
+    );
+    return Number.isNaN(time) ? null : this.toSerial(time);
+  }
+
+  private toSerial(time: number): number {
+    return (time - XLSXWriter.EXCEL_EPOCH) / XLSXWriter.DAY_MS;
+  }
+
+  private getDisplayLength(cell: XLSX.CellObject): number {
+    if (cell.z) {
+      return String(cell.z).length;
+    }
+    return Math.max(...String(cell.v).split('\n').map(line => line.length));
+  }
+
+  // Excel limits names to 31 characters without []:*?/\ and compares them case-insensitively
+  private getSheetName(name: string, usedNames: Set<string>): string {
+    const base = (name.replace(/[\[\]:*?\/\\]/g, '_').trim() || 'Sheet').slice(0, XLSXWriter.MAX_SHEET_NAME_LENGTH);
+
+    let candidate = base;
+    for (let i = 2; usedNames.has(candidate.toLowerCase()); i++) {
+      const suffix = ` (${i})`;
+      candidate = base.slice(0, XLSXWriter.MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    return candidate;
+  }
+
+  // the community xlsx build writes neither cell styles nor frozen panes, so both are patched into the
+  // package parts after writing - a bold, shaded style for the header row and a pane split below it
+  private applySheetLayout(buffer: Buffer, workbook: XLSX.WorkBook): Buffer {
+    const zip = XLSX.CFB.read(buffer, { type: 'buffer' });
+    let headerStyle: number | null = null;
+
+    if (this.options.styleHeader) {
+      const styles = XLSX.CFB.find(zip, '/xl/styles.xml');
+      if (styles) {
+        const patched = this.addHeaderStyle(Buffer.from(styles.content).toString('utf8'));
+        headerStyle = patched.styleIndex;
+        this.replaceContent(styles, patched.xml);
+      }
+    }
+
+    workbook.SheetNames.forEach((_name, index) => {
+      const sheet = XLSX.CFB.find(zip, `/xl/worksheets/sheet${index + 1}.xml`);
+      if (!sheet) {
+        return;
+      }
+
+      let xml = Buffer.from(sheet.content).toString('utf8');
+      if (headerStyle !== null) {
+        xml = xml.replace(/<row r="1"[^>]*>[\s\S]*?<\/row>/, row =>
+          row.replace(/<c r="([A-Z]+1)"( s="\d+")?/g, (_cell, ref) => `<c r="${ref}" s="${headerStyle}"`));
+      }
+      if (this.options.freezeHeader) {
+        xml = xml.replace(/<sheetView([^>]*?)\/>/,
+          '<sheetView$1><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+          '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView>');
+      }
+      this.replaceContent(sheet, xml);
+    });
+
+    return XLSX.CFB.write(zip, { fileType: 'zip', type: 'buffer', compression: true });
+  }
+
+  private addHeaderStyle(xml: string): { xml: string; styleIndex: number } {
+    const fontCount = Number((xml.match(/<fonts count="(\d+)"/) || [])[1] || 1);
+    const fillCount = Number((xml.match(/<fills count="(\d+)"/) || [])[1] || 2);
+    const styleIndex = Number((xml.match(/<cellXfs count="(\d+)"/) || [])[1] || 1);
+
+    const patched = xml
+      .replace(/<fonts count="\d+">([\s\S]*?)<\/fonts>/, (_match, fonts) =>
+        `<fonts count="${fontCount + 1}">${fonts}<font><b/><sz val="12"/><color theme="1"/><name val="Calibri"/><family val="2"/><scheme val="minor"/></font></fonts>`)
+      .replace(/<fills count="\d+">([\s\S]*?)<\/fills>/, (_match, fills) =>
+        `<fills count="${fillCount + 1}">${fills}<fill><patternFill patternType="solid"><fgColor rgb="FFD9E1F2"/><bgColor indexed="64"/></patternFill></fill></fills>`)
+      .replace(/<cellXfs count="\d+">([\s\S]*?)<\/cellXfs>/, (_match, xfs) =>
+        `<cellXfs count="${styleIndex + 1}">${xfs}<xf numFmtId="0" fontId="${fontCount}" fillId="${fillCount}" borderId="0" xfId="0" applyFont="1" applyFill="1"/></cellXfs>`);
+
+    return { xml: patched, styleIndex };
+  }
+
+  private replaceContent(entry: any, xml: string): void {
+    entry.content = Buffer.from(xml, 'utf8');
+    entry.size = entry.content.length;
+  }
+}
+
+export default XLSXWriter;
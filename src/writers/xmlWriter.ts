@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as xml2js from 'xml2js';
+
+// rootName and recordName name the wrapper elements for documents without a single root (record lists, plain JSON)
+export interface XMLWriterOptions {
+  rootName?: string;
+  recordName?: string;
+  declaration?: boolean;
+  pretty?: boolean;
+  indent?: string;
+}
+
+export class XMLWriter {
+  // the keys xml2js uses for attributes and text content, and for the element name and ordered child nodes
+  private static readonly ATTRIBUTE_KEY = '$';
+  private static readonly TEXT_KEY = '_';
+  private static readonly NAME_KEY = '#name';
+  private static readonly CHILDREN_KEY = '$$';
+  private static readonly NAME_PATTERN = /^[A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?$/;
+
+  private options: Required<XMLWriterOptions>;
+
+  constructor(options: XMLWriterOptions = {}) {
+    this.options = {
+      rootName: 'records',
+      recordName: 'record',
+      declaration: true,
+      pretty: true,
+      indent: '  ',
+      ...options
+    };
+  }
+
+  // turn parsed JSON into an xml2js-shaped document - the output of convert-xml is unwrapped to its data, an array
+  // becomes a record list and an object with a single key is taken as the document itself
+  public toDocument(value: any): Record<string, any> {
+    if (Array.isArray(value)) {
+      return { [this.options.rootName]: { [this.options.recordName]: value } };
+    }
+    if (this.isObject(value) && this.isObject(value.data) && 'structure' in value) {
+      return value.data;
+    }
+    if (this.isObject(value) && Object.keys(value).length === 1) {
+      return value;
+    }
+    return { [this.options.rootName]: value };
+  }
+
+  // serialize an xml2js-shaped document - "$" holds attributes (xmlns declarations included), "_" the text, arrays
+  // repeat an element and key order is element order, so processFile() data from XmlProcessor is written back as read;
+  // a document read with preserveOrder (child nodes under "$$") is written node by node, see writeOrdered()
+  public write(document: Record<string, any>): string {
+    const [[name, element]] = Object.entries(this.toDocument(document));
+    if (this.isObject(element) && Array.isArray(element[XMLWriter.CHILDREN_KEY])) {
+      const declaration = this.options.declaration ? '<?xml version="1.0" encoding="UTF-8"?>' + (this.options.pretty ? '\n' : '') : '';
+      return declaration + this.writeOrdered(name, element, '') + '\n';
+    }
+
+    // xml2js only takes the root from a single-key object under its default root name, so the root is passed explicitly
+    const [[rootName, root]] = Object.entries(this.sanitizeNames(this.toDocument(document)));
+    const builder = new xml2js.Builder({
+      rootName,
+      headless: !this.options.declaration,
+      xmldec: { version: '1.0', encoding: 'UTF-8' },
+      renderOpts: { pretty: this.options.pretty, indent: this.options.indent, newline: '\n' }
+    });
+
+    try {
+      return builder.buildObject(root) + '\n';
+    } catch (error) {
+      throw new Error(`XML serialization error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // one element per record inside the root element
+  public writeRecords(records: Record<string, any>[]): string {
+    return this.write(this.toDocument(records));
+  }
+
+  public async writeFile(document: Record<string, any>, outputPath: string): Promise<string> {
+    await fs.promises.writeFile(outputPath, this.write(document), 'utf8');
+    return outputPath;
+  }
+
+  // an element of a preserveOrder document with its child nodes in order - elements holding text are written on one
+  // line, descendants included, so mixed content keeps its text exactly; others put each child on its own line when pretty
+  private writeOrdered(name: string, element: Record<string, any>, indent: string, inline: boolean = false): string {
+    const attributes = Object.entries(element[XMLWriter.ATTRIBUTE_KEY] || {})
+      .map(([attribute, value]) => ` ${attribute}="${this.escape(String(value), true)}"`)
+      .join('');
+    const children: Record<string, any>[] = element[XMLWriter.CHILDREN_KEY] || [];
+    if (children.length === 0) {
+      return `${indent}<${name}${attributes}/>`;
+    }
+
+    const inlineChildren = inline || !this.options.pretty || children.some(child => ['__text__', '__cdata__'].includes(child[XMLWriter.NAME_KEY]));
+    const childIndent = inlineChildren ? '' : indent + this.options.indent;
+    const content = children.map(child => {
+      const text = String(child[XMLWriter.TEXT_KEY] ?? '');
+      switch (child[XMLWriter.NAME_KEY]) {
+        case '__text__':
+          return this.escape(text);
+        case '__cdata__':
+          return `<![CDATA[${text.split(']]>').join(']]]]><![CDATA[>')}]]>`;
+        case '__comment__':
+          return `${childIndent}<!--${text}-->`;
+        default:
+          return this.writeOrdered(child[XMLWriter.NAME_KEY], child, childIndent, inlineChildren);
+      }
+    });
+
+    return inlineChildren
+      ? `${indent}<${name}${attributes}>${content.join('')}</${name}>`
+      : `${indent}<${name}${attributes}>\n${content.join('\n')}\n${indent}</${name}>`;
+  }
+
+  private escape(text: string, isAttribute: boolean = false): string {
+    const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return isAttribute ? escaped.replace(/"/g, '&quot;') : escaped;
+  }
+
+  // keys that are not XML names (CSV headers like "first name" or "2019") become names with "_" in place of
+  // the invalid characters - names that are already valid, prefixed ones included, are kept as they are
+  private sanitizeNames(value: any, isAttributes: boolean = false): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.sanitizeNames(item));
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (!this.isObject(value)) {
+      return value;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (!isAttributes && key === XMLWriter.ATTRIBUTE_KEY) {
+        result[key] = this.sanitizeNames(item, true);
+      } else if (!isAttributes && key === XMLWriter.TEXT_KEY) {
+        result[key] = item;
+      } else {
+        result[this.toName(key)] = isAttributes ? item : this.sanitizeNames(item);
+      }
+    }
+    return result;
+  }
+
+  private toName(key: string): string {
+    if (XMLWriter.NAME_PATTERN.test(key)) {
+      return key;
+    }
+    const name = key.trim().replace(/[^\w.-]/g, '_');
+    return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+  }
+
+  private isObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+export default XMLWriter;
@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import { stringify } from 'yaml';
+
+export interface YAMLWriterOptions {
+  indent?: number;
+}
+
+export class YAMLWriter {
+  private options: Required<YAMLWriterOptions>;
+
+  constructor(options: YAMLWriterOptions = {}) {
+    this.options = {
+      indent: 2,
+      ...options
+    };
+  }
+
+  // render any JSON value as a YAML 1.2 document - strings that would load as numbers or booleans ("007", "true")
+  // are quoted, long text is never folded
+  public write(value: any): string {
+    return stringify(value, { indent: this.options.indent, lineWidth: 0 });
+  }
+
+  public async writeFile(value: any, outputPath: string): Promise<string> {
+    await fs.promises.writeFile(outputPath, this.write(value), 'utf8');
+    return outputPath;
+  }
+}
+
+export default YAMLWriter;
@@ -0,0 +1,72 @@
+import { ColumnTypeInferrer } from '../src/utils/columnTypes';
+
+describe('ColumnTypeInferrer', () => {
+  const infer = (values: any[]) => {
+    const inferrer = new ColumnTypeInferrer();
+    values.forEach(value => inferrer.observe({ value }));
+    return inferrer.getSchema()[0];
+  };
+
+  describe('getSchema', () => {
+    // test the narrowest type is picked for each kind of column
+    it('should classify columns', () => {
+      expect(infer(['1', '-20', '+3']).type).toBe('integer');
+      expect(infer(['1', '2.5', '1e3']).type).toBe('decimal');
+      expect(infer(['true', 'FALSE', 'yes']).type).toBe('boolean');
+      expect(infer(['2024-02-29', '1999-12-31']).type).toBe('date');
+      expect(infer(['2024-02-29', '2024-03-01T12:00:00+07:00']).type).toBe('datetime');
+      expect(infer(['1', 'abc']).type).toBe('string');
+    });
+
+    // test names of Object.prototype members are plain strings, not booleans
+    it('should not read prototype keys as boolean values', () => {
+      expect(infer(['constructor', 'toString']).type).toBe('string');
+      expect(ColumnTypeInferrer.convertValue('constructor', 'boolean')).toBe('constructor');
+    });
+
+    // test identifiers with leading zeros and integers beyond double precision stay strings
+    it('should keep identifier-like numbers as strings', () => {
+      expect(infer(['007', '123']).type).toBe('string');
+      expect(infer(['12345678901234567890']).type).toBe('string');
+    });
+
+    // test empty values make a column nullable without changing its type
+    it('should report nullable columns', () => {
+      expect(infer(['1', '', '3'])).toEqual({ name: 'value', type: 'integer', nullable: true });
+      expect(infer(['', ''])).toEqual({ name: 'value', type: 'string', nullable: true });
+    });
+
+    // test already typed values as produced by Excel and XML parsers
+    it('should accept typed values', () => {
+      expect(infer([1, 2]).type).toBe('integer');
+      expect(infer([1.5, 2]).type).toBe('decimal');
+      expect(infer([true, false]).type).toBe('boolean');
+      expect(infer([new Date('2024-01-01T00:00:00Z')]).type).toBe('datetime');
+    });
+
+    // test column order and overrides
+    it('should keep column order and apply overrides', () => {
+      const inferrer = new ColumnTypeInferrer();
+      inferrer.observe({ b: '1', a: 'x' });
+
+      expect(inferrer.getSchema({ b: 'string' }, ['a', 'b', 'c'])).toEqual([
+        { name: 'a', type: 'string', nullable: false },
+        { name: 'b', type: 'string', nullable: false },
+        { name: 'c', type: 'string', nullable: true }
+      ]);
+    });
+  });
+
+  describe('convertValue', () => {
+    // test conversion per type - values that do not fit are left untouched
+    it('should convert values to their column type', () => {
+      expect(ColumnTypeInferrer.convertValue(' 42 ', 'integer')).toBe(42);
+      expect(ColumnTypeInferrer.convertValue('4.2', 'decimal')).toBe(4.2);
+      expect(ColumnTypeInferrer.convertValue('No', 'boolean')).toBe(false);
+      expect(ColumnTypeInferrer.convertValue('2024-01-01', 'date')).toBe('2024-01-01');
+      expect(ColumnTypeInferrer.convertValue('', 'integer')).toBeNull();
+      expect(ColumnTypeInferrer.convertValue('n/a', 'integer')).toBe('n/a');
+      expect(ColumnTypeInferrer.convertValue(5, 'string')).toBe('5');
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CSVDialectSniffer } from '../src/utils/csvDialectSniffer';
+
+describe('CSVDialectSniffer', () => {
+  const testDataDir = path.join(__dirname, 'sniffer-test-data');
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('sniff', () => {
+    it('should detect comma-separated data with a header', () => {
+      const dialect = CSVDialectSniffer.sniff('id,name,score\n1,John,9.5\n2,Jane,8.0\n3,Bob,7.25\n');
+
+      expect(dialect.delimiter).toBe(',');
+      expect(dialect.quote).toBe('"');
+      expect(dialect.escape).toBe('"');
+      expect(dialect.hasHeader).toBe(true);
+      expect(dialect.lineTerminator).toBe('\n');
+      expect(dialect.confidence).toBe(1);
+    });
+
+    it('should detect semicolons with quoted fields and CRLF line endings', () => {
+      const dialect = CSVDialectSniffer.sniff('name;city\r\n"Doe, John";"New York"\r\n"Smith; Jane";London\r\n');
+
+      expect(dialect.delimiter).toBe(';');
+      expect(dialect.lineTerminator).toBe('\r\n');
+    });
+
+    it('should detect single quotes and backslash escapes', () => {
+      const dialect = CSVDialectSniffer.sniff("id|text\n1|'it\\'s here'\n2|'a|b'\n3|plain\n");
+
+      expect(dialect.delimiter).toBe('|');
+      expect(dialect.quote).toBe("'");
+      expect(dialect.escape).toBe('\\');
+    });
+
+    it('should detect a missing header row', () => {
+      const dialect = CSVDialectSniffer.sniff('1,John,30\n2,Jane,25\n3,Bob,35\n');
+
+      expect(dialect.hasHeader).toBe(false);
+    });
+
+    it('should ignore a partial last line of a truncated sample', () => {
+      const dialect = CSVDialectSniffer.sniff('a\tb\tc\n1\t2\t3\n4\t5\t6\n7\t8', true);
+
+      expect(dialect.delimiter).toBe('\t');
+      expect(dialect.confidence).toBe(1);
+    });
+
+    it('should report low confidence for single-column data', () => {
+      const dialect = CSVDialectSniffer.sniff('value\none\ntwo\n');
+
+      expect(dialect.delimiter).toBe(',');
+      expect(dialect.confidence).toBeLessThan(0.5);
+    });
+  });
+
+  describe('sniffFile', () => {
+    it('should sniff a tab separated file', () => {
+      const tsvFile = path.join(testDataDir, 'data.tsv');
+      fs.writeFileSync(tsvFile, 'name\tage\nJohn\t30\nJane\t25\n', 'utf8');
+
+      const dialect = CSVDialectSniffer.sniffFile(tsvFile);
+
+      expect(dialect.delimiter).toBe('\t');
+      expect(dialect.hasHeader).toBe(true);
+    });
+
+    it('should return the default dialect for a missing file', () => {
+      const dialect = CSVDialectSniffer.sniffFile(path.join(testDataDir, 'missing.csv'));
+
+      expect(dialect).toEqual(CSVDialectSniffer.DEFAULT_DIALECT);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as iconv from 'iconv-lite';
 import { CSVProcessor } from '../src/processors/csvProcessor';
 
 describe('CSVProcessor', () => {
@@ -107,6 +108,62 @@ Alice Brown,28,Sydney,Australia`;
     });
   });
 
+  describe('rows', () => {
+    const testDataDir = path.join(__dirname, 'test-data');
+    const multilineCsvFile = path.join(testDataDir, 'multiline.csv');
+
+    beforeAll(() => {
+      // create test data directory
+      if (!fs.existsSync(testDataDir)) {
+        fs.mkdirSync(testDataDir, { recursive: true });
+      }
+
+      // create CSV file with a quoted field spanning two lines
+      fs.writeFileSync(multilineCsvFile, 'id,note\n1,plain\n2,"first line\nsecond line"\n3,last\n');
+    });
+
+    afterAll(() => {
+      // clean up test files
+      if (fs.existsSync(testDataDir)) {
+        fs.rmSync(testDataDir, { recursive: true, force: true });
+      }
+    });
+
+    // test iterate rows one at a time with their starting line numbers
+    it('should yield rows with line numbers', async () => {
+      const rows = [];
+      for await (const row of processor.rows(multilineCsvFile)) {
+        rows.push(row);
+      }
+
+      expect(rows.map(row => row.lineNumber)).toEqual([2, 3, 5]);
+      expect(rows[1].data).toEqual({ id: '2', note: 'first line\nsecond line' });
+      expect(rows[0].headers).toEqual(['id', 'note']);
+    });
+
+    // test stop reading when consumer breaks out of the loop
+    it('should allow early termination', async () => {
+      const ids: string[] = [];
+      for await (const row of processor.rows(multilineCsvFile)) {
+        ids.push(row.data.id);
+        break;
+      }
+
+      expect(ids).toEqual(['1']);
+    });
+
+    // test report missing file when iteration starts
+    it('should throw error for non-existent file', async () => {
+      const iterate = async () => {
+        for await (const row of processor.rows('nonexistent.csv')) {
+          expect(row).toBeUndefined();
+        }
+      };
+
+      await expect(iterate()).rejects.toThrow('File not found');
+    });
+  });
+
   describe('validateCSV', () => {
     const testDataDir = path.join(__dirname, 'test-data');
     const testCsvFile = path.join(testDataDir, 'test.csv');
@@ -167,11 +224,45 @@ Bob Johnson,35,Toronto,Canada`;
       expect(validation.errors).toContain('File is empty');
     });
 
-    // test detect inconsistent column count
+    // test detect inconsistent column count on each offending line
     it('should detect inconsistent column counts', () => {
       const validation = processor.validateCSV(invalidCsvFile);
       
-      expect(validation.warnings.some(warning => warning.includes('inconsistent column counts'))).toBe(true);
+      expect(validation.issues.map(issue => issue.line)).toEqual([2, 3, 4]);
+      expect(validation.issues[0]).toEqual({
+        line: 2,
+        column: 4,
+        raw: 'John Doe,30,New York,USA,Extra',
+        severity: 'warning',
+        message: 'Inconsistent column count: expected 3, found 5'
+      });
+      expect(validation.warnings).toContain('Line 3, column 3: Inconsistent column count: expected 3, found 2');
+    });
+
+    // test quoted fields with delimiters and line breaks are not miscounted
+    it('should accept quoted fields containing delimiters and newlines', () => {
+      const quotedCsvFile = path.join(testDataDir, 'quoted.csv');
+      fs.writeFileSync(quotedCsvFile, 'name,address\nJohn,"12 Main St, Apt 4"\nJane,"Line one\nLine two"\n');
+
+      const validation = processor.validateCSV(quotedCsvFile);
+
+      expect(validation.isValid).toBe(true);
+      expect(validation.issues).toHaveLength(0);
+
+      fs.unlinkSync(quotedCsvFile);
+    });
+
+    // test unclosed quote is an error pointing at the line it opened on
+    it('should report unclosed quotes as errors', () => {
+      const unclosedCsvFile = path.join(testDataDir, 'unclosed.csv');
+      fs.writeFileSync(unclosedCsvFile, 'name,note\nJohn,fine\nJane,"never closed\nBob,ok\n');
+
+      const validation = processor.validateCSV(unclosedCsvFile);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toContain('Line 3, column 2: Quoted field is never closed');
+
+      fs.unlinkSync(unclosedCsvFile);
     });
 
     // test warn about non-csv extension
@@ -227,6 +318,18 @@ Alice Brown,28,Sydney,Australia`;
       });
     });
 
+    // test streamed file output matches the in-memory JSON string
+    it('should write the same JSON to file as returned in memory', async () => {
+      const outputPath = path.join(testDataDir, 'streamed.json');
+      const jsonString = await processor.convertToJSON(testCsvFile);
+      await processor.convertToJSON(testCsvFile, outputPath);
+
+      expect(fs.readFileSync(outputPath, 'utf8')).toBe(jsonString);
+      expect(jsonString).toBe(JSON.stringify(JSON.parse(jsonString), null, 2));
+
+      fs.unlinkSync(outputPath);
+    });
+
     // test convert CSV file to JSON file output
     it('should convert CSV to JSON file', async () => {
       const outputPath = path.join(testDataDir, 'output.json');
@@ -238,9 +341,16 @@ Alice Brown,28,Sydney,Australia`;
       const jsonContent = fs.readFileSync(outputPath, 'utf8');
       const jsonData = JSON.parse(jsonContent);
       expect(jsonData).toHaveLength(4);
-      
+
       fs.unlinkSync(outputPath);
     });
+
+    // test an output file that cannot be opened rejects instead of crashing on an unhandled stream error
+    it('should reject when the output directory does not exist', async () => {
+      const outputPath = path.join(testDataDir, 'missing-dir', 'output.json');
+
+      await expect(processor.convertToJSON(testCsvFile, outputPath)).rejects.toThrow('ENOENT');
+    });
   });
 
   describe('getPreview', () => {
@@ -402,6 +512,157 @@ Alice Brown,28,Sydney,Australia`;
     });
   });
 
+  describe('Encodings', () => {
+    const testDataDir = path.join(__dirname, 'test-data');
+
+    beforeAll(() => {
+      // create test data directory
+      if (!fs.existsSync(testDataDir)) {
+        fs.mkdirSync(testDataDir, { recursive: true });
+      }
+    });
+
+    afterAll(() => {
+      // clean up test files
+      if (fs.existsSync(testDataDir)) {
+        fs.rmSync(testDataDir, { recursive: true, force: true });
+      }
+    });
+
+    // test transcode Windows-1252 input when the encoding is auto-detected
+    it('should transcode auto-detected Windows-1252 input', async () => {
+      const latinCsv = path.join(testDataDir, 'latin.csv');
+      fs.writeFileSync(latinCsv, iconv.encode('name,city\nJosé,Zürich\n', 'windows-1252'));
+
+      const result = await new CSVProcessor({ encoding: 'auto' }).processFile(latinCsv);
+
+      expect(result.data[0]).toEqual({ name: 'José', city: 'Zürich' });
+
+      fs.unlinkSync(latinCsv);
+    });
+
+    // test UTF-16 BOM wins over the default utf8 setting and is stripped from the first header
+    it('should honor a UTF-16LE byte order mark', async () => {
+      const utf16Csv = path.join(testDataDir, 'utf16.csv');
+      fs.writeFileSync(utf16Csv, Buffer.concat([Buffer.from([0xFF, 0xFE]), iconv.encode('name,age\nJohn,30\n', 'utf-16le')]));
+
+      const result = await processor.processFile(utf16Csv);
+      const stats = await processor.getStatistics(utf16Csv);
+
+      expect(result.headers).toEqual(['name', 'age']);
+      expect(result.data[0]).toEqual({ name: 'John', age: '30' });
+      expect(stats.encoding).toBe('utf-16le');
+
+      fs.unlinkSync(utf16Csv);
+    });
+  });
+
+  describe('Type Inference', () => {
+    const testDataDir = path.join(__dirname, 'test-data');
+    const typedContent = 'id,zip,price,active,joined,updated,note\n' +
+      '1,02134,9.5,true,2020-01-15,2020-01-15T10:00:00Z,first\n' +
+      '2,10001,12,no,2021-06-30,2021-06-30 08:30,\n';
+
+    beforeAll(() => {
+      // create test data directory
+      if (!fs.existsSync(testDataDir)) {
+        fs.mkdirSync(testDataDir, { recursive: true });
+      }
+    });
+
+    afterAll(() => {
+      // clean up test files
+      if (fs.existsSync(testDataDir)) {
+        fs.rmSync(testDataDir, { recursive: true, force: true });
+      }
+    });
+
+    // test inferred schema is reported and values are converted
+    it('should infer column types and convert values', async () => {
+      const typedCsv = path.join(testDataDir, 'typed.csv');
+      fs.writeFileSync(typedCsv, typedContent);
+
+      const result = await new CSVProcessor({ inferTypes: true }).processFile(typedCsv);
+
+      expect(result.schema).toEqual([
+        { name: 'id', type: 'integer', nullable: false },
+        { name: 'zip', type: 'string', nullable: false },
+        { name: 'price', type: 'decimal', nullable: false },
+        { name: 'active', type: 'boolean', nullable: false },
+        { name: 'joined', type: 'date', nullable: false },
+        { name: 'updated', type: 'datetime', nullable: false },
+        { name: 'note', type: 'string', nullable: true }
+      ]);
+      expect(result.data[0]).toEqual({
+        id: 1, zip: '02134', price: 9.5, active: true, joined: '2020-01-15', updated: '2020-01-15T10:00:00Z', note: 'first'
+      });
+      expect(result.data[1]).toMatchObject({ price: 12, active: false, note: null });
+
+      fs.unlinkSync(typedCsv);
+    });
+
+    // test values stay strings unless inference is enabled
+    it('should keep strings by default', async () => {
+      const typedCsv = path.join(testDataDir, 'untyped.csv');
+      fs.writeFileSync(typedCsv, typedContent);
+
+      const result = await processor.processFile(typedCsv);
+
+      expect(result.schema).toBeUndefined();
+      expect(result.data[0].id).toBe('1');
+
+      fs.unlinkSync(typedCsv);
+    });
+
+    // test per-column overrides, with and without inference
+    it('should apply column type overrides', async () => {
+      const typedCsv = path.join(testDataDir, 'overrides.csv');
+      fs.writeFileSync(typedCsv, typedContent);
+
+      const inferred = await new CSVProcessor({ inferTypes: true, columnTypes: { id: 'string', zip: 'integer' } }).processFile(typedCsv);
+      const overridden = await new CSVProcessor({ columnTypes: { price: 'decimal' } }).processFile(typedCsv);
+
+      expect(inferred.data[0]).toMatchObject({ id: '1', zip: 2134, price: 9.5 });
+      expect(overridden.data[0]).toMatchObject({ id: '1', price: 9.5, active: 'true' });
+
+      fs.unlinkSync(typedCsv);
+    });
+
+    // test sample size limits the rows used for inference - later values that do not fit stay strings
+    it('should infer types from a sample', async () => {
+      const sampledCsv = path.join(testDataDir, 'sampled.csv');
+      fs.writeFileSync(sampledCsv, 'value\n1\n2\nn/a\n');
+
+      const sampled = new CSVProcessor({ inferTypes: true, typeSampleSize: 2 });
+      const full = new CSVProcessor({ inferTypes: true, typeSampleSize: 0 });
+
+      expect((await sampled.inferSchema(sampledCsv))[0].type).toBe('integer');
+      expect((await sampled.processFile(sampledCsv)).data.map(row => row.value)).toEqual([1, 2, 'n/a']);
+      expect((await full.inferSchema(sampledCsv))[0].type).toBe('string');
+
+      fs.unlinkSync(sampledCsv);
+    });
+
+    // test typed values reach the JSON output and string input
+    it('should write typed values in JSON output and processString', async () => {
+      const typedCsv = path.join(testDataDir, 'typed-json.csv');
+      const outputJson = path.join(testDataDir, 'typed.json');
+      fs.writeFileSync(typedCsv, typedContent);
+
+      const typedProcessor = new CSVProcessor({ inferTypes: true });
+      await typedProcessor.convertToJSON(typedCsv, outputJson);
+      const json = JSON.parse(fs.readFileSync(outputJson, 'utf8'));
+      const fromString = await typedProcessor.processString(typedContent);
+
+      expect(json[1]).toMatchObject({ id: 2, price: 12, active: false, note: null });
+      expect(fromString.data).toEqual(json);
+      expect(fromString.schema?.map(column => column.type)).toEqual(['integer', 'string', 'decimal', 'boolean', 'date', 'datetime', 'string']);
+
+      fs.unlinkSync(typedCsv);
+      fs.unlinkSync(outputJson);
+    });
+  });
+
   describe('Custom Delimiters', () => {
     const testDataDir = path.join(__dirname, 'test-data');
 
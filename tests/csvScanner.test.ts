@@ -0,0 +1,49 @@
+import { CSVScanner } from '../src/utils/csvScanner';
+
+describe('CSVScanner', () => {
+  const collect = (content: string, scanner = new CSVScanner()) => Array.from(scanner.records(content));
+
+  describe('records', () => {
+    // test plain records with their line numbers
+    it('should split simple records', () => {
+      const records = collect('a,b\n1,2\r\n3,4');
+
+      expect(records.map(record => record.fields)).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+      expect(records.map(record => record.line)).toEqual([1, 2, 3]);
+    });
+
+    // test quoted fields holding delimiters, doubled quotes and line breaks
+    it('should follow RFC 4180 quoting rules', () => {
+      const records = collect('id,text\n1,"a, ""quoted"" b"\n2,"multi\nline"\n3,end\n');
+
+      expect(records[1].fields).toEqual(['1', 'a, "quoted" b']);
+      expect(records[2].fields).toEqual(['2', 'multi\nline']);
+      expect(records[3].line).toBe(5);
+      expect(records.every(record => record.issues.length === 0)).toBe(true);
+    });
+
+    // test blank lines are skipped but still counted
+    it('should skip blank lines', () => {
+      const records = collect('a\n\n1\n');
+
+      expect(records.map(record => record.line)).toEqual([1, 3]);
+    });
+
+    // test stray quotes and text after a closing quote are reported with position
+    it('should report malformed quoting', () => {
+      const records = collect('a,b\nx"y,"ok"z\n');
+
+      expect(records[1].issues).toEqual([
+        { line: 2, column: 1, raw: 'x"', severity: 'warning', message: 'Unescaped quote inside field' },
+        { line: 2, column: 2, raw: '"ok"z', severity: 'warning', message: 'Unexpected text after closing quote' }
+      ]);
+    });
+
+    // test custom delimiter
+    it('should use the configured delimiter', () => {
+      const records = collect('a;b\n"1;2";3', new CSVScanner({ delimiter: ';' }));
+
+      expect(records[1].fields).toEqual(['1;2', '3']);
+    });
+  });
+});
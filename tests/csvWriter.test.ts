@@ -0,0 +1,79 @@
+import { CSVWriter } from '../src/writers/csvWriter';
+import { CSVProcessor } from '../src/processors/csvProcessor';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('CSVWriter', () => {
+  const testDataDir = path.join(__dirname, 'csv-writer-test-data');
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('write', () => {
+    // test plain records with a header row
+    it('should write records with a header', () => {
+      const csv = new CSVWriter().write([{ name: 'John', age: 30 }, { name: 'Jane', age: 25 }]);
+
+      expect(csv).toBe('name,age\nJohn,30\nJane,25\n');
+    });
+
+    // test fields with delimiters, quotes, line breaks and edge whitespace are quoted
+    it('should quote and escape fields', () => {
+      const csv = new CSVWriter().write([{ a: 'x, y', b: 'say "hi"', c: 'two\nlines', d: ' padded', e: 'plain' }]);
+
+      expect(csv).toBe('a,b,c,d,e\n"x, y","say ""hi""","two\nlines"," padded",plain\n');
+    });
+
+    // test heterogeneous records share one header, missing values stay empty
+    it('should union keys of heterogeneous records', () => {
+      const csv = new CSVWriter().write([{ id: 1, name: 'A' }, { id: 2, email: 'b@example.com' }, { name: 'C', id: 3 }]);
+
+      expect(csv).toBe('id,name,email\n1,A,\n2,,b@example.com\n3,C,\n');
+    });
+
+    // test delimiter, line ending, fixed columns and header switch
+    it('should apply writer options', () => {
+      const records = [{ a: 1, b: 'x;y', c: true }];
+
+      expect(new CSVWriter({ delimiter: ';', lineEnding: '\r\n' }).write(records)).toBe('a;b;c\r\n1;"x;y";true\r\n');
+      expect(new CSVWriter({ columns: ['c', 'a'], header: false }).write(records)).toBe('true,1\n');
+      expect(new CSVWriter({ quoteAll: true }).write([{ a: 1 }])).toBe('"a"\n"1"\n');
+    });
+
+    // test empty, date and nested values as found in Excel and XML data
+    it('should format null, dates and nested values', () => {
+      const csv = new CSVWriter().write([{ a: null, b: new Date('2024-01-02T03:04:05Z'), c: { id: '1' }, d: ['x', 'y'] }]);
+
+      expect(csv).toBe('a,b,c,d\n,2024-01-02T03:04:05.000Z,"{""id"":""1""}","[""x"",""y""]"\n');
+    });
+  });
+
+  describe('writeFile', () => {
+    // test written files read back to the same records
+    it('should write a file that parses back to the records', async () => {
+      const outputCsv = path.join(testDataDir, 'round-trip.csv');
+      const records = [{ name: 'A, "B"', note: 'multi\nline' }, { name: 'C', note: '' }];
+
+      await new CSVWriter().writeFile(records, outputCsv);
+      const result = await new CSVProcessor().processFile(outputCsv);
+
+      expect(result.data).toEqual(records);
+    });
+
+    // test an output file that cannot be opened rejects with the stream's error
+    it('should reject when the output directory does not exist', async () => {
+      await expect(new CSVWriter().writeFile([{ name: 'A' }], path.join(testDataDir, 'missing-dir', 'out.csv'))).rejects.toThrow('ENOENT');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as iconv from 'iconv-lite';
+import { EncodingDetector } from '../src/utils/encodingDetector';
+
+describe('EncodingDetector', () => {
+  const testDataDir = path.join(__dirname, 'encoding-test-data');
+
+  beforeAll(() => {
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('detect', () => {
+    it('should detect byte order marks', () => {
+      expect(EncodingDetector.detect(Buffer.from([0xEF, 0xBB, 0xBF, 0x61])).encoding).toBe('utf-8');
+      expect(EncodingDetector.detect(Buffer.from([0xFF, 0xFE, 0x61, 0x00])).hasBOM).toBe(true);
+      expect(EncodingDetector.detect(Buffer.from([0xFE, 0xFF, 0x00, 0x61])).encoding).toBe('utf-16be');
+    });
+
+    it('should detect UTF-16 without a byte order mark', () => {
+      const result = EncodingDetector.detect(iconv.encode('name,age\nJohn,30\n', 'utf-16le'));
+
+      expect(result.encoding).toBe('utf-16le');
+      expect(result.hasBOM).toBe(false);
+    });
+
+    it('should detect UTF-8 text', () => {
+      expect(EncodingDetector.detect(Buffer.from('plain ascii')).confidence).toBe(1);
+      expect(EncodingDetector.detect(Buffer.from('Zürich,Genève', 'utf8')).encoding).toBe('utf-8');
+    });
+
+    it('should detect Windows-1252 text with smart quotes', () => {
+      const sample = iconv.encode('name,note\nJosé,“don’t” – Zürich\nFrançois,Genève\n', 'windows-1252');
+
+      expect(EncodingDetector.detect(sample).encoding).toBe('windows-1252');
+    });
+
+    it('should detect Shift-JIS text', () => {
+      const sample = iconv.encode('id,name\n1,日本語\n2,こんにちは\n3,カタカナ\n', 'shift_jis');
+
+      expect(EncodingDetector.detect(sample).encoding).toBe('shift_jis');
+    });
+  });
+
+  describe('resolveFileEncoding', () => {
+    it('should prefer the BOM over the configured encoding', () => {
+      const bomFile = path.join(testDataDir, 'bom.csv');
+      fs.writeFileSync(bomFile, Buffer.concat([Buffer.from([0xFF, 0xFE]), iconv.encode('a,b\n', 'utf-16le')]));
+
+      expect(EncodingDetector.resolveFileEncoding(bomFile, 'utf8')).toBe('utf-16le');
+    });
+
+    it('should honor the XML declaration when asked to', () => {
+      const xmlFile = path.join(testDataDir, 'declared.xml');
+      fs.writeFileSync(xmlFile, iconv.encode('<?xml version="1.0" encoding="ISO-8859-1"?><root>café</root>', 'latin1'));
+
+      expect(EncodingDetector.resolveFileEncoding(xmlFile, 'utf8', true)).toBe('iso-8859-1');
+      expect(EncodingDetector.resolveFileEncoding(xmlFile, 'utf8')).toBe('utf8');
+    });
+
+    it('should reject unknown encodings', () => {
+      const textFile = path.join(testDataDir, 'plain.txt');
+      fs.writeFileSync(textFile, 'text');
+
+      expect(() => EncodingDetector.resolveFileEncoding(textFile, 'klingon')).toThrow('Unsupported encoding: klingon');
+    });
+  });
+
+  describe('createDecodeStream', () => {
+    it('should keep multi-byte characters split across chunks intact', async () => {
+      const bytes = iconv.encode('日本語', 'shift_jis');
+      const decoder = EncodingDetector.createDecodeStream('shift_jis');
+      const chunks: string[] = [];
+      decoder.on('data', chunk => chunks.push(chunk.toString()));
+
+      decoder.write(bytes.subarray(0, 3));
+      decoder.end(bytes.subarray(3));
+      await new Promise(resolve => decoder.on('end', resolve));
+
+      expect(chunks.join('')).toBe('日本語');
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  EmptyFileError,
+  FileNotFoundError,
+  FileProcessorError,
+  ParseError,
+  SheetNotFoundError,
+  UnsupportedEncodingError,
+  UnsupportedFormatError
+} from '../src/utils/errors';
+import { CSVProcessor } from '../src/processors/csvProcessor';
+import { ExcelProcessor } from '../src/processors/excelProcessor';
+import { JSONProcessor } from '../src/processors/jsonProcessor';
+import { NDJSONProcessor } from '../src/processors/ndjsonProcessor';
+import { XmlProcessor } from '../src/processors/xmlProcessor';
+import { XmlSecurityError } from '../src/utils/xmlSecurity';
+import { createProcessor } from '../src/index';
+import EncodingDetector from '../src/utils/encodingDetector';
+import RecordExtractor from '../src/utils/recordExtractor';
+import SchemaValidator from '../src/utils/schemaValidator';
+import XsdValidator from '../src/utils/xsdValidator';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+
+describe('FileProcessorError', () => {
+  const testDataDir = path.join(__dirname, 'errors-test-data');
+
+  // the error a promise rejects with, to look at more than its message
+  const rejectionOf = async (promise: Promise<unknown>): Promise<any> => {
+    try {
+      await promise;
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the promise to reject');
+  };
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  // test missing and empty files get the same errors whatever the processor
+  it('should report missing and empty files with their path', async () => {
+    const missingFile = path.join(testDataDir, 'missing.csv');
+    const emptyFile = path.join(testDataDir, 'empty.csv');
+    fs.writeFileSync(emptyFile, '');
+
+    for (const processor of [new CSVProcessor(), new ExcelProcessor(), new NDJSONProcessor(), new XmlProcessor()]) {
+      const missing = await rejectionOf(processor.process(missingFile));
+      expect(missing).toBeInstanceOf(FileNotFoundError);
+      expect(missing).toBeInstanceOf(FileProcessorError);
+      expect(missing).toMatchObject({ code: 'FILE_NOT_FOUND', filePath: missingFile, message: `File not found: ${missingFile}` });
+
+      const empty = await rejectionOf(processor.process(emptyFile));
+      expect(empty).toBeInstanceOf(EmptyFileError);
+      expect(empty).toMatchObject({ code: 'EMPTY_FILE', filePath: emptyFile, name: 'EmptyFileError' });
+    }
+    expect(() => new JSONProcessor().records(missingFile)).toThrow(FileNotFoundError);
+  });
+
+  // test missing schemas and documents of the validators, and unknown encodings, carry their codes too
+  it('should report missing schema files and unknown encodings', async () => {
+    const missingSchema = path.join(testDataDir, 'missing.xsd');
+    const schemaFile = path.join(testDataDir, 'note.xsd');
+    fs.writeFileSync(schemaFile, '<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"><xs:element name="note" type="xs:string"/></xs:schema>');
+
+    expect(() => XsdValidator.fromFile(missingSchema)).toThrow(FileNotFoundError);
+    expect(() => XsdValidator.fromFile(missingSchema)).toThrow(`Schema file not found: ${missingSchema}`);
+    expect(() => SchemaValidator.fromFile(path.join(testDataDir, 'missing.json'))).toThrow(FileNotFoundError);
+    expect(await rejectionOf(XsdValidator.fromFile(schemaFile).validateFile(path.join(testDataDir, 'missing.xml'))))
+      .toMatchObject({ code: 'FILE_NOT_FOUND', message: `File not found: ${path.join(testDataDir, 'missing.xml')}` });
+
+    expect(() => EncodingDetector.normalize('klingon')).toThrow(UnsupportedEncodingError);
+    try {
+      EncodingDetector.normalize('klingon');
+    } catch (error) {
+      expect(error).toMatchObject({ code: 'UNSUPPORTED_ENCODING', encoding: 'klingon', message: 'Unsupported encoding: klingon' });
+    }
+  });
+
+  // test parse errors say where the parser stopped and keep the error they were raised from
+  it('should report where a file could not be parsed', async () => {
+    const jsonFile = path.join(testDataDir, 'broken.json');
+    const ndjsonFile = path.join(testDataDir, 'broken.ndjson');
+    const xmlFile = path.join(testDataDir, 'broken.xml');
+    fs.writeFileSync(jsonFile, '{\n  "name": "Ann",\n  "age": 34,\n}');
+    fs.writeFileSync(ndjsonFile, '{"name":"Ann"}\n{"name":\n');
+    fs.writeFileSync(xmlFile, '<people>\n  <person>Ann</person>\n  <person>Bob</people>\n');
+
+    let json: any;
+    try {
+      new JSONProcessor().records(jsonFile);
+    } catch (error) {
+      json = error;
+    }
+    expect(json).toBeInstanceOf(ParseError);
+    expect(json).toMatchObject({ code: 'PARSE_ERROR', format: 'json', filePath: jsonFile, line: 4, column: 1 });
+    expect(json.cause).toBeInstanceOf(SyntaxError);
+
+    const ndjson = await rejectionOf(new NDJSONProcessor().process(ndjsonFile));
+    expect(ndjson).toMatchObject({ code: 'PARSE_ERROR', format: 'ndjson', filePath: ndjsonFile, line: 2 });
+    expect(ndjson.message).toMatch(/^NDJSON processing error: line 2: /);
+
+    const xml = await rejectionOf(new XmlProcessor().process(xmlFile));
+    expect(xml).toBeInstanceOf(ParseError);
+    expect(xml).toMatchObject({ format: 'xml', filePath: xmlFile, line: 3 });
+    expect(xml.column).toBeGreaterThan(0);
+  });
+
+  // test a missing sheet names the sheets the workbook has
+  it('should list the sheets of a workbook when one is missing', async () => {
+    const excelFile = path.join(testDataDir, 'sheets.xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['id'], [1]]), 'Orders');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['id'], [2]]), 'Returns');
+    XLSX.writeFile(workbook, excelFile);
+
+    const byName = await rejectionOf(new ExcelProcessor({ sheetName: 'Refunds' }).process(excelFile));
+    expect(byName).toBeInstanceOf(SheetNotFoundError);
+    expect(byName).toMatchObject({ code: 'SHEET_NOT_FOUND', sheet: 'Refunds', sheets: ['Orders', 'Returns'], filePath: excelFile });
+    expect(byName.message).toBe('Sheet "Refunds" not found');
+
+    const byIndex = await rejectionOf(new ExcelProcessor({ sheetIndex: 5 }).process(excelFile));
+    expect(byIndex).toMatchObject({ sheet: 5, message: 'Sheet index 5 not found' });
+  });
+
+  // test unknown formats and broken security limits carry their own codes
+  it('should report unsupported formats and XML security limits', async () => {
+    const textFile = path.join(testDataDir, 'notes.bin');
+    const bombFile = path.join(testDataDir, 'bomb.xml');
+    fs.writeFileSync(textFile, Buffer.from([0x00, 0x01, 0x02, 0xff, 0xfe, 0x00]));
+    fs.writeFileSync(bombFile, '<?xml version="1.0"?>\n<!DOCTYPE lolz [<!ENTITY lol "lol">]>\n<lolz>&lol;</lolz>');
+
+    expect(() => createProcessor(textFile, { format: 'parquet' })).toThrow(UnsupportedFormatError);
+    try {
+      createProcessor(textFile, { format: 'parquet' });
+    } catch (error) {
+      expect(error).toMatchObject({ code: 'UNSUPPORTED_FORMAT', format: 'parquet', filePath: textFile });
+    }
+    expect(await rejectionOf(RecordExtractor.extract(textFile))).toMatchObject({ code: 'UNSUPPORTED_FORMAT', filePath: textFile });
+    expect(await rejectionOf(RecordExtractor.extract(path.join(testDataDir, 'missing.json')))).toBeInstanceOf(FileNotFoundError);
+
+    const security = await rejectionOf(createProcessor(bombFile).process(bombFile));
+    expect(security).toBeInstanceOf(XmlSecurityError);
+    expect(security).toBeInstanceOf(FileProcessorError);
+    expect(security).toMatchObject({ code: 'XML_SECURITY', limit: 'doctype' });
+  });
+});
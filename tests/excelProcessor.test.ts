@@ -259,4 +259,45 @@ describe('ExcelProcessor', () => {
       expect(stats.sheets[0].name).toBe('Sheet1');
     });
   });
-});
\ No newline at end of file
+
+  describe('getPreview', () => {
+    const largeExcelFile = path.join(testDataDir, 'preview.xlsx');
+
+    beforeAll(() => {
+      if (!fs.existsSync(testDataDir)) {
+        fs.mkdirSync(testDataDir, { recursive: true });
+      }
+
+      const worksheetData: (string | number)[][] = [['ID', 'Value']];
+      for (let i = 1; i <= 50; i++) {
+        worksheetData.push([i, i * 10]);
+      }
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(worksheetData), 'Data');
+      XLSX.writeFile(workbook, largeExcelFile);
+    });
+
+    afterAll(() => {
+      if (fs.existsSync(testDataDir)) {
+        fs.rmSync(testDataDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should return only the requested rows', async () => {
+      const preview = await processor.getPreview(largeExcelFile, 3);
+
+      expect(preview.data).toEqual([
+        { ID: 1, Value: 10 },
+        { ID: 2, Value: 20 },
+        { ID: 3, Value: 30 }
+      ]);
+    });
+
+    it('should report full sheet dimensions although only a few rows are parsed', async () => {
+      const preview = await processor.getPreview(largeExcelFile, 3);
+
+      expect(preview.sheetInfo.rowCount).toBe(51);
+      expect(preview.sheetInfo.range).toBe('A1:B51');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { BaseFileProcessor, DatasetBuilder, FileProcessor } from '../src/processors/fileProcessor';
+import { CSVProcessor } from '../src/processors/csvProcessor';
+import { ExcelProcessor } from '../src/processors/excelProcessor';
+import { JSONProcessor } from '../src/processors/jsonProcessor';
+import { NDJSONProcessor } from '../src/processors/ndjsonProcessor';
+import { XmlProcessor } from '../src/processors/xmlProcessor';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+
+describe('FileProcessor', () => {
+  const testDataDir = path.join(__dirname, 'file-processor-test-data');
+  const people = [{ name: 'Ann', age: '34' }, { name: 'Bob', age: '27' }];
+
+  // the same two people in every format
+  const files = {
+    csv: path.join(testDataDir, 'people.csv'),
+    excel: path.join(testDataDir, 'people.xlsx'),
+    ndjson: path.join(testDataDir, 'people.ndjson'),
+    json: path.join(testDataDir, 'people.json'),
+    xml: path.join(testDataDir, 'people.xml')
+  };
+
+  // lines of "key=value" pairs, one record per line
+  class KeyValueProcessor extends BaseFileProcessor {
+    public readonly fileType = 'key-value';
+
+    public async *stream(filePath: string): AsyncGenerator<Record<string, any>> {
+      for (const line of fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.length > 0)) {
+        yield Object.fromEntries(line.split(' ').map(pair => pair.split('=')));
+      }
+    }
+  }
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+
+    fs.writeFileSync(files.csv, 'name,age\nAnn,34\nBob,27\n');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(people), 'People');
+    XLSX.writeFile(workbook, files.excel);
+    fs.writeFileSync(files.ndjson, people.map(person => JSON.stringify(person)).join('\n'));
+    fs.writeFileSync(files.json, JSON.stringify({ count: 2, people }));
+    fs.writeFileSync(files.xml, '<?xml version="1.0"?>\n<people><person><name>Ann</name><age>34</age></person>' +
+      '<person><name>Bob</name><age>27</age></person></people>');
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  // test every built-in processor reads the same records into the same dataset shape
+  it('should return the same dataset whatever the format', async () => {
+    const processors: FileProcessor[] = [
+      new CSVProcessor(),
+      new ExcelProcessor(),
+      new NDJSONProcessor(),
+      new JSONProcessor(),
+      new XmlProcessor({ encoding: 'auto' })
+    ];
+
+    for (const processor of processors) {
+      const dataset = await processor.process(files[processor.fileType as keyof typeof files]);
+
+      expect(dataset.records.map(record => ({ name: record.name, age: String(record.age) }))).toEqual(people);
+      expect(dataset.columns.map(column => column.name)).toEqual(['name', 'age']);
+      expect(dataset.columns[1].type).toBe('integer');
+      expect(dataset.source).toMatchObject({ fileType: processor.fileType, fileName: path.basename(dataset.source.path) });
+      expect(dataset.timings.processingTime).toBeGreaterThanOrEqual(0);
+      expect(dataset.warnings).toEqual([]);
+    }
+  });
+
+  // test the source names what the processor read with
+  it('should describe the source of a dataset', async () => {
+    const excel = await new ExcelProcessor().process(files.excel);
+    const xml = await new XmlProcessor({ encoding: 'auto', recordPath: 'person' }).process(files.xml);
+    const csv = await new CSVProcessor({ inferTypes: true }).process(files.csv);
+
+    expect(excel.source.sheet).toBe('People');
+    expect(xml.source).toMatchObject({ recordPath: 'person', encoding: 'utf-8' });
+    expect(xml.records).toEqual(people);
+    // converted values keep the schema they were converted with
+    expect(csv.records[0]).toEqual({ name: 'Ann', age: 34 });
+    expect(csv.columns).toEqual([{ name: 'name', type: 'string', nullable: false }, { name: 'age', type: 'integer', nullable: false }]);
+  });
+
+  // test statistics, previews and streams are the same calls for every format
+  it('should preview, stream and count records of any format', async () => {
+    const csv = new CSVProcessor();
+    const xml = new XmlProcessor({ encoding: 'auto' });
+
+    expect((await csv.statistics(files.csv)).summary).toEqual({ Rows: 2, Columns: 2 });
+    expect(await xml.statistics(files.xml)).toMatchObject({ totalRecords: 2, totalColumns: 2, summary: { Elements: 7, 'Max Depth': 3 } });
+    expect((await new NDJSONProcessor().statistics(files.ndjson)).summary).toEqual({ Records: 2, Keys: 2 });
+
+    expect((await xml.preview(files.xml, 1)).records).toEqual([people[0]]);
+    expect((await new JSONProcessor().preview(files.json, 1)).records).toEqual([people[0]]);
+
+    const streamed: Record<string, any>[] = [];
+    for await (const record of new NDJSONProcessor().stream(files.ndjson)) {
+      streamed.push(record);
+    }
+    expect(streamed).toEqual(people);
+
+    expect((await new JSONProcessor().validate(path.join(testDataDir, 'missing.json'))).errors).toEqual([
+      `File not found: ${path.join(testDataDir, 'missing.json')}`
+    ]);
+  });
+
+  // test a processor that only streams gets the rest of the interface
+  it('should build processors on stream alone', async () => {
+    const keyValueFile = path.join(testDataDir, 'people.kv');
+    const emptyFile = path.join(testDataDir, 'empty.kv');
+    const outputFile = path.join(testDataDir, 'people-kv.json');
+    fs.writeFileSync(keyValueFile, 'name=Ann age=34\nname=Bob age=27 city=Rome\n');
+    fs.writeFileSync(emptyFile, '\n');
+    const processor = new KeyValueProcessor();
+
+    const dataset = await processor.process(keyValueFile);
+    expect(dataset.columns).toEqual([
+      { name: 'name', type: 'string', nullable: false },
+      { name: 'age', type: 'integer', nullable: false },
+      { name: 'city', type: 'string', nullable: true }
+    ]);
+    expect((await processor.preview(keyValueFile, 1)).records).toEqual([people[0]]);
+    expect(await processor.statistics(keyValueFile)).toMatchObject({ totalRecords: 2, totalColumns: 3, summary: { Records: 2, Columns: 3 } });
+    expect(await processor.validate(emptyFile)).toEqual({ isValid: true, errors: [], warnings: ['File contains no records'] });
+    expect((await processor.process(emptyFile)).warnings).toEqual(['No records found']);
+
+    await processor.convertToJSON(keyValueFile, outputFile);
+    expect(JSON.parse(fs.readFileSync(outputFile, 'utf8'))).toEqual(dataset.records);
+    expect(DatasetBuilder.inferColumns(dataset.records, ['city']).map(column => column.name)).toEqual(['city', 'name', 'age']);
+  });
+});
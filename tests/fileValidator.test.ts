@@ -1,6 +1,8 @@
 import { FileValidator, FileType } from '../src/utils/fileValidator';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
+import * as XLSX from 'xlsx';
 
 describe('FileValidator', () => {
   const testDataDir = path.join(__dirname, 'validator-test-data');
@@ -121,6 +123,57 @@ item2,200,second item`;
       expect(result.fileInfo.extension).toBe('.xml');
     });
 
+    it('should recognise workbooks by their bytes, whatever their extension', () => {
+      const xlsFile = path.join(testDataDir, 'legacy-export.csv');
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['a', 'b'], [1, 2]]), 'Data');
+      fs.writeFileSync(xlsFile, XLSX.write(workbook, { bookType: 'xls', type: 'buffer' }));
+
+      const result = FileValidator.validateFile(xlsFile);
+
+      expect(result.isValid).toBe(true);
+      expect(result.fileType).toBe(FileType.EXCEL);
+      expect(FileValidator.detectFileType(xlsFile).signature?.format).toBe('xls');
+
+      fs.unlinkSync(xlsFile);
+    });
+
+    it('should report unsupported binary formats instead of scoring them as CSV', () => {
+      const gzipFile = path.join(testDataDir, 'data.csv.gz');
+      const odsFile = path.join(testDataDir, 'budget.xlsx');
+      const pdfFile = path.join(testDataDir, 'report.csv');
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['a', 'b'], [1, 2]]), 'Data');
+      fs.writeFileSync(gzipFile, zlib.gzipSync('name,value\na,1\n'));
+      fs.writeFileSync(odsFile, XLSX.write(workbook, { bookType: 'ods', type: 'buffer' }));
+      fs.writeFileSync(pdfFile, Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n1 0 obj', 'latin1'));
+
+      const gzip = FileValidator.validateFile(gzipFile);
+      expect(gzip.isValid).toBe(false);
+      expect(gzip.fileType).toBeNull();
+      expect(gzip.errors).toEqual(['Unsupported file format: the content is gzip-compressed data, decompress it first']);
+      expect(FileValidator.validateFile(odsFile).errors).toEqual(['Unsupported file format: the content is OpenDocument spreadsheet (ODS)']);
+
+      const pdf = FileValidator.detectFileType(pdfFile);
+      expect(pdf.detectedType).toBeNull();
+      expect(pdf.reasons).toEqual(['Content is PDF document: File signature', 'PDF document is not a supported format']);
+
+      [gzipFile, odsFile, pdfFile].forEach(file => fs.unlinkSync(file));
+    });
+
+    it('should decode UTF-16 text before scoring it', () => {
+      const utf16File = path.join(testDataDir, 'utf16.csv');
+      fs.writeFileSync(utf16File, Buffer.from('\uFEFFname;value\na;1\nb;2\n', 'utf16le'));
+
+      const result = FileValidator.detectFileType(utf16File);
+
+      expect(result.detectedType).toBe(FileType.CSV);
+      expect(result.signature).toMatchObject({ format: 'utf-16le', binary: false });
+      expect(result.reasons[0]).toBe('Content is UTF-16LE text: Byte order mark for utf-16le');
+
+      fs.unlinkSync(utf16File);
+    });
+
     it('should detect Excel by extension even if content is different', () => {
       const result = FileValidator.validateFile(path.join(testDataDir, 'fake.xlsx'));
       
@@ -153,6 +206,53 @@ item2,200,second item`;
       fs.unlinkSync(xmlWithTxtExt);
     });
 
+    it('should detect JSON by extension and content', () => {
+      const jsonFile = path.join(testDataDir, 'records.json');
+      const jsonWithoutExt = path.join(testDataDir, 'json-content');
+      fs.writeFileSync(jsonFile, '[{"name": "John", "age": 30}, {"name": "Jane", "age": 25}]', 'utf8');
+      fs.writeFileSync(jsonWithoutExt, '{"items": [1, 2, 3]}', 'utf8');
+
+      const result = FileValidator.detectFileType(jsonFile);
+
+      expect(result.detectedType).toBe(FileType.JSON);
+      expect(result.confidence).toBe(1);
+      expect(result.reasons).toContain('File content matches JSON format');
+      expect(FileValidator.detectFileType(jsonWithoutExt).detectedType).toBe(FileType.JSON);
+
+      fs.unlinkSync(jsonFile);
+      fs.unlinkSync(jsonWithoutExt);
+    });
+
+    it('should detect NDJSON by extension and content', () => {
+      const ndjsonFile = path.join(testDataDir, 'events.jsonl');
+      const ndjsonInJson = path.join(testDataDir, 'events.json');
+      const singleLine = path.join(testDataDir, 'single.ndjson');
+      fs.writeFileSync(ndjsonFile, '{"id": 1, "msg": "a"}\n{"id": 2, "msg": "b"}\n{"id": 3, "msg": "c"}\n', 'utf8');
+      fs.writeFileSync(ndjsonInJson, '{"id": 1}\n{"id": 2}\n', 'utf8');
+      fs.writeFileSync(singleLine, '{"id": 1}\n', 'utf8');
+
+      const result = FileValidator.detectFileType(ndjsonFile);
+
+      expect(result.detectedType).toBe(FileType.NDJSON);
+      expect(result.confidence).toBe(1);
+      expect(result.reasons).toContain('File content matches NDJSON format');
+      // the content wins over a .json extension, a single line is decided by the extension
+      expect(FileValidator.detectFileType(ndjsonInJson).detectedType).toBe(FileType.NDJSON);
+      expect(FileValidator.detectFileType(singleLine).detectedType).toBe(FileType.NDJSON);
+      expect(FileValidator.getProcessorForFile(ndjsonFile)).toBe('NDJSONProcessor');
+
+      [ndjsonFile, ndjsonInJson, singleLine].forEach(file => fs.unlinkSync(file));
+    });
+
+    it('should not mistake pretty-printed JSON for NDJSON', () => {
+      const prettyFile = path.join(testDataDir, 'pretty.json');
+      fs.writeFileSync(prettyFile, JSON.stringify([{ id: 1 }, { id: 2 }], null, 2), 'utf8');
+
+      expect(FileValidator.detectFileType(prettyFile).detectedType).toBe(FileType.JSON);
+
+      fs.unlinkSync(prettyFile);
+    });
+
     it('should return low confidence for ambiguous files', () => {
       // Create a file with minimal content
       const ambiguousFile = path.join(testDataDir, 'ambiguous.unknown');
@@ -192,6 +292,7 @@ item2,200,second item`;
       expect(extensions[FileType.CSV]).toContain('.csv');
       expect(extensions[FileType.EXCEL]).toContain('.xlsx');
       expect(extensions[FileType.XML]).toContain('.xml');
+      expect(extensions[FileType.NDJSON]).toEqual(['.ndjson', '.jsonl']);
     });
 
     it('should check if file type is supported', () => {
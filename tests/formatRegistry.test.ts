@@ -0,0 +1,114 @@
+import { FormatRegistry, InputFormat } from '../src/utils/formatRegistry';
+import { FileValidator, FileType } from '../src/utils/fileValidator';
+import { RecordExtractor } from '../src/utils/recordExtractor';
+import { BaseFileProcessor } from '../src/processors/fileProcessor';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('FormatRegistry', () => {
+  const testDataDir = path.join(__dirname, 'format-registry-test-data');
+
+  // fixed-width records with a header line naming the columns, each column as wide as its header
+  class FixedWidthProcessor extends BaseFileProcessor {
+    public readonly fileType = 'fixed-width';
+
+    public async *stream(filePath: string): AsyncGenerator<Record<string, any>> {
+      const [header, ...lines] = fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.length > 0);
+      const columns = Array.from((header as string).matchAll(/\S+ */g)).map(match => ({
+        name: match[0].trim().toLowerCase(),
+        start: match.index as number,
+        end: (match.index as number) + match[0].length
+      }));
+      for (const line of lines) {
+        yield Object.fromEntries(columns.map(column => [column.name, line.slice(column.start, column.end).trim()]));
+      }
+    }
+  }
+
+  const fixedWidth: InputFormat = {
+    name: 'fixed-width',
+    label: 'Fixed-width',
+    extensions: ['.fw', '.dat'],
+    sniffers: [({ text }) => /^[A-Z]+ +[A-Z]+/.test(text) && !/[,;\t|]/.test(text.split('\n')[0] ?? '') ? 0.8 : 0],
+    createProcessor: () => new FixedWidthProcessor()
+  };
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  // test the built-in formats in their tie-breaking order
+  it('should register the built-in formats', () => {
+    const registry = FormatRegistry.createDefault();
+
+    expect(registry.getNames()).toEqual([FileType.CSV, FileType.EXCEL, FileType.NDJSON, FileType.JSON, FileType.XML]);
+    expect(registry.get('XML')?.processorName).toBe('XmlProcessor');
+    expect(registry.get('fixed-width')).toBeUndefined();
+    expect(Object.keys(FileValidator.getSupportedExtensions())).toEqual(registry.getNames());
+  });
+
+  // test a registered format is detected, listed and read like a built-in one
+  it('should detect and read plugin formats', async () => {
+    const peopleFile = path.join(testDataDir, 'people.fw');
+    const wideFile = path.join(testDataDir, 'people.dat');
+    fs.writeFileSync(peopleFile, 'ID  NAME      CITY\n1   Ann       Oslo\n2   Bob, Jr.  Rome\n');
+    fs.writeFileSync(wideFile, 'ID  NAME\n1   Ann\n');
+
+    FileValidator.formats.register(fixedWidth);
+
+    expect(FileValidator.detectFileType(peopleFile)).toMatchObject({
+      detectedType: 'fixed-width',
+      confidence: 0.9,
+      reasons: ['Fixed-width indicators found', 'File extension matches FIXED-WIDTH', 'File content matches FIXED-WIDTH format']
+    });
+    // CSV is only sniffed when no other format recognised the content
+    expect(FileValidator.validateFile(wideFile).fileType).toBe('fixed-width');
+    expect(FileValidator.getSupportedExtensions()['fixed-width']).toEqual(['.fw', '.dat']);
+    // a format found by its extension alone has no content indicators, and is recommended by its label
+    const lowerFile = path.join(testDataDir, 'lower.fw');
+    fs.writeFileSync(lowerFile, 'id  name\n1   Ann\n');
+    expect(FileValidator.detectFileType(lowerFile)).toMatchObject({
+      detectedType: 'fixed-width',
+      reasons: ['File extension matches FIXED-WIDTH']
+    });
+    expect(FileValidator.getProcessorForFile(peopleFile)).toBe('Fixed-width');
+
+    const { fileType, records } = await RecordExtractor.extract(peopleFile);
+    expect(fileType).toBe('fixed-width');
+    expect(records).toEqual([
+      { data: { id: '1', name: 'Ann', city: 'Oslo' }, location: 'record 1' },
+      { data: { id: '2', name: 'Bob, Jr.', city: 'Rome' }, location: 'record 2' }
+    ]);
+  });
+
+  // test plugin modules export one format or a list of them
+  it('should load formats from plugin modules', () => {
+    const pluginFile = path.join(testDataDir, 'plugin.js');
+    const invalidFile = path.join(testDataDir, 'invalid.js');
+    fs.writeFileSync(pluginFile, `exports.default = [
+      { name: 'ids', label: 'IDs', extensions: ['.ids'], sniffers: [], createProcessor: () => null },
+      { name: 'csv', label: 'CSV', extensions: ['.csv'], sniffers: [], createProcessor: () => null }
+    ];\n`);
+    fs.writeFileSync(invalidFile, `module.exports = { name: 'ids', extensions: ['.ids'] };\n`);
+
+    const registry = FormatRegistry.createDefault();
+
+    expect(registry.load(pluginFile).map(format => format.name)).toEqual(['ids', 'csv']);
+    // the replaced CSV format keeps its place
+    expect(registry.getNames()).toEqual(['csv', 'excel', 'ndjson', 'json', 'xml', 'ids']);
+    expect(registry.get('csv')?.extensions).toEqual(['.csv']);
+
+    expect(() => registry.load(invalidFile)).toThrow(`Plugin '${invalidFile}' does not export an input format`);
+    expect(() => registry.load(path.join(testDataDir, 'missing.js'))).toThrow(/^Cannot load plugin '.*missing\.js': Cannot find module/);
+  });
+});
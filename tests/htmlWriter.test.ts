@@ -0,0 +1,27 @@
+import { HTMLWriter } from '../src/writers/htmlWriter';
+
+describe('HTMLWriter', () => {
+  // test a page with one captioned table per dataset
+  it('should write one table per dataset', () => {
+    const html = new HTMLWriter({ title: 'Report' }).write([
+      { name: 'people', records: [{ name: 'Ann', tags: ['a', 'b'] }] },
+      { name: 'empty', records: [] }
+    ]);
+
+    expect(html.startsWith('<!DOCTYPE html>\n<html>\n')).toBe(true);
+    expect(html).toContain('<title>Report</title>');
+    expect(html).toContain('<caption>people</caption>\n<thead><tr><th>name</th><th>tags</th></tr></thead>');
+    expect(html).toContain('<tr><td>Ann</td><td>[&quot;a&quot;,&quot;b&quot;]</td></tr>');
+    expect(html.match(/<table>/g)).toHaveLength(2);
+  });
+
+  // test markup in names and values is escaped
+  it('should escape markup', () => {
+    const html = new HTMLWriter().write([{ name: '<b>', records: [{ 'a&b': '<script>alert("x")</script>' }] }]);
+
+    expect(html).toContain('<title>&lt;b&gt;</title>');
+    expect(html).toContain('<th>a&amp;b</th>');
+    expect(html).toContain('<td>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</td>');
+    expect(html).not.toContain('<script>');
+  });
+});
@@ -0,0 +1,71 @@
+import * as library from '../src/index';
+import { processFile, createProcessor, CSVProcessor, XmlProcessor, FileValidator } from '../src/index';
+import { execFileSync, execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+describe('Library entry', () => {
+  const testDataDir = path.join(__dirname, 'library-test-data');
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  // test files are detected and read into datasets, CSV through its sniffed dialect
+  it('should process files of any detected format', async () => {
+    const csvFile = path.join(testDataDir, 'prices.csv');
+    const xmlFile = path.join(testDataDir, 'prices.xml');
+    fs.writeFileSync(csvFile, 'item;price\nTea;2,50\nCake;3,00\n');
+    fs.writeFileSync(xmlFile, '<?xml version="1.0"?>\n<prices><price item="Tea">2.50</price><price item="Cake">3.00</price></prices>');
+
+    const csv = await processFile(csvFile);
+    expect(csv.records).toEqual([{ item: 'Tea', price: '2,50' }, { item: 'Cake', price: '3,00' }]);
+    expect(csv.source).toMatchObject({ fileType: 'csv', fileName: 'prices.csv' });
+
+    const xml = await processFile(xmlFile, { record: 'price' });
+    expect(xml.records).toEqual([{ _: '2.50', $: { item: 'Tea' } }, { _: '3.00', $: { item: 'Cake' } }]);
+    expect(xml.source.recordPath).toBe('price');
+
+    expect(createProcessor(csvFile, { csv: { headers: false } })).toBeInstanceOf(CSVProcessor);
+    expect((await processFile(csvFile, { csv: { headers: false } })).records[0]).toEqual({ 0: 'item', 1: 'price' });
+  });
+
+  // test the format can be named instead of detected, and unknown formats are refused
+  it('should read files as the format given', async () => {
+    const feedFile = path.join(testDataDir, 'feed.dat');
+    fs.writeFileSync(feedFile, '<feed><entry>one</entry><entry>two</entry></feed>');
+
+    expect(createProcessor(feedFile, { format: 'xml' })).toBeInstanceOf(XmlProcessor);
+    expect((await processFile(feedFile, { format: 'xml' })).records).toEqual([{ entry: 'one' }, { entry: 'two' }]);
+    expect(() => createProcessor(feedFile, { format: 'parquet' })).toThrow(`Unsupported file type: parquet. Supported types: ${FileValidator.formats.getNames().join(', ')}`);
+    await expect(processFile(path.join(testDataDir, 'missing.csv'))).rejects.toThrow('File not found');
+  });
+
+  // test the ES module entry, generated by a fresh build, re-exports every runtime export of the CommonJS build and
+  // the library itself as default export
+  it('should export the same names from the ES module entry', () => {
+    const root = path.join(__dirname, '..');
+    execSync('npm run build', { cwd: root, stdio: 'pipe', timeout: 120000 });
+
+    const output = execFileSync(process.execPath, ['--input-type=module', '-e', [
+      `import * as esm from ${JSON.stringify(pathToFileURL(path.join(root, 'esm/index.mjs')).href)};`,
+      `console.log(JSON.stringify({ names: Object.keys(esm).filter(name => name !== 'default'), processFile: typeof esm.default.processFile }));`
+    ].join('\n')], { encoding: 'utf8', timeout: 30000 });
+    const { names, processFile: defaultProcessFile } = JSON.parse(output);
+
+    expect(names.sort()).toEqual(Object.keys(require(path.join(root, 'dist/index.js'))).sort());
+    expect(names).toEqual(Object.keys(library).sort());
+    expect(defaultProcessFile).toBe('function');
+  });
+});
@@ -347,13 +347,269 @@ describe('Integration Tests - End-to-End Workflows', () => {
       expect(excelData).toHaveProperty('data'); // Excel returns object with data property
       expect(xmlData).toHaveProperty('data'); // XML returns object with data property
     });
+
+    it('should detect and process formats from a plugin module', () => {
+      const pluginFile = path.join(testDataDir, 'fixed-width-plugin.js');
+      const inputFile = path.join(testDataDir, 'people.fw');
+      const outputFile = path.join(outputDir, 'plugin-people.json');
+      fs.writeFileSync(pluginFile, `const fs = require('fs');
+const { BaseFileProcessor } = require(${JSON.stringify(path.join(__dirname, '../src/processors/fileProcessor'))});
+class FixedWidthProcessor extends BaseFileProcessor {
+  fileType = 'fixed-width';
+  async *stream(file) {
+    for (const line of fs.readFileSync(file, 'utf8').split('\\n').slice(1).filter(Boolean)) {
+      yield { id: line.slice(0, 6).trim(), name: line.slice(6).trim() };
+    }
+  }
+}
+module.exports = {
+  name: 'fixed-width',
+  label: 'Fixed-width',
+  extensions: ['.fw'],
+  sniffers: [({ text }) => text.startsWith('ID    NAME') ? 1 : 0],
+  createProcessor: () => new FixedWidthProcessor()
+};\n`);
+      fs.writeFileSync(inputFile, 'ID    NAME\n1     John Doe\n2     Jane Smith\n');
+
+      const detected = execSync(`npm run detect "${inputFile}" -- --plugin "${pluginFile}"`, { encoding: 'utf8', timeout: 30000 });
+      expect(detected).toContain('- Detected Type: fixed-width');
+      expect(detected).toContain('- Fixed-width: .fw');
+
+      const processed = execSync(`npm run process "${inputFile}" -- --plugin "${pluginFile}" -o "${outputFile}"`, { encoding: 'utf8', timeout: 30000 });
+      expect(processed).toContain('Detected file type: FIXED-WIDTH');
+      expect(processed).toContain('- Records: 2, Columns: 2');
+      expect(JSON.parse(fs.readFileSync(outputFile, 'utf8'))).toEqual([{ id: '1', name: 'John Doe' }, { id: '2', name: 'Jane Smith' }]);
+    });
+  });
+
+  describe('Convert Integration', () => {
+    it('should convert Excel and XML records to CSV', () => {
+      const excelCsv = path.join(outputDir, 'departments.csv');
+      const departmentsXml = path.join(testDataDir, 'departments.xml');
+      const xmlCsv = path.join(outputDir, 'departments-xml.csv');
+      fs.writeFileSync(departmentsXml, '<departments><department id="eng"><name>Engineering</name><budget>500000</budget></department>' +
+        '<department id="mkt"><name>Marketing, Sales</name><budget>300000</budget></department></departments>', 'utf8');
+
+      execSync(`npm run convert "${testExcel}" -- --to csv -s Departments -o "${excelCsv}"`, { encoding: 'utf8', timeout: 30000 });
+      execSync(`npm run convert "${departmentsXml}" -- --to csv --line-ending crlf -o "${xmlCsv}"`, { encoding: 'utf8', timeout: 30000 });
+
+      expect(fs.readFileSync(excelCsv, 'utf8')).toBe(
+        'Department,Manager,Budget\nEngineering,Tech Lead,500000\nMarketing,Marketing Head,300000\nSales,Sales Director,400000\n'
+      );
+      expect(fs.readFileSync(xmlCsv, 'utf8')).toBe('id,name,budget\r\neng,Engineering,500000\r\nmkt,"Marketing, Sales",300000\r\n');
+    });
+
+    it('should write CSV and JSON inputs to one XLSX workbook', () => {
+      const XLSX = require('xlsx');
+      const projectsJson = path.join(testDataDir, 'projects.json');
+      const workbookFile = path.join(outputDir, 'combined.xlsx');
+      const groupedFile = path.join(outputDir, 'by-department.xlsx');
+      fs.writeFileSync(projectsJson, JSON.stringify([{ project: 'Apollo', budget: 1200 }, { project: 'Gemini', budget: 800 }]), 'utf8');
+
+      const output = execSync(`npm run convert "${testCSV}" "${projectsJson}" -- --to xlsx -o "${workbookFile}"`, { encoding: 'utf8', timeout: 30000 });
+      execSync(`npm run convert "${testCSV}" -- --to xlsx --group-by department -o "${groupedFile}"`, { encoding: 'utf8', timeout: 30000 });
+
+      expect(output).toContain('XLSX saved to:');
+      expect(output).toContain('integration-test: 5 records');
+      const workbook = XLSX.readFile(workbookFile);
+      expect(workbook.SheetNames).toEqual(['integration-test', 'projects']);
+      expect(workbook.Sheets['integration-test'].C2).toMatchObject({ t: 'n', v: 30 });
+      expect(workbook.Sheets['integration-test'].H4).toMatchObject({ t: 'b', v: false });
+      expect(workbook.Sheets.projects.A3.v).toBe('Gemini');
+      expect(XLSX.readFile(groupedFile).SheetNames).toEqual(['Engineering', 'Marketing', 'Sales']);
+    });
+
+    it('should infer the output format from the output path', () => {
+      const yamlFile = path.join(outputDir, 'company.yaml');
+      const ndjsonFile = path.join(outputDir, 'integration-test.ndjson');
+
+      const output = execSync(`npm run convert "${testXML}" -- -o "${yamlFile}"`, { encoding: 'utf8', timeout: 30000 });
+      execSync(`npm run convert "${testCSV}" -- -o "${ndjsonFile}"`, { encoding: 'utf8', timeout: 30000 });
+      const markdown = execSync(`npm run convert "${testCSV}" -- --to md`, { encoding: 'utf8', timeout: 30000 });
+
+      expect(output).toContain('YAML saved to:');
+      expect(fs.readFileSync(yamlFile, 'utf8')).toContain('company:\n  info:\n    name: Test Company');
+      const lines = fs.readFileSync(ndjsonFile, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(5);
+      expect(JSON.parse(lines[0])).toMatchObject({ id: '1', name: 'John Doe' });
+      expect(markdown).toContain('| 3 | Bob Johnson | 35 | Toronto | Canada | 80000 | Engineering | false |');
+      expect(markdown).toContain('- integration-test: 5 records');
+    });
+
+    it('should stream records to NDJSON and read NDJSON back', () => {
+      const ndjsonFile = path.join(outputDir, 'employees.jsonl');
+      const jsonFile = path.join(outputDir, 'employees-from-ndjson.json');
+
+      const output = execSync(`npm run convert "${testCSV}" -- --to ndjson -o "${ndjsonFile}"`, { encoding: 'utf8', timeout: 30000 });
+      const processOutput = execSync(`npm run process "${ndjsonFile}" -- -o "${jsonFile}"`, { encoding: 'utf8', timeout: 30000 });
+
+      expect(output).toContain('- integration-test: 5 records');
+      expect(processOutput).toContain('Detected file type: NDJSON');
+      expect(processOutput).toContain('- Records: 5, Keys: 8');
+      expect(JSON.parse(fs.readFileSync(jsonFile, 'utf8'))[4]).toMatchObject({ name: 'Charlie Wilson', city: 'Berlin' });
+    });
+
+    it('should stream XML records named by --record', () => {
+      const ndjsonFile = path.join(outputDir, 'employees-from-xml.ndjson');
+      const jsonFile = path.join(outputDir, 'employees-records.json');
+
+      const output = execSync(`npm run convert "${testXML}" -- --record employees/employee -o "${ndjsonFile}"`, { encoding: 'utf8', timeout: 30000 });
+      const convertOutput = execSync(`npm run convert-xml "${testXML}" -- --record employee -o "${jsonFile}"`, { encoding: 'utf8', timeout: 30000 });
+
+      expect(output).toContain('- integration-test: 3 records');
+      const lines = fs.readFileSync(ndjsonFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(line => line.name)).toEqual(['John Doe', 'Jane Smith', 'Bob Johnson']);
+      expect(lines[0]).toMatchObject({ id: '1', active: 'true', salary: { _: '75000', currency: 'USD' } });
+      expect(convertOutput).toContain('JSON saved to:');
+      expect(JSON.parse(fs.readFileSync(jsonFile, 'utf8'))[2]).toMatchObject({ $: { id: '3' }, position: 'Senior Engineer' });
+    });
+
+    it('should flatten XML records to CSV rows with a column mapping', () => {
+      const csvFile = path.join(outputDir, 'employee-skills.csv');
+
+      execSync(`npm run convert "${testXML}" -- --record employee --column id=@id --column name=name --column salary=salary ` +
+        `--column currency=salary@currency --column skills=skills.skill --column level=skills.skill@level --explode level ` +
+        `--join-separator "|" -o "${csvFile}"`, { encoding: 'utf8', timeout: 30000 });
+
+      const lines = fs.readFileSync(csvFile, 'utf8').trim().split('\n');
+      expect(lines[0]).toBe('id,name,salary,currency,skills,level');
+      expect(lines).toHaveLength(8);
+      expect(lines[1]).toBe('1,John Doe,75000,USD,JavaScript|Python|Go,expert');
+      expect(lines[7]).toBe('3,Bob Johnson,80000,USD,Java|System Design,expert');
+    });
+
+    it('should query XML with XPath', () => {
+      const outputFile = path.join(outputDir, 'expert-skills.json');
+
+      const output = execSync(`npm run query-xml "${testXML}" -- --xpath "//skill[@level='expert']" -o "${outputFile}"`, { encoding: 'utf8', timeout: 30000 });
+      const countOutput = execSync(`npm run query-xml "${testXML}" -- -x "count(//employee[@active='true'])"`, { encoding: 'utf8', timeout: 30000 });
+
+      expect(output).toContain('Matched 4 nodes');
+      const nodes = JSON.parse(fs.readFileSync(outputFile, 'utf8'));
+      expect(nodes[0]).toEqual({
+        type: 'element',
+        name: 'skill',
+        path: '/company/employees[1]/employee[1]/skills[1]/skill[1]',
+        value: { _: 'JavaScript', $: { level: 'expert' } }
+      });
+      expect(countOutput).toContain('Result (number): 2');
+    });
+
+    it('should reject output paths without a known format', () => {
+      const output = execSync(`npm run convert "${testCSV}" -- -o "${path.join(outputDir, 'out.dat')}" 2>&1`, { encoding: 'utf8', timeout: 30000 });
+
+      expect(output).toContain('Cannot infer the output format');
+    });
+
+    it('should write XML edited as JSON back to XML', () => {
+      const jsonFile = path.join(outputDir, 'company-edit.json');
+      const xmlFile = path.join(outputDir, 'company-edited.xml');
+      execSync(`npm run convert-xml "${testXML}" -- -o "${jsonFile}"`, { encoding: 'utf8', timeout: 30000 });
+
+      const edited = JSON.parse(fs.readFileSync(jsonFile, 'utf8'));
+      edited.data.company.info.name = 'Renamed Company';
+      fs.writeFileSync(jsonFile, JSON.stringify(edited), 'utf8');
+
+      const output = execSync(`npm run convert "${jsonFile}" -- --to xml -o "${xmlFile}"`, { encoding: 'utf8', timeout: 30000 });
+      const xml = fs.readFileSync(xmlFile, 'utf8');
+
+      expect(output).toContain('XML saved to:');
+      expect(xml).toContain('<name>Renamed Company</name>');
+      expect(xml).toContain('<employee id="3" active="false">');
+      expect(xml).toContain('<skill level="expert">System Design</skill>');
+    });
+  });
+
+  describe('Schema Validation Integration', () => {
+    it('should generate a schema and validate the file against it', () => {
+      const schemaFile = path.join(outputDir, 'integration-test.schema.json');
+      execSync(`npm run schema "${testCSV}" -- -o "${schemaFile}"`, { encoding: 'utf8', timeout: 30000 });
+
+      const schema = JSON.parse(fs.readFileSync(schemaFile, 'utf8'));
+      expect(schema.items.properties.age.type).toBe('integer');
+
+      const output = execSync(`npm run validate "${testCSV}" -- --schema "${schemaFile}"`, { encoding: 'utf8', timeout: 30000 });
+      expect(output).toContain('All records match the schema');
+    });
+
+    it('should report violations and exit with a non-zero code', () => {
+      const schemaFile = path.join(outputDir, 'strict.schema.json');
+      fs.writeFileSync(schemaFile, JSON.stringify({
+        type: 'object',
+        properties: { age: { type: 'integer', maximum: 30 } }
+      }));
+
+      let status = 0;
+      let output = '';
+      try {
+        execSync(`npm run validate "${testCSV}" -- --schema "${schemaFile}"`, { encoding: 'utf8', timeout: 30000, stdio: 'pipe' });
+      } catch (error: any) {
+        status = error.status;
+        output = error.stdout;
+      }
+
+      expect(status).not.toBe(0);
+      expect(output).toContain("row 4, field 'age': must be <= 30 (maximum)");
+      expect(output).toContain('- Invalid: 2');
+    });
+
+    it('should validate XML against an XSD', () => {
+      const schemaFile = path.join(outputDir, 'company.xsd');
+      fs.writeFileSync(schemaFile, `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="company">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="info"/>
+        <xs:element name="employees">
+          <xs:complexType><xs:sequence><xs:element name="employee" type="Employee" maxOccurs="unbounded"/></xs:sequence></xs:complexType>
+        </xs:element>
+        <xs:element name="departments"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+  <xs:complexType name="Employee">
+    <xs:sequence>
+      <xs:element name="name" type="xs:string"/>
+      <xs:element name="position" type="xs:string"/>
+      <xs:element name="salary"/>
+      <xs:element name="skills">
+        <xs:complexType><xs:sequence><xs:element name="skill" type="Skill" maxOccurs="unbounded"/></xs:sequence></xs:complexType>
+      </xs:element>
+    </xs:sequence>
+    <xs:attribute name="id" type="xs:positiveInteger" use="required"/>
+    <xs:attribute name="active" type="xs:boolean"/>
+  </xs:complexType>
+  <xs:complexType name="Skill">
+    <xs:simpleContent>
+      <xs:extension base="xs:string">
+        <xs:attribute name="level">
+          <xs:simpleType><xs:restriction base="xs:string"><xs:enumeration value="expert"/><xs:enumeration value="intermediate"/></xs:restriction></xs:simpleType>
+        </xs:attribute>
+      </xs:extension>
+    </xs:simpleContent>
+  </xs:complexType>
+</xs:schema>`);
+
+      let status = 0;
+      let output = '';
+      try {
+        execSync(`npm run validate-xml "${testXML}" -- --xsd "${schemaFile}"`, { encoding: 'utf8', timeout: 30000, stdio: 'pipe' });
+      } catch (error: any) {
+        status = error.status;
+        output = error.stdout;
+      }
+
+      expect(status).not.toBe(0);
+      expect(output).toContain("- line 16, column 9 (/company/employees[1]/employee[1]/skills[1]/skill[3]): Attribute 'level' of element 'skill': 'beginner' is not one of: expert, intermediate (enumeration)");
+      expect(output).toContain('- Violations: 1');
+    });
   });
 
   describe('Error Handling Integration', () => {
     it('should handle non-existent files gracefully', () => {
       const output = execSync('npm run detect "nonexistent.csv"', { 
         encoding: 'utf8',
-        timeout: 10000 
+        timeout: 30000 
       });
       
       // Check that error message is in the output (our CLI handles errors gracefully)
@@ -367,7 +623,7 @@ describe('Integration Tests - End-to-End Workflows', () => {
       
       const output = execSync(`npm run process "${invalidFile}"`, { 
         encoding: 'utf8',
-        timeout: 10000 
+        timeout: 30000 
       });
       
       // Check that empty file is detected and handled gracefully
@@ -379,12 +635,108 @@ describe('Integration Tests - End-to-End Workflows', () => {
     it('should validate Excel file with missing sheets gracefully', () => {
       const output = execSync(`npm run convert-excel "${testExcel}" -- -s "NonExistentSheet"`, { 
         encoding: 'utf8',
-        timeout: 10000 
+        timeout: 30000 
       });
       
       // Check that processing attempts to find non-existent sheet
       expect(output).toContain('Processing sheet: NonExistentSheet');
     });
+
+    it('should suggest the sheets a workbook has when one is missing', () => {
+      const output = execSync(`npm run convert-excel "${testExcel}" -- -s "NonExistentSheet" 2>&1`, {
+        encoding: 'utf8',
+        timeout: 30000
+      });
+
+      expect(output).toContain('Error: Sheet "NonExistentSheet" not found');
+      expect(output).toContain('Hint: Available sheets: Employees, Departments - choose one with --sheet');
+    });
+
+    it('should point at XML syntax errors', () => {
+      const brokenFile = path.join(testDataDir, 'broken.xml');
+      fs.writeFileSync(brokenFile, '<?xml version="1.0"?>\n<root>\n  <item>Test</itme>\n</root>', 'utf8');
+
+      const output = execSync(`npm run test-xml "${brokenFile}" 2>&1`, {
+        encoding: 'utf8',
+        timeout: 30000
+      });
+
+      expect(output).toContain('- XML syntax error: Unmatched closing tag: itme at line 3, column 19');
+      expect(output).toContain(`      <item>Test</itme>\n${' '.repeat(22)}^`);
+
+      fs.unlinkSync(brokenFile);
+    });
+
+    it('should reject XML with a DOCTYPE when processing', () => {
+      const doctypeFile = path.join(testDataDir, 'doctype.xml');
+      fs.writeFileSync(doctypeFile, '<?xml version="1.0"?>\n<!DOCTYPE root [<!ELEMENT root ANY>]>\n<root><item>Test</item></root>', 'utf8');
+
+      let status = 0;
+      let output = '';
+      try {
+        execSync(`npm run process "${doctypeFile}" 2>&1`, { encoding: 'utf8', timeout: 30000, stdio: 'pipe' });
+      } catch (error: any) {
+        status = error.status;
+        output = error.stdout;
+      }
+
+      expect(status).not.toBe(0);
+      expect(output).toContain('XML security limit hit (doctype): DOCTYPE declarations are not allowed (line 2, column 37)');
+
+      const allowed = execSync(`npm run process "${doctypeFile}" -- --allow-doctype`, { encoding: 'utf8', timeout: 30000 });
+      expect(allowed).toContain('XML Statistics:');
+
+      fs.unlinkSync(doctypeFile);
+    });
+
+    it('should reject an entity expansion bomb and referenced external entities with --allow-doctype', () => {
+      const cases = [
+        {
+          name: 'bomb.xml',
+          content: '<?xml version="1.0"?>\n<!DOCTYPE r [<!ENTITY a "aaaaaaaaaa"><!ENTITY b "&a;&a;&a;&a;&a;&a;&a;&a;&a;&a;">' +
+            '<!ENTITY c "&b;&b;&b;&b;&b;&b;&b;&b;&b;&b;"><!ENTITY d "&c;&c;&c;&c;&c;&c;&c;&c;&c;&c;">]>\n<r>&d;</r>',
+          message: "XML security limit hit (entityExpansion): Entity expansion limit exceeded: entity 'd' expands to more than 1000 entities"
+        },
+        {
+          name: 'external.xml',
+          content: '<?xml version="1.0"?>\n<!DOCTYPE feed [<!ENTITY e SYSTEM "file:///etc/passwd">]>\n<feed><entry>&e;</entry></feed>',
+          message: "XML security limit hit (externalEntity): External entity 'e' is not allowed"
+        }
+      ];
+
+      for (const { name, content, message } of cases) {
+        const xmlFile = path.join(testDataDir, name);
+        fs.writeFileSync(xmlFile, content, 'utf8');
+
+        let status = 0;
+        let output = '';
+        try {
+          execSync(`npm run process "${xmlFile}" -- --allow-doctype 2>&1`, { encoding: 'utf8', timeout: 30000, stdio: 'pipe' });
+        } catch (error: any) {
+          status = error.status;
+          output = error.stdout;
+        }
+
+        expect(status).not.toBe(0);
+        expect(output).toContain(message);
+        expect(output).not.toContain('Invalid character entity');
+
+        fs.unlinkSync(xmlFile);
+      }
+    });
+
+    it('should expand declared entities with --allow-doctype', () => {
+      const entityFile = path.join(testDataDir, 'entities.xml');
+      fs.writeFileSync(entityFile, '<?xml version="1.0"?>\n<!DOCTYPE r [<!ENTITY co "Acme &amp; Sons">]>\n<r><item>&co;</item><item>b</item></r>', 'utf8');
+      const outputFile = path.join(testDataDir, 'entities.json');
+
+      execSync(`npm run process "${entityFile}" -- --allow-doctype -o "${outputFile}"`, { encoding: 'utf8', timeout: 30000 });
+
+      expect(JSON.parse(fs.readFileSync(outputFile, 'utf8')).data.r.item).toEqual(['Acme & Sons', 'b']);
+
+      fs.unlinkSync(entityFile);
+      fs.unlinkSync(outputFile);
+    });
   });
 
   describe('Performance Integration', () => {
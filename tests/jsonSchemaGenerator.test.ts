@@ -0,0 +1,106 @@
+import { JSONSchemaGenerator } from '../src/utils/jsonSchemaGenerator';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('JSONSchemaGenerator', () => {
+  const testDataDir = path.join(__dirname, 'schema-test-data');
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('fromRecords', () => {
+    const records = [
+      { id: '1', email: 'a@example.com', status: 'active', score: '3.5', joined: '2020-01-01', note: 'x' },
+      { id: '2', email: 'b@example.com', status: 'active', score: '4', joined: '2020-02-01', note: '' },
+      { id: '3', email: 'c@example.com', status: 'closed', score: '1', joined: '2020-03-01', note: 'long note' },
+      { id: '4', email: 'd@example.com', status: 'active', score: '2.25', joined: '2020-04-01', note: 'y' }
+    ];
+
+    // test types, ranges, formats and nullability per column
+    it('should describe records as a draft 2020-12 array schema', () => {
+      const schema = JSONSchemaGenerator.fromRecords(records, { title: 'people' });
+
+      expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+      expect(schema.title).toBe('people');
+      expect(schema.type).toBe('array');
+      expect(schema.items?.required).toEqual(['id', 'email', 'status', 'score', 'joined', 'note']);
+
+      const properties = schema.items?.properties || {};
+      expect(properties.id).toEqual({ type: 'integer', minimum: 1, maximum: 4 });
+      expect(properties.email).toMatchObject({ type: 'string', format: 'email' });
+      expect(properties.score).toEqual({ type: 'number', minimum: 1, maximum: 4 });
+      expect(properties.joined).toEqual({ type: 'string', format: 'date' });
+      expect(properties.note).toEqual({ type: ['string', 'null'], minLength: 1, maxLength: 9 });
+    });
+
+    // test enums only for repeated low-cardinality values
+    it('should list enums for low-cardinality columns', () => {
+      const properties = JSONSchemaGenerator.fromRecords(records).items?.properties || {};
+
+      expect(properties.status.enum).toEqual(['active', 'closed']);
+      expect(properties.id.enum).toBeUndefined();
+      expect(JSONSchemaGenerator.fromRecords(records, { enumThreshold: 0 }).items?.properties?.status.enum).toBeUndefined();
+    });
+
+    // test nested objects, arrays and optional keys as produced by XML records
+    it('should describe nested and optional values', () => {
+      const schema = JSONSchemaGenerator.fromRecords([
+        { id: '1', author: { name: 'A' }, tag: ['x', 'y'] },
+        { id: '2', author: { name: 'B', born: '1950' }, tag: 'z' }
+      ]);
+      const properties = schema.items?.properties || {};
+
+      expect(schema.items?.required).toEqual(['id', 'author', 'tag']);
+      expect(properties.author).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 1 },
+          born: { type: 'integer', minimum: 1950, maximum: 1950 }
+        },
+        required: ['name']
+      });
+      expect(properties.tag.anyOf).toEqual([
+        { type: 'string', minLength: 1, maxLength: 1 },
+        { type: 'array', items: { type: 'string', minLength: 1, maxLength: 1 } }
+      ]);
+    });
+  });
+
+  describe('fromFile', () => {
+    // test CSV files are read through the CSV processor
+    it('should generate a schema for a CSV file', async () => {
+      const csvFile = path.join(testDataDir, 'people.csv');
+      fs.writeFileSync(csvFile, 'name,age,active\nJohn,30,true\nJane,25,false\n');
+
+      const schema = await JSONSchemaGenerator.fromFile(csvFile);
+
+      expect(schema.title).toBe('people.csv');
+      expect(schema.items?.properties?.age).toEqual({ type: 'integer', minimum: 25, maximum: 30 });
+      expect(schema.items?.properties?.active).toEqual({ type: 'boolean' });
+    });
+
+    // test XML files are read as repeated records
+    it('should generate a schema for an XML file', async () => {
+      const xmlFile = path.join(testDataDir, 'books.xml');
+      fs.writeFileSync(xmlFile, '<books><book id="1"><price>9.5</price></book><book id="2"><price>12</price></book></books>');
+
+      const schema = await JSONSchemaGenerator.fromFile(xmlFile);
+
+      expect(schema.items?.properties).toEqual({
+        id: { type: 'integer', minimum: 1, maximum: 2 },
+        price: { type: 'number', minimum: 9.5, maximum: 12 }
+      });
+    });
+  });
+});
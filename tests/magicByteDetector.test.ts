@@ -0,0 +1,126 @@
+import { MagicByteDetector } from '../src/utils/magicByteDetector';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as XLSX from 'xlsx';
+
+describe('MagicByteDetector', () => {
+  const testDataDir = path.join(__dirname, 'magic-byte-test-data');
+
+  // a ZIP archive with uncompressed entries - enough for the detector, which never checks CRCs
+  const createZip = (entries: Record<string, string>): Buffer => {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+    for (const [name, content] of Object.entries(entries)) {
+      const nameBytes = Buffer.from(name, 'utf8');
+      const data = Buffer.from(content, 'utf8');
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034B50, 0);
+      local.writeUInt32LE(data.length, 18);
+      local.writeUInt32LE(data.length, 22);
+      local.writeUInt16LE(nameBytes.length, 26);
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014B50, 0);
+      central.writeUInt32LE(data.length, 20);
+      central.writeUInt32LE(data.length, 24);
+      central.writeUInt16LE(nameBytes.length, 28);
+      central.writeUInt32LE(offset, 42);
+      locals.push(local, nameBytes, data);
+      centrals.push(central, nameBytes);
+      offset += 30 + nameBytes.length + data.length;
+    }
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054B50, 0);
+    end.writeUInt16LE(centrals.length / 2, 8);
+    end.writeUInt16LE(centrals.length / 2, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...locals, directory, end]);
+  };
+
+  const createWorkbook = (bookType: XLSX.BookType): Buffer => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['name', 'value'], ['a', 1]]), 'Data');
+    return XLSX.write(workbook, { bookType, type: 'buffer' });
+  };
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  // test workbooks are told apart from other ZIP containers by their parts
+  it('should recognise ZIP containers by their entries', () => {
+    const contentTypes = '<?xml version="1.0"?><Types/>';
+
+    expect(MagicByteDetector.detect(createWorkbook('xlsx'))).toMatchObject({ format: 'xlsx', binary: true });
+    expect(MagicByteDetector.detect(createWorkbook('xlsb'))?.reasons).toContain('Office Open XML package with xl/workbook.bin');
+    expect(MagicByteDetector.detect(createWorkbook('ods'))?.format).toBe('ods');
+    expect(MagicByteDetector.detect(createZip({ '[Content_Types].xml': contentTypes, 'word/document.xml': '<w:document/>' }))?.format).toBe('docx');
+    expect(MagicByteDetector.detect(createZip({ '[Content_Types].xml': contentTypes, 'ppt/presentation.xml': '<p/>' }))?.format).toBe('pptx');
+    expect(MagicByteDetector.detect(createZip({ mimetype: 'application/vnd.oasis.opendocument.text', 'content.xml': '<x/>' }))?.format).toBe('odt');
+    // a workbook part without the content types of a package is just a file in an archive
+    expect(MagicByteDetector.detect(createZip({ 'xl/workbook.xml': '<workbook/>', 'notes.txt': 'a,b' }))).toEqual({
+      format: 'zip',
+      description: 'ZIP archive',
+      binary: true,
+      reasons: ['ZIP signature', 'No Office Open XML or OpenDocument parts among 2 entries']
+    });
+  });
+
+  // test the local headers are read when the central directory is not in the sample
+  it('should read entries from a truncated sample', () => {
+    const docx = createZip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': '<w:document/>', 'word/big.bin': 'x'.repeat(4000) });
+
+    expect(MagicByteDetector.detect(docx.subarray(0, 1024))?.format).toBe('docx');
+  });
+
+  // test legacy Office files are told apart by the streams in their OLE2 directory
+  it('should recognise OLE2 compound documents', () => {
+    const xls = createWorkbook('xls');
+    const unknown = Buffer.from(xls);
+    // rename the Workbook stream
+    const nameOffset = unknown.indexOf(Buffer.from('Workbook', 'utf16le'));
+    unknown.write('Contents', nameOffset, 'utf16le');
+
+    expect(MagicByteDetector.detect(xls)).toMatchObject({ format: 'xls', description: 'Excel 97-2003 workbook (XLS)' });
+    expect(MagicByteDetector.detect(xls)?.reasons).toEqual(['OLE2 compound document signature', 'Workbook stream found']);
+    expect(MagicByteDetector.detect(unknown)?.format).toBe('ole');
+  });
+
+  // test signatures of formats that are not read, UTF-16 text and other binary data
+  it('should recognise other formats and UTF-16 text', () => {
+    expect(MagicByteDetector.detect(zlib.gzipSync('a,b\n1,2\n'))?.format).toBe('gzip');
+    expect(MagicByteDetector.detect(Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1'))?.format).toBe('pdf');
+    expect(MagicByteDetector.detect(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0, 0, 0, 13]))?.format).toBe('png');
+    // the first bytes of a PNG signature alone are not one
+    expect(MagicByteDetector.detect(Buffer.from([0x89, 0x50, 0x4E, 0x47]))).toBeNull();
+
+    expect(MagicByteDetector.detect(Buffer.from('\uFEFFname,value\n', 'utf16le'))).toMatchObject({ format: 'utf-16le', binary: false });
+    expect(MagicByteDetector.detect(Buffer.from('name,value\na,1\nb,2\n', 'utf16le').swap16())?.format).toBe('utf-16be');
+    expect(MagicByteDetector.detect(Buffer.from([0x01, 0x00, 0x00, 0x00, 0x7F, 0x00, 0x00, 0x00, 0x02]))?.format).toBe('binary');
+    expect(MagicByteDetector.detect(Buffer.from('name,city\nZoë,Zürich\n', 'utf8'))).toBeNull();
+  });
+
+  // test files are read where their directories are, however large they are
+  it('should detect files', () => {
+    const workbookFile = path.join(testDataDir, 'report.dat');
+    const archiveFile = path.join(testDataDir, 'archive.zip');
+    fs.writeFileSync(workbookFile, createWorkbook('xlsx'));
+    fs.writeFileSync(archiveFile, createZip({ '[Content_Types].xml': '<Types/>', 'padding.txt': 'x'.repeat(20000), 'xl/workbook.xml': '<workbook/>' }));
+
+    expect(MagicByteDetector.detectFile(workbookFile)?.format).toBe('xlsx');
+    expect(MagicByteDetector.detectFile(archiveFile)?.reasons).toEqual(['ZIP signature', 'Office Open XML package with xl/workbook.xml']);
+  });
+});
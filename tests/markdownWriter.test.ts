@@ -0,0 +1,28 @@
+import { MarkdownWriter } from '../src/writers/markdownWriter';
+
+describe('MarkdownWriter', () => {
+  // test a table with header, separator and one row per record
+  it('should write a Markdown table', () => {
+    const markdown = new MarkdownWriter().write([{ name: 'Ann', age: 30 }, { name: 'Bob', city: 'Oslo' }]);
+
+    expect(markdown).toBe([
+      '| name | age | city |',
+      '| --- | ---: | --- |',
+      '| Ann | 30 |  |',
+      '| Bob |  | Oslo |',
+      ''
+    ].join('\n'));
+  });
+
+  // test pipes, backslashes and line breaks cannot break the table
+  it('should escape cell content', () => {
+    const markdown = new MarkdownWriter({ columns: ['note'] }).write([{ note: 'a | b\\c\nnext line', ignored: 1 }]);
+
+    expect(markdown.split('\n')[2]).toBe('| a \\| b\\\\c<br>next line |');
+  });
+
+  // test no records and no columns give no table
+  it('should write nothing without columns', () => {
+    expect(new MarkdownWriter().write([])).toBe('');
+  });
+});
@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as iconv from 'iconv-lite';
+import { NDJSONProcessor } from '../src/processors/ndjsonProcessor';
+
+describe('NDJSONProcessor', () => {
+  const testDataDir = path.join(__dirname, 'ndjson-test-data');
+  const logFile = path.join(testDataDir, 'events.ndjson');
+  const invalidFile = path.join(testDataDir, 'invalid.ndjson');
+  let processor: NDJSONProcessor;
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+
+    fs.writeFileSync(logFile, [
+      '{"level":"info","msg":"started","pid":42}',
+      '',
+      '{"level":"warn","msg":"slow \\"query\\"","ms":1200}',
+      '{"level":"error","msg":"failed","tags":["db","retry"]}'
+    ].join('\r\n') + '\r\n');
+    fs.writeFileSync(invalidFile, '{"id":1}\n{"id":2,}\n"just text"\n{"id":3}\n');
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  beforeEach(() => {
+    processor = new NDJSONProcessor();
+  });
+
+  describe('processFile', () => {
+    // test every line becomes a record, blank lines and CRLF endings are skipped
+    it('should read one record per line', async () => {
+      const result = await processor.processFile(logFile);
+
+      expect(result.rowCount).toBe(3);
+      expect(result.keys).toEqual(['level', 'msg', 'pid', 'ms', 'tags']);
+      expect(result.data[1]).toEqual({ level: 'warn', msg: 'slow "query"', ms: 1200 });
+      expect(result.data[2].tags).toEqual(['db', 'retry']);
+      expect(result.fileName).toBe('events.ndjson');
+    });
+
+    // test an invalid line fails with its line number
+    it('should report the line of invalid JSON', async () => {
+      await expect(processor.processFile(invalidFile)).rejects.toThrow(/^NDJSON processing error: line 2: /);
+    });
+
+    // test invalid lines can be skipped, scalar lines are wrapped
+    it('should skip invalid lines when asked', async () => {
+      const result = await new NDJSONProcessor({ skipInvalidLines: true }).processFile(invalidFile);
+
+      expect(result.data).toEqual([{ id: 1 }, { value: 'just text' }, { id: 3 }]);
+      expect(result.skippedLines).toBe(1);
+    });
+
+    // test missing and empty files
+    it('should reject missing and empty files', async () => {
+      const emptyFile = path.join(testDataDir, 'empty.ndjson');
+      fs.writeFileSync(emptyFile, '');
+
+      await expect(processor.processFile(path.join(testDataDir, 'missing.ndjson'))).rejects.toThrow('File not found');
+      await expect(processor.processFile(emptyFile)).rejects.toThrow('File is empty');
+    });
+
+    // test UTF-16 input is decoded before splitting lines
+    it('should decode other encodings', async () => {
+      const utf16File = path.join(testDataDir, 'utf16.ndjson');
+      fs.writeFileSync(utf16File, iconv.encode('{"city":"Zürich"}\n{"city":"東京"}\n', 'utf-16le', { addBOM: true }));
+
+      const result = await processor.processFile(utf16File);
+
+      expect(result.data).toEqual([{ city: 'Zürich' }, { city: '東京' }]);
+    });
+  });
+
+  describe('rows', () => {
+    // test records are streamed with their line numbers
+    it('should stream records with line numbers', async () => {
+      const lines: number[] = [];
+      for await (const row of processor.rows(logFile)) {
+        lines.push(row.lineNumber);
+      }
+
+      expect(lines).toEqual([1, 3, 4]);
+    });
+  });
+
+  describe('processString', () => {
+    // test NDJSON held in memory
+    it('should parse NDJSON strings', async () => {
+      const result = await processor.processString('{"a":1}\n{"a":2}');
+
+      expect(result.data).toEqual([{ a: 1 }, { a: 2 }]);
+      await expect(processor.processString('  \n')).rejects.toThrow('NDJSON string is empty');
+    });
+  });
+
+  describe('validateNDJSON', () => {
+    // test a clean file passes
+    it('should accept valid files', async () => {
+      const result = await processor.validateNDJSON(logFile);
+
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toEqual([]);
+    });
+
+    // test invalid lines are listed and scalar lines warned about
+    it('should list invalid lines', async () => {
+      const result = await processor.validateNDJSON(invalidFile);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(['1 line is not valid JSON (first at line 2)']);
+      expect(result.issues.map(issue => issue.line)).toEqual([2]);
+      expect(result.warnings[0]).toContain('1 line holds a value other than an object');
+    });
+  });
+
+  describe('convertToJSON', () => {
+    // test conversion to a JSON array in memory and on disk
+    it('should convert to a JSON array', async () => {
+      const outputFile = path.join(testDataDir, 'events.json');
+
+      const json = await processor.convertToJSON(logFile);
+      await processor.convertToJSON(logFile, outputFile);
+
+      expect(JSON.parse(json)).toHaveLength(3);
+      expect(fs.readFileSync(outputFile, 'utf8')).toBe(json);
+    });
+
+    // test an output file that cannot be opened rejects instead of crashing on an unhandled stream error
+    it('should reject when the output directory does not exist', async () => {
+      await expect(processor.convertToJSON(logFile, path.join(testDataDir, 'missing-dir', 'events.json'))).rejects.toThrow('ENOENT');
+    });
+  });
+
+  describe('getStatistics', () => {
+    // test record and key counts
+    it('should count records and keys', async () => {
+      const stats = await processor.getStatistics(logFile);
+
+      expect(stats.totalRows).toBe(3);
+      expect(stats.totalKeys).toBe(5);
+      expect(stats.encoding).toBe('utf-8');
+    });
+
+    // test the preview stops after the requested records
+    it('should preview the first records', async () => {
+      const preview = await processor.getPreview(logFile, 2);
+
+      expect(preview.data.map(record => record.level)).toEqual(['info', 'warn']);
+    });
+  });
+});
@@ -208,7 +208,7 @@ describe('Performance Benchmark Tests', () => {
       
       // Test validation
       const validationStart = Date.now();
-      const validation = processor.validateXml(xmlFile);
+      const validation = await processor.validateXml(xmlFile);
       const validationTime = Date.now() - validationStart;
       console.log(`  Validation: ${validationTime}ms`);
       expect(validation.isValid).toBe(true);
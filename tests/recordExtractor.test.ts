@@ -0,0 +1,144 @@
+import { RecordExtractor } from '../src/utils/recordExtractor';
+import { FileType } from '../src/utils/fileValidator';
+import { XmlProcessor } from '../src/processors/xmlProcessor';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+
+describe('RecordExtractor', () => {
+  const testDataDir = path.join(__dirname, 'extractor-test-data');
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  // test CSV rows carry the file line they start on, with the dialect sniffed
+  it('should extract CSV rows with line numbers', async () => {
+    const csvFile = path.join(testDataDir, 'people.csv');
+    fs.writeFileSync(csvFile, 'name;age\nJohn;30\n\nJane;25\n');
+
+    const { fileType, records } = await RecordExtractor.extract(csvFile);
+
+    expect(fileType).toBe(FileType.CSV);
+    expect(records).toEqual([
+      { data: { name: 'John', age: '30' }, location: 'row 2', row: 2 },
+      { data: { name: 'Jane', age: '25' }, location: 'row 4', row: 4 }
+    ]);
+  });
+
+  // test Excel rows carry their sheet row, skipping blank rows
+  it('should extract Excel rows with sheet rows', async () => {
+    const excelFile = path.join(testDataDir, 'people.xlsx');
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['name', 'age'], ['John', 30], [], ['Jane', 25]]), 'People');
+    XLSX.writeFile(workbook, excelFile);
+
+    const { fileType, records } = await RecordExtractor.extract(excelFile);
+
+    expect(fileType).toBe(FileType.EXCEL);
+    expect(records.map(record => record.row)).toEqual([2, 4]);
+    expect(records[1].data).toEqual({ name: 'Jane', age: 25 });
+  });
+
+  // test repeated XML elements become records with their path, attributes merged in
+  it('should extract repeated XML elements as records', async () => {
+    const xmlFile = path.join(testDataDir, 'catalog.xml');
+    fs.writeFileSync(xmlFile, '<?xml version="1.0"?><catalog><title>Books</title>' +
+      '<book id="1"><name>A</name></book><book id="2"><name>B</name></book></catalog>');
+
+    const { fileType, records } = await RecordExtractor.extract(xmlFile);
+
+    expect(fileType).toBe(FileType.XML);
+    expect(records).toEqual([
+      { data: { id: '1', name: 'A' }, location: '/catalog/book[1]', path: '/catalog/book[1]' },
+      { data: { id: '2', name: 'B' }, location: '/catalog/book[2]', path: '/catalog/book[2]' }
+    ]);
+  });
+
+  // test wrapper elements are descended into and a document without a dominant repeated list is one record
+  it('should find records below wrappers and treat documents as one record', async () => {
+    const feedFile = path.join(testDataDir, 'feed.xml');
+    const studyFile = path.join(testDataDir, 'study.xml');
+    fs.writeFileSync(feedFile, '<rss><channel><item><t>1</t></item><item><t>2</t></item></channel></rss>');
+    fs.writeFileSync(studyFile, '<study><id>S1</id><title>T</title><phase>2</phase><tag>a</tag><tag>b</tag></study>');
+
+    const feed = await RecordExtractor.extract(feedFile);
+    const study = await RecordExtractor.extract(studyFile);
+
+    expect(feed.records.map(record => record.location)).toEqual(['/rss/channel/item[1]', '/rss/channel/item[2]']);
+    expect(study.records).toHaveLength(1);
+    expect(study.records[0]).toMatchObject({ location: '/study', data: { id: 'S1', tag: ['a', 'b'] } });
+  });
+
+  // test NDJSON lines become records located by line, streamed or collected
+  it('should extract and stream NDJSON records', async () => {
+    const ndjsonFile = path.join(testDataDir, 'events.ndjson');
+    fs.writeFileSync(ndjsonFile, '{"event":"open"}\n\n{"event":"close","code":0}\n');
+
+    const extracted = await RecordExtractor.extract(ndjsonFile);
+    const streamed: string[] = [];
+    for await (const record of RecordExtractor.stream(ndjsonFile)) {
+      streamed.push(record.location);
+    }
+
+    expect(extracted.fileType).toBe(FileType.NDJSON);
+    expect(extracted.records).toEqual([
+      { data: { event: 'open' }, location: 'line 1', row: 1 },
+      { data: { event: 'close', code: 0 }, location: 'line 3', row: 3 }
+    ]);
+    expect(streamed).toEqual(['line 1', 'line 3']);
+  });
+
+  // test XML records named by a record path are streamed with their element path as location
+  it('should stream XML records matching a record path', async () => {
+    const xmlFile = path.join(testDataDir, 'feed.xml');
+    fs.writeFileSync(xmlFile, '<feed><entry id="1"><title>One</title></entry><meta/><entry id="2"><title>Two</title></entry></feed>');
+
+    const processors = { xml: new XmlProcessor({ mergeAttrs: true, recordPath: 'feed/entry' }) };
+    const extracted = await RecordExtractor.extract(xmlFile, processors);
+    const streamed: string[] = [];
+    for await (const record of RecordExtractor.stream(xmlFile, processors)) {
+      streamed.push(record.location);
+    }
+
+    expect(extracted.fileType).toBe(FileType.XML);
+    expect(extracted.records).toEqual([
+      { data: { id: '1', title: 'One' }, location: '/feed/entry[1]', path: '/feed/entry[1]' },
+      { data: { id: '2', title: 'Two' }, location: '/feed/entry[2]', path: '/feed/entry[2]' }
+    ]);
+    expect(streamed).toEqual(['/feed/entry[1]', '/feed/entry[2]']);
+  });
+
+  // test JSON arrays, and the largest array inside a JSON object, become records with a JSON pointer
+  it('should extract JSON records', async () => {
+    const arrayFile = path.join(testDataDir, 'people.json');
+    const objectFile = path.join(testDataDir, 'wrapped.json');
+    fs.writeFileSync(arrayFile, '[{"name": "John", "age": 30}, {"name": "Jane"}]');
+    fs.writeFileSync(objectFile, '{"meta": {"count": 2}, "tags": ["a"], "items": [{"id": 1}, {"id": 2}]}');
+
+    const array = await RecordExtractor.extract(arrayFile);
+    const wrapped = await RecordExtractor.extract(objectFile);
+
+    expect(array.fileType).toBe(FileType.JSON);
+    expect(array.records).toEqual([
+      { data: { name: 'John', age: 30 }, location: '/0', path: '/0' },
+      { data: { name: 'Jane' }, location: '/1', path: '/1' }
+    ]);
+    expect(wrapped.records.map(record => [record.location, record.data])).toEqual([['/items/0', { id: 1 }], ['/items/1', { id: 2 }]]);
+  });
+
+  // test missing files are rejected before any processor runs
+  it('should reject missing files', async () => {
+    await expect(RecordExtractor.extract(path.join(testDataDir, 'missing.csv'))).rejects.toThrow('File not found');
+  });
+});
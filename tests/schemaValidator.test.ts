@@ -0,0 +1,129 @@
+import { SchemaValidator } from '../src/utils/schemaValidator';
+import { JSONSchema, JSONSchemaGenerator } from '../src/utils/jsonSchemaGenerator';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('SchemaValidator', () => {
+  const testDataDir = path.join(__dirname, 'schema-validator-test-data');
+  const recordSchema: JSONSchema = {
+    type: 'object',
+    required: ['id', 'email'],
+    properties: {
+      id: { type: 'integer' },
+      email: { type: 'string', format: 'email' },
+      status: { enum: ['active', 'inactive'] },
+      note: { type: ['string', 'null'], minLength: 2 }
+    }
+  };
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('validateRecords', () => {
+    // test string values are coerced and blank cells count as null
+    it('should accept matching records', () => {
+      const result = new SchemaValidator(recordSchema).validateRecords([
+        { data: { id: '1', email: 'a@example.com', status: 'active', note: '' }, location: 'row 2', row: 2 }
+      ]);
+
+      expect(result).toEqual({ isValid: true, totalRecords: 1, validRecords: 1, invalidRecords: 0, violations: [] });
+    });
+
+    // test every failed rule is reported with location, field and rule
+    it('should report violations per field', () => {
+      const result = new SchemaValidator(recordSchema).validateRecords([
+        { data: { id: '1', email: 'a@example.com' }, location: 'row 2', row: 2 },
+        { data: { id: 'x', status: 'gone' }, location: 'row 3', row: 3 }
+      ]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.invalidRecords).toBe(1);
+      expect(result.violations.map(violation => [violation.location, violation.field, violation.rule])).toEqual([
+        ['row 3', 'email', 'required'],
+        ['row 3', 'id', 'type'],
+        ['row 3', 'status', 'enum']
+      ]);
+      expect(result.violations[0]).toMatchObject({ row: 3, message: "must have required property 'email'" });
+    });
+
+    // test nested fields are named with dots and array indexes
+    it('should name nested fields', () => {
+      const validator = new SchemaValidator({
+        type: 'object',
+        properties: { author: { type: 'object', properties: { tags: { type: 'array', items: { type: 'integer' } } } } }
+      });
+
+      const result = validator.validateRecords([
+        { data: { author: { tags: ['1', 'x'] } }, location: '/books/book[1]', path: '/books/book[1]' }
+      ]);
+
+      expect(result.violations).toEqual([
+        { location: '/books/book[1]', path: '/books/book[1]', field: 'author.tags[1]', rule: 'type', message: 'must be integer' }
+      ]);
+    });
+
+    // test array schemas from the schema command validate each record against items
+    it('should accept generated array schemas', () => {
+      const records = [{ id: '1', size: 'S' }, { id: '2', size: 'S' }, { id: '3', size: 'M' }, { id: '4', size: 'M' }];
+      const validator = new SchemaValidator(JSONSchemaGenerator.fromRecords(records));
+
+      const result = validator.validateRecords(records.map((data, index) => ({ data, location: `row ${index + 2}` })));
+      const invalid = validator.validateRecords([{ data: { id: '5', size: 'XL' }, location: 'row 6' }]);
+
+      expect(result.isValid).toBe(true);
+      expect(invalid.violations.map(violation => violation.rule)).toEqual(['maximum', 'enum', 'maxLength']);
+    });
+  });
+
+  describe('fromFile and validateFile', () => {
+    // test schema files and data files are read from disk
+    it('should validate a CSV file against a schema file', async () => {
+      const schemaFile = path.join(testDataDir, 'people.schema.json');
+      const csvFile = path.join(testDataDir, 'people.csv');
+      fs.writeFileSync(schemaFile, JSON.stringify(recordSchema));
+      fs.writeFileSync(csvFile, 'id,email\n1,a@example.com\n2,not-an-email\n');
+
+      const result = await SchemaValidator.fromFile(schemaFile).validateFile(csvFile);
+
+      expect(result.fileType).toBe('csv');
+      expect(result.totalRecords).toBe(2);
+      expect(result.violations).toEqual([
+        { location: 'row 3', row: 3, field: 'email', rule: 'format', message: 'must match format "email"' }
+      ]);
+    });
+
+    // test the schema generated for a file accepts that file - yes/no values of boolean fields included
+    it('should accept the schema generated for the same file', async () => {
+      const studyFile = path.join(__dirname, '..', 'data', 'samples', 'xml', 'covid-19-CLinical-trials-studies', 'NCT04320017.xml');
+      const csvFile = path.join(testDataDir, 'flags.csv');
+      fs.writeFileSync(csvFile, 'id,active\n1,Yes\n2,no\n3,TRUE\n');
+
+      for (const file of [studyFile, csvFile]) {
+        const result = await new SchemaValidator(await JSONSchemaGenerator.fromFile(file)).validateFile(file);
+        expect(result.violations).toEqual([]);
+      }
+      expect((await new SchemaValidator(await JSONSchemaGenerator.fromFile(csvFile)).validateFile(studyFile)).isValid).toBe(false);
+    });
+
+    // test unreadable and invalid schemas
+    it('should reject missing and invalid schemas', () => {
+      const brokenFile = path.join(testDataDir, 'broken.schema.json');
+      fs.writeFileSync(brokenFile, '{ not json');
+
+      expect(() => SchemaValidator.fromFile(path.join(testDataDir, 'missing.json'))).toThrow('Schema file not found');
+      expect(() => SchemaValidator.fromFile(brokenFile)).toThrow('Schema file is not valid JSON');
+      expect(() => new SchemaValidator({ minLength: -1 })).toThrow('Invalid JSON Schema');
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { WriterRegistry, OutputDataset, OutputFormat } from '../src/writers/writerRegistry';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { parse } from 'yaml';
+
+describe('WriterRegistry', () => {
+  const testDataDir = path.join(__dirname, 'writer-registry-test-data');
+  const registry = WriterRegistry.createDefault();
+  const people: OutputDataset = {
+    name: 'people',
+    records: [{ id: '1', name: 'Ann', code: '007' }, { id: '2', name: 'Bob, Jr.', code: 'true' }]
+  };
+  const catalog: OutputDataset = {
+    name: 'catalog',
+    records: [],
+    document: { catalog: { $: { version: '2' }, book: [{ $: { id: 'b1' }, title: 'Dune' }, { $: { id: 'b2' }, title: 'Emma' }] } }
+  };
+
+  // render through the format looked up by name
+  const render = (name: string, datasets: OutputDataset[] = [people]) => {
+    const format = registry.get(name) as OutputFormat;
+    return format.render(datasets, {});
+  };
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('lookup', () => {
+    // test every built-in format is registered
+    it('should register the built-in formats', () => {
+      expect(registry.getNames()).toEqual(['json', 'ndjson', 'csv', 'tsv', 'xlsx', 'xml', 'yaml', 'markdown', 'html']);
+    });
+
+    // test formats are found by name, extension alias and output path
+    it('should find formats by name, extension and output path', () => {
+      expect(registry.get('CSV')?.name).toBe('csv');
+      expect(registry.get('md')?.name).toBe('markdown');
+      expect(registry.get('yml')?.name).toBe('yaml');
+      expect(registry.get('parquet')).toBeUndefined();
+      expect(registry.fromPath('out/report.JSONL')?.name).toBe('ndjson');
+      expect(registry.fromPath('report.htm')?.name).toBe('html');
+      expect(registry.fromPath('report')).toBeUndefined();
+    });
+
+    // test custom formats can be added and replace built-in ones
+    it('should register custom formats', () => {
+      const custom = new WriterRegistry().register({
+        name: 'ids',
+        description: 'One id per line',
+        extensions: ['.ids'],
+        binary: false,
+        multipleInputs: false,
+        usesDocument: false,
+        render: ([dataset]) => dataset.records.map(record => `${record.id}\n`).join('')
+      });
+
+      expect(custom.fromPath('list.ids')?.render([people], {})).toBe('1\n2\n');
+    });
+  });
+
+  describe('render', () => {
+    // test the record formats
+    it('should render records as JSON, NDJSON, CSV and TSV', () => {
+      expect(JSON.parse(render('json') as string)).toEqual(people.records);
+      expect(render('ndjson')).toBe('{"id":"1","name":"Ann","code":"007"}\n{"id":"2","name":"Bob, Jr.","code":"true"}\n');
+      expect(render('csv')).toBe('id,name,code\n1,Ann,007\n2,"Bob, Jr.",true\n');
+      expect(render('tsv')).toBe('id\tname\tcode\n1\tAnn\t007\n2\tBob, Jr.\ttrue\n');
+    });
+
+    // test YAML keeps strings that look like numbers or booleans as strings
+    it('should render YAML that loads back to the same values', () => {
+      expect(parse(render('yaml') as string)).toEqual(people.records);
+      expect(parse(render('yaml', [catalog]) as string)).toEqual(catalog.document);
+    });
+
+    // test documents keep their structure in JSON and XML output
+    it('should render XML and JSON documents as they are', () => {
+      expect(JSON.parse(render('json', [catalog]) as string)).toEqual(catalog.document);
+      expect(render('xml', [catalog])).toContain('<catalog version="2">\n  <book id="b1">\n    <title>Dune</title>');
+      expect(registry.get('xml')?.render([people], { rootElement: 'people', recordElement: 'person' }))
+        .toContain('<people>\n  <person>\n    <id>1</id>');
+    });
+
+    // test XLSX and HTML take every dataset
+    it('should render several datasets to XLSX and HTML', () => {
+      const workbook = XLSX.read(render('xlsx', [people, { name: 'more', records: [{ id: '3' }] }]));
+      const html = render('html', [people, { name: 'more', records: [{ id: '3' }] }]) as string;
+
+      expect(workbook.SheetNames).toEqual(['people', 'more']);
+      expect(html).toContain('<caption>people</caption>');
+      expect(html).toContain('<caption>more</caption>');
+      expect(XLSX.read(registry.get('xlsx')?.render([people], { groupBy: 'name' })).SheetNames).toEqual(['Ann', 'Bob, Jr.']);
+    });
+  });
+
+  describe('writeFile', () => {
+    // test streamed and rendered formats are written to disk
+    it('should write output files', async () => {
+      const csvFile = path.join(testDataDir, 'people.csv');
+      const markdownFile = path.join(testDataDir, 'people.md');
+
+      await registry.writeFile(registry.fromPath(csvFile) as OutputFormat, [people], { lineEnding: '\r\n' }, csvFile);
+      await registry.writeFile(registry.fromPath(markdownFile) as OutputFormat, [people], {}, markdownFile);
+
+      expect(fs.readFileSync(csvFile, 'utf8')).toBe('id,name,code\r\n1,Ann,007\r\n2,"Bob, Jr.",true\r\n');
+      expect(fs.readFileSync(markdownFile, 'utf8')).toContain('| 2 | Bob, Jr. | true |');
+    });
+
+    // test NDJSON is written from an async record source one record at a time
+    it('should stream records to NDJSON', async () => {
+      const ndjsonFile = path.join(testDataDir, 'people.ndjson');
+      const records = async function* () {
+        yield* people.records;
+      };
+
+      await registry.get('ndjson')?.writeStream?.(records(), {}, ndjsonFile);
+
+      expect(fs.readFileSync(ndjsonFile, 'utf8')).toBe(render('ndjson'));
+      expect(registry.get('csv')?.writeStream).toBeUndefined();
+    });
+
+    // test an output file that cannot be opened rejects while the records are still being read
+    it('should reject when the NDJSON output directory does not exist', async () => {
+      const records = async function* () {
+        yield* people.records;
+      };
+
+      await expect(registry.get('ndjson')?.writeStream?.(records(), {}, path.join(testDataDir, 'missing-dir', 'people.ndjson')))
+        .rejects.toThrow('ENOENT');
+    });
+  });
+});
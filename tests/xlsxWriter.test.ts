@@ -0,0 +1,123 @@
+import { XLSXWriter } from '../src/writers/xlsxWriter';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+
+describe('XLSXWriter', () => {
+  const testDataDir = path.join(__dirname, 'xlsx-writer-test-data');
+  const records = [
+    { id: '1', name: 'Widget', price: '9.5', active: 'true', added: '2024-01-15', updated: '2024-01-15 10:30' },
+    { id: '2', name: 'Gadget, large', price: '12', active: 'false', added: '2024-02-01', updated: '' }
+  ];
+
+  // read a part of the written package, e.g. a worksheet or the stylesheet
+  const readPart = (buffer: Buffer, partPath: string): string => {
+    const zip = XLSX.CFB.read(buffer, { type: 'buffer' });
+    return Buffer.from(XLSX.CFB.find(zip, partPath).content).toString('utf8');
+  };
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('write', () => {
+    // test string values become numbers, booleans and dates
+    it('should write typed cells', () => {
+      const worksheet = XLSX.read(new XLSXWriter().write([{ name: 'Products', records }])).Sheets.Products;
+
+      expect(worksheet.A1).toMatchObject({ t: 's', v: 'id' });
+      expect(worksheet.A2).toMatchObject({ t: 'n', v: 1 });
+      expect(worksheet.B3).toMatchObject({ t: 's', v: 'Gadget, large' });
+      expect(worksheet.C2).toMatchObject({ t: 'n', v: 9.5 });
+      expect(worksheet.D3).toMatchObject({ t: 'b', v: false });
+      expect(worksheet.E2).toMatchObject({ t: 'n', v: 45306, w: '2024-01-15' });
+      expect(worksheet.F2).toMatchObject({ t: 'n', w: '2024-01-15 10:30:00' });
+      expect(worksheet.F3).toBeUndefined();
+    });
+
+    // test values stay text when inference is off, typed input values keep their type
+    it('should keep text when type inference is off', () => {
+      const worksheet = XLSX.read(new XLSXWriter({ inferTypes: false }).write([
+        { name: 'Raw', records: [{ code: '007', count: 3, flag: true }] }
+      ])).Sheets.Raw;
+
+      expect(worksheet.A2).toMatchObject({ t: 's', v: '007' });
+      expect(worksheet.B2).toMatchObject({ t: 'n', v: 3 });
+      expect(worksheet.C2).toMatchObject({ t: 'b', v: true });
+    });
+
+    // test autofilter and column widths sized to the longest value
+    it('should add an autofilter and size columns', () => {
+      const buffer = new XLSXWriter({ maxColumnWidth: 12 }).write([{ name: 'Products', records }]);
+      const worksheet = XLSX.read(buffer, { cellStyles: true }).Sheets.Products;
+
+      expect(worksheet['!autofilter']).toEqual({ ref: 'A1:F3' });
+      expect(worksheet['!cols']?.map(column => column.wch)).toEqual([6, 12, 7, 8, 12, 12]);
+    });
+
+    // test header cells use a bold, filled style and the pane is frozen below the header
+    it('should style and freeze the header row', () => {
+      const buffer = new XLSXWriter().write([{ name: 'Products', records }]);
+      const sheetXml = readPart(buffer, '/xl/worksheets/sheet1.xml');
+      const stylesXml = readPart(buffer, '/xl/styles.xml');
+
+      const headerStyle = Number(sheetXml.match(/<c r="A1" s="(\d+)"/)?.[1]);
+      const styles = stylesXml.match(/<xf [^>]*\/>/g) || [];
+      expect(sheetXml).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+      expect(sheetXml).not.toMatch(/<c r="A2" s="\d+"/);
+      // cellStyleXfs holds one entry before the cellXfs list
+      expect(styles[headerStyle + 1]).toContain('applyFont="1"');
+      expect(stylesXml).toContain('<font><b/>');
+    });
+
+    // test the header layout can be switched off
+    it('should skip header styling and freezing when disabled', () => {
+      const buffer = new XLSXWriter({ styleHeader: false, freezeHeader: false, autoFilter: false }).write([{ name: 'Plain', records }]);
+
+      expect(readPart(buffer, '/xl/worksheets/sheet1.xml')).not.toContain('<pane');
+      expect(XLSX.read(buffer).Sheets.Plain['!autofilter']).toBeUndefined();
+    });
+  });
+
+  describe('sheets', () => {
+    // test several datasets become several sheets with valid, unique names
+    it('should write one sheet per dataset', () => {
+      const workbook = new XLSXWriter().createWorkbook([
+        { name: 'data', records: [{ a: 1 }] },
+        { name: 'DATA', records: [{ b: 2 }] },
+        { name: 'Q1/Q2 [draft]: a very long sheet name indeed', records: [] }
+      ]);
+
+      expect(workbook.SheetNames).toEqual(['data', 'DATA (2)', 'Q1_Q2 _draft__ a very long shee']);
+      expect(() => new XLSXWriter().createWorkbook([])).toThrow('At least one sheet is required');
+    });
+
+    // test grouping records into one sheet per value
+    it('should group records by a field', () => {
+      const sheets = XLSXWriter.groupBy([{ dept: 'eng', id: 1 }, { dept: 'ops', id: 2 }, { dept: 'eng', id: 3 }, { id: 4 }], 'dept');
+
+      expect(sheets.map(sheet => [sheet.name, sheet.records.length])).toEqual([['eng', 2], ['ops', 1], ['(empty)', 1]]);
+    });
+
+    // test files written to disk open with the same sheets and headers
+    it('should write a workbook file', async () => {
+      const outputFile = path.join(testDataDir, 'products.xlsx');
+
+      await new XLSXWriter().writeFile([{ name: 'Products', records }], outputFile);
+      const rows = XLSX.utils.sheet_to_json(XLSX.readFile(outputFile).Sheets.Products) as Record<string, any>[];
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({ id: 1, name: 'Widget', price: 9.5, active: true });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { XmlFlattener } from '../src/utils/xmlFlattener';
+
+describe('XmlFlattener', () => {
+  // a study as XmlProcessor reads it - attributes under "$", text with attributes under "_", repeats as arrays
+  const study = {
+    $: { rank: '1' },
+    id_info: { nct_id: 'NCT001', secondary_id: ['S-1', 'S-2'] },
+    enrollment: { _: '120', $: { type: 'Actual' } },
+    condition: ['Pain', 'Fever'],
+    keyword: ['aspirin', 'fever'],
+    location: [
+      { facility: { name: 'General', address: { city: 'Boston' } }, status: 'Recruiting' },
+      { facility: { name: 'Mercy', address: { city: 'Denver' } } }
+    ]
+  };
+
+  // test dotted paths, attributes of the record and of elements, and text of elements with attributes
+  it('should read dotted paths and attributes', () => {
+    const flattener = new XmlFlattener({
+      columns: [
+        { name: 'nct_id', path: 'id_info.nct_id' },
+        { name: 'rank', path: '@rank' },
+        { name: 'enrollment', path: 'enrollment' },
+        { name: 'enrollment_type', path: 'enrollment@type' },
+        { name: 'dotted_type', path: 'enrollment.@type' }
+      ]
+    });
+
+    expect(flattener.flatten(study)).toEqual([
+      { nct_id: 'NCT001', rank: '1', enrollment: '120', enrollment_type: 'Actual', dotted_type: 'Actual' }
+    ]);
+  });
+
+  // test repeated values are joined into one cell, missing ones are null
+  it('should join repeated values', () => {
+    const columns = [
+      { name: 'conditions', path: 'condition' },
+      { name: 'cities', path: 'location.facility.address.city' },
+      { name: 'phase', path: 'phase' }
+    ];
+
+    expect(new XmlFlattener({ columns }).flatten(study)).toEqual([
+      { conditions: 'Pain; Fever', cities: 'Boston; Denver', phase: null }
+    ]);
+    expect(new XmlFlattener({ columns, separator: '|' }).flatten(study)[0].conditions).toBe('Pain|Fever');
+  });
+
+  // test exploded columns below the same element stay together, the other columns repeat on every row
+  it('should explode repeated elements into rows', () => {
+    const flattener = new XmlFlattener({
+      columns: [
+        { name: 'nct_id', path: 'id_info.nct_id' },
+        { name: 'facility', path: 'location.facility.name', explode: true },
+        { name: 'city', path: 'location.facility.address.city', explode: true },
+        { name: 'status', path: 'location.status', explode: true }
+      ]
+    });
+
+    expect(flattener.flatten(study)).toEqual([
+      { nct_id: 'NCT001', facility: 'General', city: 'Boston', status: 'Recruiting' },
+      { nct_id: 'NCT001', facility: 'Mercy', city: 'Denver', status: null }
+    ]);
+    expect(flattener.flatten({ id_info: { nct_id: 'NCT002' } })).toEqual([
+      { nct_id: 'NCT002', facility: null, city: null, status: null }
+    ]);
+  });
+
+  // test exploded columns below different elements give every combination
+  it('should combine unrelated exploded columns', () => {
+    const flattener = new XmlFlattener({
+      columns: [
+        { name: 'condition', path: 'condition', explode: true },
+        { name: 'keyword', path: 'keyword', explode: true }
+      ]
+    });
+
+    expect(flattener.flatten(study).map(row => `${row.condition}/${row.keyword}`)).toEqual([
+      'Pain/aspirin', 'Pain/fever', 'Fever/aspirin', 'Fever/fever'
+    ]);
+  });
+
+  // test elements with child elements are kept whole, and as JSON when joined
+  it('should keep elements with children', () => {
+    const flattener = new XmlFlattener({ columns: [{ name: 'id_info', path: 'id_info' }, { name: 'facility', path: 'location.facility' }] });
+    const [row] = flattener.flatten(study);
+
+    expect(row.id_info).toEqual(study.id_info);
+    expect(row.facility).toBe('{"name":"General","address":{"city":"Boston"}}; {"name":"Mercy","address":{"city":"Denver"}}');
+  });
+
+  // test mappings are checked when the flattener is created
+  it('should reject invalid mappings', () => {
+    expect(() => new XmlFlattener({ columns: [] })).toThrow('At least one column mapping is required');
+    expect(() => new XmlFlattener({ columns: [{ name: 'a', path: 'x' }, { name: 'a', path: 'y' }] })).toThrow("Duplicate column name 'a'");
+    expect(() => new XmlFlattener({ columns: [{ name: 'a', path: 'x@id.y' }] })).toThrow("Invalid column path 'x@id.y'");
+    expect(() => new XmlFlattener({ columns: [{ name: 'a', path: 'x..y' }] })).toThrow('Invalid column path');
+    expect(() => new XmlFlattener({ columns: [{ name: 'a', path: 'x@' }] })).toThrow('Invalid column path');
+  });
+});
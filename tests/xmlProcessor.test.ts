@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as iconv from 'iconv-lite';
 import { XmlProcessor, XmlProcessorOptions } from '../src/processors/xmlProcessor';
+import { XmlSecurityError } from '../src/utils/xmlSecurity';
 
 describe('XmlProcessor', () => {
   let processor: XmlProcessor;
@@ -153,33 +155,81 @@ describe('XmlProcessor', () => {
       }
     });
 
-    it('should validate a correct XML file', () => {
-      const validation = processor.validateXml(testXmlFile);
+    it('should validate a correct XML file', async () => {
+      const validation = await processor.validateXml(testXmlFile);
       
       expect(validation.isValid).toBe(true);
       expect(validation.errors).toHaveLength(0);
+      expect(validation.issues).toHaveLength(0);
       expect(validation.fileInfo?.size).toBeGreaterThan(0);
     });
 
-    it('should detect non-existent file', () => {
-      const validation = processor.validateXml('nonexistent.xml');
+    it('should detect non-existent file', async () => {
+      const validation = await processor.validateXml('nonexistent.xml');
       
       expect(validation.isValid).toBe(false);
       expect(validation.errors).toContain('File not found: nonexistent.xml');
     });
 
-    it('should detect malformed XML', () => {
-      const validation = processor.validateXml(malformedXmlFile);
+    it('should detect malformed XML', async () => {
+      const validation = await processor.validateXml(malformedXmlFile);
       
       expect(validation.isValid).toBe(false);
       expect(validation.errors.some(error => error.includes('XML syntax error') || error.includes('XML parsing error'))).toBe(true);
+      expect(validation.issues[0]).toMatchObject({ line: 1, column: 1, message: 'Non-whitespace before first tag' });
     });
 
-    it('should warn about non-xml extension', () => {
+    it('should detect unclosed XML', async () => {
+      const validation = await processor.validateXml(invalidXmlFile);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual(['XML syntax error: Unclosed root tag at line 4, column 1']);
+    });
+
+    it('should report every syntax error with its line, column and a caret under it', async () => {
+      const brokenFile = path.join(testDataDir, 'broken.xml');
+      fs.writeFileSync(brokenFile, '<?xml version="1.0"?>\n<root>\n\t<item>Test</itme>\n  <item id=1/>\n</root>\n<extra/>', 'utf8');
+
+      const validation = await processor.validateXml(brokenFile);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual(['XML syntax error: Unmatched closing tag: itme at line 3, column 18 (4 errors in total)']);
+      expect(validation.issues.map(issue => `${issue.line}:${issue.column} ${issue.message}`)).toEqual([
+        '3:18 Unmatched closing tag: itme',
+        '4:12 Unquoted attribute value',
+        '5:7 Unexpected close tag',
+        "6:1 Extra element 'extra' after the root element"
+      ]);
+      expect(validation.issues[0].snippet).toBe('\t<item>Test</itme>');
+      expect(validation.issues[0].caret).toBe('\t                ^');
+      expect(validation.issues[1].caret).toBe('           ^');
+    });
+
+    it('should accept references to entities the DOCTYPE declares', async () => {
+      const entityFile = path.join(testDataDir, 'entities.xml');
+      fs.writeFileSync(entityFile, '<?xml version="1.0"?>\n<!DOCTYPE root [<!ENTITY co "Acme">]>\n<root><item>&co;</item><item>&nope;</item></root>', 'utf8');
+
+      const validation = await processor.validateXml(entityFile);
+
+      expect(validation.issues.map(issue => `${issue.line}:${issue.column} ${issue.message}`)).toEqual(['3:35 Invalid character entity']);
+    });
+
+    it('should clip long lines around the error', async () => {
+      const longFile = path.join(testDataDir, 'long.xml');
+      fs.writeFileSync(longFile, `<root>${'<item>x</item>'.repeat(10)}<bad<${'<item>x</item>'.repeat(10)}</root>`, 'utf8');
+
+      const [issue] = (await processor.validateXml(longFile)).issues;
+
+      expect(issue.column).toBe(151);
+      expect(issue.snippet).toBe(`...${'x</item><item>x</item><item>x</item><bad<<item>x</item><item>x</item><item>x</it'}...`);
+      expect(issue.caret).toBe(`${' '.repeat(43)}^`);
+    });
+
+    it('should warn about non-xml extension', async () => {
       const txtFile = path.join(testDataDir, 'test.txt');
       fs.writeFileSync(txtFile, '<?xml version="1.0"?><root><item>Test</item></root>', 'utf8');
       
-      const validation = processor.validateXml(txtFile);
+      const validation = await processor.validateXml(txtFile);
       expect(validation.warnings.some(warning => warning.includes('expected XML format'))).toBe(true);
       
       fs.unlinkSync(txtFile);
@@ -284,6 +334,46 @@ describe('XmlProcessor', () => {
       expect(stats.hasNamespaces).toBe(true);
       expect(stats.rootElement).toBe('library');
     });
+
+    it('should report namespace-qualified names', async () => {
+      const stats = await processor.getStatistics(testXmlFile);
+
+      expect(stats.namespaces).toEqual({ book: 'http://example.com/book' });
+      expect(stats.totalElements).toBe(11);
+      expect(stats.maxDepth).toBe(3);
+      expect(stats.elementCounts).toEqual({
+        library: 1,
+        '{http://example.com/book}novel': 1,
+        '{http://example.com/book}textbook': 1,
+        title: 2,
+        author: 2,
+        chapters: 2,
+        metadata: 1,
+        version: 1
+      });
+    });
+
+    it('should resolve default namespaces and prefixes in scope', async () => {
+      const feedFile = path.join(testDataDir, 'feed.xml');
+      fs.writeFileSync(feedFile, `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <entry dc:source="wire"><title>A</title><dc:creator>Me</dc:creator></entry>
+  <entry><meta xmlns="" kind="x"/><q:rating xmlns:q="urn:rating" q:scale="5"/></entry>
+</feed>`, 'utf8');
+
+      const { structure } = await processor.processFile(feedFile);
+
+      expect(structure.rootElement).toBe('{http://www.w3.org/2005/Atom}feed');
+      expect(structure.namespaces).toEqual({ '': 'http://www.w3.org/2005/Atom', dc: 'http://purl.org/dc/elements/1.1/', q: 'urn:rating' });
+      expect([...structure.elements]).toEqual([
+        '{http://www.w3.org/2005/Atom}feed',
+        '{http://www.w3.org/2005/Atom}entry',
+        '{http://www.w3.org/2005/Atom}title',
+        '{http://purl.org/dc/elements/1.1/}creator',
+        'meta',
+        '{urn:rating}rating'
+      ]);
+      expect([...structure.attributes]).toEqual(['{http://purl.org/dc/elements/1.1/}source', 'kind', '{urn:rating}scale']);
+    });
   });
 
   describe('getPreview', () => {
@@ -331,6 +421,32 @@ describe('XmlProcessor', () => {
       expect(JSON.stringify(preview.data)).toContain('truncated for preview');
     });
 
+    it('should stop after the requested number of top-level records', async () => {
+      const recordsFile = path.join(testDataDir, 'records-test.xml');
+      let xmlContent = '<?xml version="1.0"?>\n<items>\n';
+      for (let i = 1; i <= 100; i++) {
+        xmlContent += `  <item id="${i}">Item ${i}</item>\n`;
+      }
+      xmlContent += '</items>';
+      fs.writeFileSync(recordsFile, xmlContent, 'utf8');
+
+      const preview = await processor.getPreview(recordsFile, 5, 2);
+
+      expect(preview.data.items.item).toHaveLength(2);
+      expect(preview.data.items.item[1]._).toBe('Item 2');
+
+      fs.unlinkSync(recordsFile);
+    });
+
+    it('should report syntax errors found before the record limit', async () => {
+      const brokenFile = path.join(testDataDir, 'broken-preview.xml');
+      fs.writeFileSync(brokenFile, '<root><item>1</wrong></root>', 'utf8');
+
+      await expect(processor.getPreview(brokenFile)).rejects.toThrow('XML processing error');
+
+      fs.unlinkSync(brokenFile);
+    });
+
     it('should respect maxDepth parameter', async () => {
       const preview = await processor.getPreview(testXmlFile, 1);
       
@@ -339,6 +455,308 @@ describe('XmlProcessor', () => {
     });
   });
 
+  describe('Encodings', () => {
+    beforeAll(() => {
+      if (!fs.existsSync(testDataDir)) {
+        fs.mkdirSync(testDataDir, { recursive: true });
+      }
+    });
+
+    afterAll(() => {
+      if (fs.existsSync(testDataDir)) {
+        fs.rmSync(testDataDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should decode using the encoding from the XML declaration', async () => {
+      const shiftJisFile = path.join(testDataDir, 'shift-jis.xml');
+      fs.writeFileSync(shiftJisFile, iconv.encode('<?xml version="1.0" encoding="Shift_JIS"?>\n<root><name>日本語</name></root>', 'shift_jis'));
+
+      const result = await processor.processFile(shiftJisFile);
+      const validation = await processor.validateXml(shiftJisFile);
+
+      expect(result.data.root.name).toBe('日本語');
+      expect(validation.fileInfo?.encoding).toBe('shift_jis');
+    });
+
+    it('should check streamed UTF-16 files in the encoding the records are read in', async () => {
+      const utf16File = path.join(testDataDir, 'utf16-feed.xml');
+      fs.writeFileSync(utf16File, iconv.encode('<feed><entry>Zürich</entry><entry>東京</entry></feed>', 'utf-16le', { addBOM: true }));
+      const records: any[] = [];
+
+      for await (const record of new XmlProcessor({ recordPath: 'entry', security: {} }).records(utf16File)) {
+        records.push(record.data);
+      }
+
+      expect(records).toEqual(['Zürich', '東京']);
+    });
+  });
+
+  describe('records', () => {
+    const feedFile = path.join(testDataDir, 'feed.xml');
+    const feedContent = `<?xml version="1.0"?>
+<feed xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <title>Updates</title>
+  <entry id="1"><dc:creator>Ann &amp; Bob</dc:creator><tag>a</tag><tag>b</tag></entry>
+  <archive>
+    <entry id="old"><dc:creator>Old</dc:creator></entry>
+  </archive>
+  <entry id="2"><dc:creator><![CDATA[<Cy>]]></dc:creator><entry>nested</entry></entry>
+</feed>`;
+
+    // collect every record streamed for a record path
+    const collect = async (reader: XmlProcessor, recordPath?: string) => {
+      const records = [];
+      for await (const record of reader.records(feedFile, recordPath)) {
+        records.push(record);
+      }
+      return records;
+    };
+
+    beforeAll(() => {
+      if (!fs.existsSync(testDataDir)) {
+        fs.mkdirSync(testDataDir, { recursive: true });
+      }
+      fs.writeFileSync(feedFile, feedContent, 'utf8');
+    });
+
+    afterAll(() => {
+      if (fs.existsSync(testDataDir)) {
+        fs.rmSync(testDataDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should stream every element with the record name', async () => {
+      const records = await collect(processor, 'entry');
+
+      expect(records.map(record => record.path)).toEqual(['/feed/entry[1]', '/feed/archive/entry[1]', '/feed/entry[2]']);
+      expect(records.map(record => record.index)).toEqual([1, 2, 3]);
+      expect(records[2].data).toEqual({ $: { id: '2' }, 'dc:creator': '<Cy>', entry: 'nested' });
+    });
+
+    it('should give records the same shape as processFile', async () => {
+      const mergedProcessor = new XmlProcessor({ mergeAttrs: true, explicitArray: true });
+      const records = await collect(mergedProcessor, '/feed/entry');
+      const document = await mergedProcessor.processFile(feedFile);
+
+      expect(records.map(record => record.data)).toEqual(document.data.feed.entry);
+      expect(records[0].data).toEqual({ id: ['1'], 'dc:creator': ['Ann & Bob'], tag: ['a', 'b'] });
+    });
+
+    it('should match record paths from the parent or the root', async () => {
+      const fromParent = await collect(processor, 'archive/entry');
+      const fromRoot = await collect(new XmlProcessor({ recordPath: '/feed/entry' }));
+
+      expect(fromParent.map(record => record.data.$.id)).toEqual(['old']);
+      expect(fromRoot.map(record => record.data.$.id)).toEqual(['1', '2']);
+      expect(await collect(processor, '/entry')).toEqual([]);
+    });
+
+    it('should stop reading when the consumer stops', async () => {
+      const ids: string[] = [];
+      for await (const record of processor.records(feedFile, 'entry')) {
+        ids.push(record.data.$.id);
+        break;
+      }
+
+      expect(ids).toEqual(['1']);
+    });
+
+    it('should stream records into a JSON array', async () => {
+      const outputFile = path.join(testDataDir, 'entries.json');
+      const recordProcessor = new XmlProcessor({ recordPath: 'feed/entry' });
+
+      const json = await recordProcessor.convertToJSON(feedFile);
+      await recordProcessor.convertToJSON(feedFile, outputFile);
+
+      expect(JSON.parse(json).map((entry: any) => entry.$.id)).toEqual(['1', '2']);
+      expect(fs.readFileSync(outputFile, 'utf8')).toBe(json);
+    });
+
+    it('should reject streamed output to a missing directory', async () => {
+      const recordProcessor = new XmlProcessor({ recordPath: 'feed/entry' });
+
+      await expect(recordProcessor.convertToJSON(feedFile, path.join(testDataDir, 'missing-dir', 'entries.json'))).rejects.toThrow('ENOENT');
+    });
+
+    it('should flatten records into rows with a column mapping', async () => {
+      const columns = [
+        { name: 'id', path: '@id' },
+        { name: 'creator', path: 'dc:creator' },
+        { name: 'tags', path: 'tag' },
+        { name: 'tag', path: 'tag', explode: true }
+      ];
+      // attributes are read from "$" even when the processor merges them
+      const flatProcessor = new XmlProcessor({ mergeAttrs: true, recordPath: '/feed/entry', columns, joinSeparator: ',' });
+
+      const rows = [];
+      for await (const row of flatProcessor.flattenRecords(feedFile)) {
+        rows.push([row.path, row.index, row.data]);
+      }
+
+      expect(rows).toEqual([
+        ['/feed/entry[1]', 1, { id: '1', creator: 'Ann & Bob', tags: 'a,b', tag: 'a' }],
+        ['/feed/entry[1]', 1, { id: '1', creator: 'Ann & Bob', tags: 'a,b', tag: 'b' }],
+        ['/feed/entry[2]', 2, { id: '2', creator: '<Cy>', tags: null, tag: null }]
+      ]);
+      expect(await flatProcessor.flatten(feedFile, [{ name: 'id', path: '@id' }])).toEqual([{ id: '1' }, { id: '2' }]);
+      expect(JSON.parse(await flatProcessor.convertToJSON(feedFile))).toHaveLength(3);
+    });
+
+    it('should reject a missing record path and malformed XML', async () => {
+      const brokenFile = path.join(testDataDir, 'broken-feed.xml');
+      fs.writeFileSync(brokenFile, '<feed><entry id="1"></entry><entry></feed>', 'utf8');
+
+      await expect(collect(processor)).rejects.toThrow('A record element or path is required');
+      await expect((async () => {
+        for await (const _record of processor.records(brokenFile, 'entry')) {
+          // records before the error are still yielded
+        }
+      })()).rejects.toThrow(/^XML processing error: /);
+    });
+  });
+
+  describe('query', () => {
+    const catalogFile = path.join(testDataDir, 'catalog.xml');
+    const catalogContent = `<?xml version="1.0"?>
+<catalog xmlns="urn:books" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <!-- spring list -->
+  <book id="b1"><dc:title>First</dc:title><price currency="EUR">10</price></book>
+  <book id="b2"><dc:title><![CDATA[Second & last]]></dc:title><price>25</price></book>
+</catalog>`;
+
+    beforeAll(() => {
+      if (!fs.existsSync(testDataDir)) {
+        fs.mkdirSync(testDataDir, { recursive: true });
+      }
+      fs.writeFileSync(catalogFile, catalogContent, 'utf8');
+    });
+
+    afterAll(() => {
+      if (fs.existsSync(testDataDir)) {
+        fs.rmSync(testDataDir, { recursive: true, force: true });
+      }
+    });
+
+    // subtrees carry the namespace declarations they use, so they stand on their own
+    it('should select elements as subtrees with declared and bound prefixes', async () => {
+      const result = await processor.query(catalogFile, '//b:book[2]', { b: 'urn:books' });
+
+      expect(result.expression).toBe('//b:book[2]');
+      expect(result.value).toBeUndefined();
+      expect(result.nodes).toEqual([{
+        type: 'element',
+        name: 'book',
+        path: '/catalog/book[2]',
+        value: {
+          $: { xmlns: 'urn:books', id: 'b2' },
+          'dc:title': { $: { 'xmlns:dc': 'http://purl.org/dc/elements/1.1/' }, _: 'Second & last' },
+          price: '25'
+        }
+      }]);
+    });
+
+    it('should select attributes, text and comments', async () => {
+      const attributes = await processor.query(catalogFile, '//b:price/@currency', { b: 'urn:books' });
+      const titles = await processor.query(catalogFile, '//dc:title/text()');
+      const comments = await processor.query(catalogFile, '/*/comment()');
+
+      expect(attributes.nodes).toEqual([{ type: 'attribute', name: 'currency', path: '/catalog/book[1]/price[1]/@currency', value: 'EUR' }]);
+      expect(titles.nodes.map(node => [node.path, node.value])).toEqual([
+        ['/catalog/book[1]/dc:title[1]/text()[1]', 'First'],
+        ['/catalog/book[2]/dc:title[1]/text()[1]', 'Second & last']
+      ]);
+      expect(comments.nodes).toEqual([{ type: 'comment', path: '/catalog/comment()[1]', value: ' spring list ' }]);
+    });
+
+    it('should return computed values', async () => {
+      const namespaces = { b: 'urn:books' };
+
+      expect((await processor.query(catalogFile, 'count(//b:book)', namespaces)).value).toBe(2);
+      expect((await processor.query(catalogFile, 'sum(//b:price)', namespaces)).value).toBe(35);
+      expect((await processor.query(catalogFile, 'string(//b:book[1]/@id)', namespaces)).value).toBe('b1');
+      expect((await processor.query(catalogFile, 'boolean(//b:missing)', namespaces)).value).toBe(false);
+      expect((await processor.query(catalogFile, '//book')).nodes).toEqual([]);
+    });
+
+    it('should accept names written as {uri}localName', async () => {
+      const result = await processor.query(catalogFile, "//{urn:books}book[{http://purl.org/dc/elements/1.1/}title='First']/{urn:books}price/@currency");
+
+      expect(result.nodes.map(node => node.path)).toEqual(['/catalog/book[1]/price[1]/@currency']);
+      expect((await processor.query(catalogFile, 'count(//{urn:books}book)', { ns1: 'urn:other' })).value).toBe(2);
+      expect((await processor.query(catalogFile, 'count(//{}book)')).value).toBe(0);
+      expect((await processor.query(catalogFile, "string(//{urn:books}book[1]/@id) = '{urn:books}x'")).value).toBe(false);
+    });
+
+    it('should reject invalid expressions, unbound prefixes and malformed XML', async () => {
+      const brokenFile = path.join(testDataDir, 'broken-catalog.xml');
+      fs.writeFileSync(brokenFile, '<catalog><book></catalog>', 'utf8');
+
+      await expect(processor.query(catalogFile, '//b:book[')).rejects.toThrow("Invalid XPath expression '//b:book['");
+      await expect(processor.query(catalogFile, '//x:book')).rejects.toThrow("namespace prefix 'x' is not bound to a namespace URI");
+      await expect(processor.query(brokenFile, '//book')).rejects.toThrow(/^XML processing error: /);
+    });
+  });
+
+  describe('security', () => {
+    const doctypeFile = path.join(testDataDir, 'doctype.xml');
+    const deepFile = path.join(testDataDir, 'deep.xml');
+
+    beforeAll(() => {
+      if (!fs.existsSync(testDataDir)) {
+        fs.mkdirSync(testDataDir, { recursive: true });
+      }
+      fs.writeFileSync(doctypeFile, '<?xml version="1.0"?>\n<!DOCTYPE feed [<!ENTITY e SYSTEM "file:///etc/passwd">]>\n<feed><entry>&e;</entry></feed>', 'utf8');
+      fs.writeFileSync(deepFile, '<feed><entry><a><b><c/></b></a></entry><entry/></feed>', 'utf8');
+    });
+
+    afterAll(() => {
+      if (fs.existsSync(testDataDir)) {
+        fs.rmSync(testDataDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject documents breaking the secure parsing profile', async () => {
+      const secure = new XmlProcessor({ security: {} });
+
+      await expect(secure.processFile(doctypeFile)).rejects.toThrow(XmlSecurityError);
+      await expect(secure.processFile(doctypeFile)).rejects.toMatchObject({ limit: 'doctype', line: 2 });
+      await expect(new XmlProcessor({ security: { allowDoctype: true } }).query(doctypeFile, '//entry'))
+        .rejects.toMatchObject({ limit: 'externalEntity' });
+      await expect(new XmlProcessor({ security: { maxDepth: 4 } }).getPreview(deepFile)).rejects.toMatchObject({ limit: 'depth' });
+    });
+
+    it('should check the secure parsing profile before the syntax when validating', async () => {
+      await expect(new XmlProcessor({ security: { allowDoctype: true } }).validate(doctypeFile)).rejects.toMatchObject({ limit: 'externalEntity' });
+      await expect(new XmlProcessor({ security: { maxDocumentSize: 10 } }).processFile(deepFile)).rejects.toMatchObject({ limit: 'documentSize' });
+      expect((await new XmlProcessor().validate(doctypeFile)).isValid).toBe(true);
+    });
+
+    it('should check streamed files before handing out records', async () => {
+      const secure = new XmlProcessor({ security: { maxDepth: 4 }, recordPath: 'entry' });
+      const records: unknown[] = [];
+
+      await expect((async () => {
+        for await (const record of secure.records(deepFile)) {
+          records.push(record);
+        }
+      })()).rejects.toMatchObject({ limit: 'depth' });
+      expect(records).toEqual([]);
+
+      expect((await new XmlProcessor({ security: { maxDepth: 5 } }).processFile(deepFile)).structure.maxDepth).toBe(5);
+    });
+
+    it('should expand declared entities when a DOCTYPE is allowed', async () => {
+      const entityFile = path.join(testDataDir, 'declared-entities.xml');
+      fs.writeFileSync(entityFile, '<!DOCTYPE feed [<!ENTITY co "Acme &amp; Co"><!ENTITY tag "&co; &lt;b&gt;">]>\n'
+        + '<feed><entry by="&co;">&tag;</entry><entry><![CDATA[&co;]]></entry></feed>', 'utf8');
+
+      const result = await new XmlProcessor({ security: { allowDoctype: true } }).processFile(entityFile);
+
+      expect(result.data.feed.entry).toEqual([{ _: 'Acme & Co <b>', $: { by: 'Acme & Co' } }, '&co;']);
+    });
+  });
+
   describe('getElementsPaths', () => {
     const testXmlFile = path.join(testDataDir, 'paths-test.xml');
 
@@ -0,0 +1,119 @@
+import { XmlSecurityError, XmlSecurityGuard } from '../src/utils/xmlSecurity';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('XmlSecurityGuard', () => {
+  const testDataDir = path.join(__dirname, 'xml-security-test-data');
+
+  // the limit a check fails with, undefined when it passes
+  const limitHit = (check: () => void): string | undefined => {
+    try {
+      check();
+    } catch (error) {
+      return error instanceof XmlSecurityError ? error.limit : `not a security error: ${error}`;
+    }
+    return undefined;
+  };
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  // test the defaults and plain documents
+  it('should accept documents within the limits', () => {
+    const guard = new XmlSecurityGuard();
+
+    expect(guard.getOptions()).toEqual(XmlSecurityGuard.DEFAULTS);
+    expect(() => guard.checkString('<?xml version="1.0"?>\n<root a="1"><item>&amp; &#233;</item><item/></root>')).not.toThrow();
+  });
+
+  // test DOCTYPE declarations are refused by default, with the position of the declaration
+  it('should reject DOCTYPE declarations by default', () => {
+    const guard = new XmlSecurityGuard();
+
+    expect(() => guard.checkString('<?xml version="1.0"?>\n<!DOCTYPE root>\n<root/>'))
+      .toThrow('DOCTYPE declarations are not allowed (line 2, column 15)');
+
+    expect(() => guard.checkString('<!DOCTYPE root [<!ENTITY a "b">]><root>&a;</root>')).toThrow(XmlSecurityError);
+    expect(limitHit(() => guard.checkString('<!DOCTYPE root [<!ENTITY a "b">]><root>&a;</root>'))).toBe('doctype');
+  });
+
+  // test external and parameter entities are refused even when a DOCTYPE is allowed
+  it('should reject external and parameter entities', () => {
+    const guard = new XmlSecurityGuard({ allowDoctype: true });
+
+    expect(limitHit(() => guard.checkString('<!DOCTYPE root [<!ELEMENT root ANY>]><root/>'))).toBeUndefined();
+    expect(() => guard.checkString('<!DOCTYPE root [<!ENTITY xxe SYSTEM "file:///etc/passwd">]><root>&xxe;</root>'))
+      .toThrow("External entity 'xxe' is not allowed");
+    expect(() => guard.checkString('<!DOCTYPE root PUBLIC "-//X//DTD X//EN" "http://example.com/x.dtd"><root/>'))
+      .toThrow("External DTD '-//X//DTD X//EN' is not allowed");
+    expect(limitHit(() => guard.checkString('<!DOCTYPE root [<!ENTITY % p "x">]><root/>'))).toBe('parameterEntity');
+    expect(limitHit(() => guard.checkString('<!DOCTYPE root [<!ENTITY a "%p;"> %p;]><root/>'))).toBe('parameterEntity');
+  });
+
+  // test nested entities are costed up front and references are counted in the document
+  it('should cap entity expansion', () => {
+    const guard = new XmlSecurityGuard({ allowDoctype: true, maxEntityExpansions: 50 });
+    const laughs = '<!DOCTYPE lolz [<!ENTITY a "lol"><!ENTITY b "&a;&a;&a;&a;&a;&a;&a;&a;&a;&a;"><!ENTITY c "&b;&b;&b;&b;&b;&b;&b;&b;&b;&b;">]>';
+
+    expect(() => guard.checkString(`${laughs}<lolz>&c;</lolz>`))
+      .toThrow("Entity expansion limit exceeded: entity 'c' expands to more than 50 entities");
+    expect(() => guard.checkString(`<!DOCTYPE r [<!ENTITY b "&a;a"><!ENTITY a "&b;">]><r/>`)).toThrow("Entity 'b' refers to itself");
+
+    const referenced = '<!DOCTYPE r [<!ENTITY a "x"><!ENTITY b "&a;&a;&a;&a;">]><r>';
+    expect(limitHit(() => guard.checkString(`${referenced}${'&b;'.repeat(10)}</r>`))).toBeUndefined();
+    expect(() => guard.checkString(`${referenced}${'&b;'.repeat(11)}</r>`))
+      .toThrow('Entity expansion limit exceeded: more than 50 entity expansions');
+  });
+
+  // test the characters entities expand to are capped, nested values counted at their expanded length
+  it('should cap entity expansion size', () => {
+    const big = `<!DOCTYPE r [<!ENTITY big "${'x'.repeat(20000)}">]><r>`;
+    const guard = new XmlSecurityGuard({ allowDoctype: true, maxEntityExpansionSize: 100000 });
+
+    expect(limitHit(() => guard.checkString(`${big}${'&big;'.repeat(5)}</r>`))).toBeUndefined();
+    expect(() => guard.checkString(`${big}${'&big;'.repeat(6)}</r>`))
+      .toThrow('Entity expansion size limit exceeded: entities expand to more than 100000 characters');
+    expect(limitHit(() => new XmlSecurityGuard({ allowDoctype: true }).checkString(`${big}${'&big;'.repeat(1000)}</r>`)))
+      .toBe('entityExpansion');
+
+    const nested = '<!DOCTYPE r [<!ENTITY a "xxxxxxxxxx"><!ENTITY b "&a;&a;&a;&a;&a;&a;&a;&a;&a;&a;&a;">]><r/>';
+    expect(() => new XmlSecurityGuard({ allowDoctype: true, maxEntityExpansionSize: 100 }).checkString(nested))
+      .toThrow("Entity expansion size limit exceeded: entity 'b' expands to more than 100 characters");
+  });
+
+  // test depth, attribute and size limits point at the offending element
+  it('should cap depth, attributes and document size', () => {
+    expect(limitHit(() => new XmlSecurityGuard({ maxDepth: 3 }).checkString('<a><b><c/></b><b/></a>'))).toBeUndefined();
+    expect(() => new XmlSecurityGuard({ maxDepth: 3 }).checkString('<a>\n  <b><c><d/></c></b>\n</a>'))
+      .toThrow('Nesting depth limit exceeded: more than 3 levels (line 2, column 9)');
+    expect(() => new XmlSecurityGuard({ maxAttributes: 2 }).checkString('<a x="1" y="2"><b x="1" y="2" z="3"/></a>'))
+      .toThrow("Attribute limit exceeded: element 'b' has 3 attributes, at most 2 allowed (line 1, column 16)");
+    expect(() => new XmlSecurityGuard({ maxDocumentSize: 10 }).checkString('<a>ééééé</a>'))
+      .toThrow('Document size limit exceeded: 17 bytes, at most 10 allowed');
+  });
+
+  // test files are streamed in their own encoding, entity references split across chunks are still counted
+  it('should check files', async () => {
+    const latinFile = path.join(testDataDir, 'latin.xml');
+    const entityFile = path.join(testDataDir, 'entities.xml');
+    fs.writeFileSync(latinFile, Buffer.from('<?xml version="1.0" encoding="ISO-8859-1"?>\n<r>caf\xe9</r>', 'latin1'));
+    fs.writeFileSync(entityFile, `<!DOCTYPE r [<!ENTITY entity "x">]><r>${'&entity; '.repeat(20000)}</r>`);
+
+    await expect(new XmlSecurityGuard().checkFile(latinFile)).resolves.toBeUndefined();
+    await expect(new XmlSecurityGuard({ maxDocumentSize: 50 }).checkFile(latinFile)).rejects.toMatchObject({ limit: 'documentSize' });
+    await expect(new XmlSecurityGuard({ allowDoctype: true, maxEntityExpansions: 19999 }).checkFile(entityFile))
+      .rejects.toThrow('more than 19999 entity expansions');
+    await expect(new XmlSecurityGuard({ allowDoctype: true, maxEntityExpansions: 20000 }).checkFile(entityFile)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import { XMLWriter } from '../src/writers/xmlWriter';
+import { XmlProcessor } from '../src/processors/xmlProcessor';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('XMLWriter', () => {
+  const testDataDir = path.join(__dirname, 'xml-writer-test-data');
+  const clinicalTrialsDir = path.join(__dirname, '..', 'data', 'samples', 'xml', 'covid-19-CLinical-trials-studies');
+
+  // parse a file, write its data back and parse the written file again
+  const roundTrip = async (filePath: string, processor: XmlProcessor = new XmlProcessor()) => {
+    const { data } = await processor.processFile(filePath);
+    const outputFile = path.join(testDataDir, `roundtrip-${path.basename(filePath)}`);
+    await new XMLWriter().writeFile(data, outputFile);
+    return { original: data, written: (await processor.processFile(outputFile)).data, xml: fs.readFileSync(outputFile, 'utf8') };
+  };
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('write', () => {
+    // test attributes, text with attributes, repeated elements and escaping
+    it('should serialize xml2js-shaped documents', () => {
+      const xml = new XMLWriter().write({
+        library: {
+          $: { name: 'City & County' },
+          book: [
+            { $: { id: '1' }, title: 'Dune', price: { _: '9.99', $: { currency: 'USD' } } },
+            { $: { id: '2' }, title: 'A < B', price: '' }
+          ]
+        }
+      });
+
+      expect(xml).toBe([
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<library name="City &amp; County">',
+        '  <book id="1">',
+        '    <title>Dune</title>',
+        '    <price currency="USD">9.99</price>',
+        '  </book>',
+        '  <book id="2">',
+        '    <title>A &lt; B</title>',
+        '    <price/>',
+        '  </book>',
+        '</library>',
+        ''
+      ].join('\n'));
+    });
+
+    // test record lists are wrapped in root and record elements, invalid names made valid
+    it('should write records with wrapper elements', () => {
+      const xml = new XMLWriter({ rootName: 'people', recordName: 'person', declaration: false, pretty: false })
+        .writeRecords([{ 'first name': 'John', age: 30, tags: ['a', 'b'] }, { 'first name': 'Jane', age: null }]);
+
+      expect(xml).toBe('<people><person><first_name>John</first_name><age>30</age><tags>a</tags><tags>b</tags></person>' +
+        '<person><first_name>Jane</first_name><age/></person></people>\n');
+    });
+
+    // test convert-xml output is unwrapped to its data, plain objects get the root element
+    it('should turn JSON values into documents', () => {
+      const writer = new XMLWriter();
+
+      expect(writer.toDocument({ fileName: 'a.xml', structure: {}, data: { a: { b: '1' } } })).toEqual({ a: { b: '1' } });
+      expect(writer.toDocument({ a: { b: '1' } })).toEqual({ a: { b: '1' } });
+      expect(writer.toDocument({ a: '1', b: '2' })).toEqual({ records: { a: '1', b: '2' } });
+      expect(writer.toDocument([{ a: '1' }])).toEqual({ records: { record: [{ a: '1' }] } });
+    });
+  });
+
+  describe('round trip', () => {
+    // test namespaces, prefixed elements and attribute order survive a round trip
+    it('should keep namespaces, attributes and element order', async () => {
+      const feedFile = path.join(testDataDir, 'feed.xml');
+      fs.writeFileSync(feedFile, `<?xml version="1.0" encoding="UTF-8"?>
+<atom:feed xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xml:lang="en">
+  <atom:title type="text">Updates &amp; news</atom:title>
+  <atom:entry id="2"><dc:creator>Ann</dc:creator><atom:title>Second</atom:title></atom:entry>
+  <atom:entry id="1"><dc:creator>Bob</dc:creator><atom:title>First</atom:title></atom:entry>
+  <atom:updated>2024-01-15</atom:updated>
+</atom:feed>`, 'utf8');
+
+      const { original, written, xml } = await roundTrip(feedFile);
+
+      expect(written).toEqual(original);
+      expect(Object.keys(written['atom:feed'])).toEqual(['$', 'atom:title', 'atom:entry', 'atom:updated']);
+      expect(xml).toContain('<atom:feed xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xml:lang="en">');
+    });
+
+    // test data parsed with explicit arrays is written back the same way
+    it('should round trip explicit array data', async () => {
+      const ordersFile = path.join(testDataDir, 'orders.xml');
+      fs.writeFileSync(ordersFile, '<orders><order no="7"><item>pen</item></order><order no="8"><item>ink</item><item>nib</item></order></orders>', 'utf8');
+
+      const { original, written } = await roundTrip(ordersFile, new XmlProcessor({ explicitArray: true }));
+
+      expect(written).toEqual(original);
+    });
+
+    // test documents read with preserveOrder keep interleaved siblings, mixed content and comments as written
+    it('should write interleaved siblings, mixed content and comments back in order', async () => {
+      const docFile = path.join(testDataDir, 'doc.xml');
+      const source = '<doc lang="en"><p>one</p><note>x &amp; y</note><p>two</p><p>mixed <b>bold</b> tail</p><!-- c --><code><![CDATA[a < b]]></code></doc>';
+      fs.writeFileSync(docFile, source, 'utf8');
+
+      const { data } = await new XmlProcessor({ preserveOrder: true }).processFile(docFile);
+
+      expect(new XMLWriter({ declaration: false, pretty: false }).write(data)).toBe(`${source}\n`);
+      expect(new XMLWriter().write(data)).toBe([
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<doc lang="en">',
+        '  <p>one</p>',
+        '  <note>x &amp; y</note>',
+        '  <p>two</p>',
+        '  <p>mixed <b>bold</b> tail</p>',
+        '  <!-- c -->',
+        '  <code><![CDATA[a < b]]></code>',
+        '</doc>',
+        ''
+      ].join('\n'));
+    });
+
+    // test ordered output reads back to the same data as the source document
+    it('should round trip ClinicalTrials studies read with preserveOrder', async () => {
+      const studyFile = path.join(clinicalTrialsDir, fs.readdirSync(clinicalTrialsDir)[0]);
+      const outputFile = path.join(testDataDir, 'ordered-study.xml');
+      const { data } = await new XmlProcessor({ preserveOrder: true }).processFile(studyFile);
+      await new XMLWriter().writeFile(data, outputFile);
+
+      expect((await new XmlProcessor().processFile(outputFile)).data).toEqual((await new XmlProcessor().processFile(studyFile)).data);
+    });
+
+    // test ClinicalTrials.gov studies are written back without losing data
+    it('should round trip ClinicalTrials studies', async () => {
+      const studies = fs.readdirSync(clinicalTrialsDir).slice(0, 5);
+
+      for (const study of studies) {
+        const { original, written } = await roundTrip(path.join(clinicalTrialsDir, study));
+        expect(written).toEqual(original);
+      }
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { XsdValidator } from '../src/utils/xsdValidator';
+import * as fs from 'fs';
+import * as path from 'path';
+
+describe('XsdValidator', () => {
+  const testDataDir = path.join(__dirname, 'xsd-validator-test-data');
+  const studySchema = `<?xml version="1.0"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="studies">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="study" type="Study" maxOccurs="unbounded"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+  <xs:complexType name="Study">
+    <xs:sequence>
+      <xs:element name="nct_id" type="NctId"/>
+      <xs:element name="phase" type="Phase" minOccurs="0"/>
+      <xs:element name="enrollment" type="xs:nonNegativeInteger"/>
+      <xs:element name="condition" type="xs:string" maxOccurs="2"/>
+      <xs:element name="start_date" type="xs:date" minOccurs="0"/>
+    </xs:sequence>
+    <xs:attribute name="rank" type="xs:positiveInteger" use="required"/>
+  </xs:complexType>
+  <xs:simpleType name="NctId">
+    <xs:restriction base="xs:string">
+      <xs:pattern value="NCT\\d{8}"/>
+    </xs:restriction>
+  </xs:simpleType>
+  <xs:simpleType name="Phase">
+    <xs:restriction base="xs:string">
+      <xs:enumeration value="Phase 1"/>
+      <xs:enumeration value="Phase 2"/>
+    </xs:restriction>
+  </xs:simpleType>
+</xs:schema>`;
+
+  beforeAll(() => {
+    // create test data directory
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true });
+    }
+  });
+
+  afterAll(() => {
+    // clean up test files
+    if (fs.existsSync(testDataDir)) {
+      fs.rmSync(testDataDir, { recursive: true, force: true });
+    }
+  });
+
+  // test a document matching the schema
+  it('should accept a valid document', () => {
+    const result = new XsdValidator(studySchema).validateString(`<studies>
+  <study rank="1"><nct_id>NCT00000001</nct_id><phase>Phase 2</phase><enrollment>120</enrollment><condition>Pain</condition></study>
+  <study rank="2"><nct_id>NCT00000002</nct_id><enrollment>0</enrollment><condition>Fever</condition><condition>Cough</condition><start_date>2024-05-01</start_date></study>
+</studies>`);
+
+    expect(result).toEqual({ isValid: true, elements: 12, violations: [] });
+  });
+
+  // test every violation is reported at the start tag of its element, in document order
+  it('should report violations with line and column', () => {
+    const result = new XsdValidator(studySchema).validateString(`<studies>
+  <study>
+    <phase>Phase 4</phase>
+    <enrollment>many</enrollment>
+    <condition>a</condition><condition>b</condition> <condition>c</condition>
+    <sponsor/>
+  </study>
+</studies>`);
+
+    expect(result.isValid).toBe(false);
+    expect(result.violations).toEqual([
+      { line: 2, column: 3, path: '/studies/study[1]', rule: 'required', message: "Element 'study' is missing required attribute 'rank'" },
+      { line: 2, column: 3, path: '/studies/study[1]', rule: 'minOccurs', message: "Element 'study' is missing required element 'nct_id'" },
+      { line: 3, column: 5, path: '/studies/study[1]/phase[1]', rule: 'enumeration', message: "Element 'phase': 'Phase 4' is not one of: Phase 1, Phase 2" },
+      { line: 4, column: 5, path: '/studies/study[1]/enrollment[1]', rule: 'type', message: "Element 'enrollment': 'many' is not a valid nonNegativeInteger" },
+      { line: 5, column: 54, path: '/studies/study[1]/condition[3]', rule: 'maxOccurs', message: "Element 'condition' can occur at most 2 times in 'study'" },
+      { line: 6, column: 5, path: '/studies/study[1]/sponsor[1]', rule: 'element', message: "Element 'sponsor' is not allowed in 'study'" }
+    ]);
+  });
+
+  // test elements out of sequence order, facets and attribute values
+  it('should check order, facets and attributes', () => {
+    const validator = new XsdValidator(studySchema);
+    const result = validator.validateString(
+      '<studies><study rank="0" site="x"><enrollment>5</enrollment><nct_id>NCT1</nct_id><condition>a</condition></study></studies>'
+    );
+
+    expect(result.violations.map(violation => `${violation.path} ${violation.rule}`)).toEqual([
+      '/studies/study[1] type',
+      '/studies/study[1] attribute',
+      '/studies/study[1] minOccurs',
+      '/studies/study[1]/nct_id[1] pattern',
+      '/studies/study[1]/nct_id[1] order'
+    ]);
+    expect(result.violations[0].message).toBe("Attribute 'rank' of element 'study': '0' is not a valid positiveInteger");
+    expect(validator.validateString('<study rank="1"/>').violations[0].message).toBe("Element 'study' is not declared in the schema");
+  });
+
+  // test target namespaces, choices, recursive types, simple content and wildcards
+  it('should validate namespaced schemas', () => {
+    const validator = new XsdValidator(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns="urn:catalog"
+    targetNamespace="urn:catalog" elementFormDefault="qualified">
+  <xs:element name="catalog">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:choice><xs:element name="updated" type="xs:dateTime"/><xs:element name="draft" type="xs:boolean"/></xs:choice>
+        <xs:element name="category" type="Category" maxOccurs="unbounded"/>
+        <xs:any namespace="##other" processContents="lax" minOccurs="0" maxOccurs="unbounded"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+  <xs:complexType name="Category">
+    <xs:sequence>
+      <xs:element name="price" type="Price" minOccurs="0"/>
+      <xs:element name="category" type="Category" minOccurs="0" maxOccurs="unbounded"/>
+    </xs:sequence>
+    <xs:attribute name="code" use="required">
+      <xs:simpleType><xs:restriction base="xs:string"><xs:length value="3"/></xs:restriction></xs:simpleType>
+    </xs:attribute>
+  </xs:complexType>
+  <xs:complexType name="Price">
+    <xs:simpleContent>
+      <xs:extension base="xs:decimal"><xs:attribute name="currency" type="xs:string" fixed="EUR"/></xs:extension>
+    </xs:simpleContent>
+  </xs:complexType>
+</xs:schema>`);
+
+    const valid = validator.validateString(`<catalog xmlns="urn:catalog" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <updated>2024-05-01T10:00:00Z</updated>
+  <category code="BKS"><category code="FIC"><price currency="EUR">9.50</price></category></category>
+  <dc:creator>Library</dc:creator>
+</catalog>`);
+    expect(valid.violations).toEqual([]);
+
+    const invalid = validator.validateString(`<catalog xmlns="urn:catalog">
+  <category code="BOOKS"><price currency="USD">cheap</price></category>
+  <category xmlns="" code="FIC"/>
+</catalog>`);
+    expect(invalid.violations.map(violation => `${violation.line}:${violation.column} ${violation.rule}`)).toEqual([
+      '1:1 minOccurs',
+      '2:3 length',
+      '2:26 fixed',
+      '2:26 type',
+      '3:3 element'
+    ]);
+    expect(invalid.violations[0].message).toBe("Element 'catalog' needs one of: updated, draft");
+  });
+
+  // test schemas are read from files with their includes, and documents streamed from files
+  it('should validate files', async () => {
+    const schemaPath = path.join(testDataDir, 'studies.xsd');
+    const typesPath = path.join(testDataDir, 'types.xsd');
+    const xmlPath = path.join(testDataDir, 'studies.xml');
+    fs.writeFileSync(typesPath, studySchema.replace(/<xs:element name="studies">[\s\S]*?<\/xs:element>\n/, ''));
+    fs.writeFileSync(schemaPath, `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:include schemaLocation="types.xsd"/>
+  <xs:element name="studies"><xs:complexType><xs:sequence><xs:element name="study" type="Study" maxOccurs="unbounded"/></xs:sequence></xs:complexType></xs:element>
+</xs:schema>`);
+    fs.writeFileSync(xmlPath, '<?xml version="1.0"?>\n<studies>\n  <study rank="1"><nct_id>NCT00000001</nct_id><enrollment>-1</enrollment><condition>a</condition></study>\n</studies>');
+
+    const result = await XsdValidator.fromFile(schemaPath).validateFile(xmlPath);
+
+    expect(result.elements).toBe(5);
+    expect(result.violations).toEqual([
+      { line: 3, column: 47, path: '/studies/study[1]/enrollment[1]', rule: 'type', message: "Element 'enrollment': '-1' is not a valid nonNegativeInteger" }
+    ]);
+  });
+
+  // test malformed documents stop with a syntax violation, broken schemas are rejected
+  it('should report syntax errors and invalid schemas', () => {
+    const result = new XsdValidator(studySchema).validateString('<studies>\n  <study rank="1">\n</studies>');
+
+    expect(result.isValid).toBe(false);
+    expect(result.violations).toHaveLength(1);
+    expect(result.violations[0]).toMatchObject({ line: 3, rule: 'syntax' });
+
+    expect(() => XsdValidator.fromFile(path.join(testDataDir, 'missing.xsd'))).toThrow('Schema file not found');
+    expect(() => new XsdValidator('<schema/>')).toThrow('Invalid XSD: the root element must be xs:schema');
+    expect(() => new XsdValidator(studySchema.replace('type="NctId"', 'type="Unknown"'))).toThrow("Invalid XSD: type 'Unknown' is not defined");
+    expect(() => new XsdValidator('<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema"><xs:include schemaLocation="https://example.com/a.xsd"/></xs:schema>'))
+      .toThrow("Invalid XSD: remote schema 'https://example.com/a.xsd' cannot be loaded");
+  });
+});